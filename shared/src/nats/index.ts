@@ -19,4 +19,5 @@ export {
   TargetSubjects,
   StreamNames,
   KVBuckets,
+  ObjectStoreBuckets,
 } from './subjects.js';
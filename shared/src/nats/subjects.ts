@@ -42,6 +42,20 @@ export const WorkSubjects = {
    */
   errors: (projectId: string) =>
     buildSubject(projectId, 'work', 'errors'),
+
+  /**
+   * Deadline notifications (approaching, missed, expired)
+   * Pattern: loom.{projectId}.work.deadline
+   */
+  deadline: (projectId: string) =>
+    buildSubject(projectId, 'work', 'deadline'),
+
+  /**
+   * Dead-lettered work items (kept outside work.> so it never overlaps the work stream)
+   * Pattern: loom.{projectId}.dlq.{workItemId}
+   */
+  deadLetter: (projectId: string, workItemId: string) =>
+    buildSubject(projectId, 'dlq', workItemId),
 };
 
 /**
@@ -194,3 +208,13 @@ export const KVBuckets = {
    */
   config: (projectId: string) => `loom-config-${projectId}`,
 };
+
+/**
+ * Object store bucket names
+ */
+export const ObjectStoreBuckets = {
+  /**
+   * Work artifact object store (objects named `{workItemId}/{name}`)
+   */
+  artifacts: (projectId: string) => `loom-artifacts-${projectId}`,
+};
@@ -20,7 +20,7 @@ export interface RegisteredAgent {
   /** Agent handle/username */
   handle: string;
 
-  /** Agent type (copilot-cli or claude-code) */
+  /** Agent type, as reported by the agent */
   agentType: AgentType;
 
   /** Current status */
@@ -148,3 +148,77 @@ export interface AgentDiscoveryFilter {
   /** Filter by hostname */
   hostname?: string;
 }
+
+/**
+ * Where an agent type is defined
+ */
+export type AgentTypeSource = 'built-in' | 'config' | 'runtime';
+
+/**
+ * Agent type definition
+ *
+ * Built-in types and those in the coordinator configuration are read-only;
+ * runtime types are stored per project in the `loom-config-{projectId}`
+ * KV bucket.
+ */
+export interface AgentTypeDefinition {
+  /** Agent type name, as agents report it */
+  name: AgentType;
+
+  /** Human-readable name */
+  displayName: string;
+
+  /** What the agent is */
+  description?: string;
+
+  /** Capabilities assumed for spin-up targets of this type that list none */
+  defaultCapabilities: string[];
+
+  /** Where the type is defined */
+  source: AgentTypeSource;
+
+  /** Creation timestamp (runtime types) */
+  createdAt?: string;
+
+  /** Last update timestamp (runtime types) */
+  updatedAt?: string;
+}
+
+/**
+ * Request to define an agent type
+ */
+export interface AgentTypeCreateRequest {
+  name: AgentType;
+  /** Default: the name */
+  displayName?: string;
+  description?: string;
+  defaultCapabilities?: string[];
+}
+
+/**
+ * Request to update an agent type
+ */
+export type AgentTypeUpdateRequest = Partial<Omit<AgentTypeCreateRequest, 'name'>>;
+
+/**
+ * Agent type used when nothing else decides one
+ */
+export const DEFAULT_AGENT_TYPE: AgentType = 'claude-code';
+
+/**
+ * Agent types every project knows
+ */
+export const BUILT_IN_AGENT_TYPES: AgentTypeDefinition[] = [
+  {
+    name: 'claude-code',
+    displayName: 'Claude Code',
+    defaultCapabilities: ['general'],
+    source: 'built-in',
+  },
+  {
+    name: 'copilot-cli',
+    displayName: 'GitHub Copilot CLI',
+    defaultCapabilities: ['general'],
+    source: 'built-in',
+  },
+];
@@ -1,4 +1,6 @@
 import type { BoundaryConfig } from './routing.js';
+import type { AgentTypeCreateRequest } from './agent.js';
+import type { Priority, RetryPolicy } from './work-item.js';
 
 /**
  * NATS connection configuration
@@ -83,6 +85,137 @@ export interface SpinUpBehaviorConfiguration {
   };
 }
 
+/**
+ * Work lifecycle configuration
+ */
+export interface WorkConfiguration {
+  /** Default retry policy for recoverable failures */
+  retry: RetryPolicy;
+
+  /** Deadline enforcement */
+  deadlines: DeadlineConfiguration;
+
+  /** Duplicate submission handling */
+  idempotency: IdempotencyConfiguration;
+
+  /** Assignment leases */
+  leases: LeaseConfiguration;
+
+  /** How work reaches agents */
+  dispatch: DispatchConfiguration;
+
+  /** How pending work is shared out across boundaries and submitters */
+  fairShare: FairShareConfiguration;
+
+  /** Priority aging for pending work (disabled when unset) */
+  aging?: AgingPolicy;
+}
+
+/**
+ * Priority aging policy
+ *
+ * Claimable work gains one priority level for every `intervalMs` it
+ * waits, up to `maxPriority`, so low-priority work isn't starved.
+ */
+export interface AgingPolicy {
+  /** How long pending work waits for each priority level it gains (ms) */
+  intervalMs: number;
+
+  /** Highest priority aging can raise work to */
+  maxPriority: Priority;
+}
+
+/**
+ * Weighted fair-share configuration
+ *
+ * Boundaries, and submitters within them, get dispatches in proportion to
+ * their weight. Unlisted boundaries and submitters have weight 1.
+ */
+export interface FairShareConfiguration {
+  /** Weight per boundary */
+  boundaryWeights: Record<string, number>;
+
+  /** Weight per submitter */
+  submitterWeights: Record<string, number>;
+
+  /** How quickly past dispatches stop counting against a share (half-life in ms) */
+  halfLifeMs: number;
+}
+
+/**
+ * How work reaches agents
+ * - queue: published to the JetStream work queue for agents to claim
+ * - push: offered to one eligible agent's inbox at a time
+ */
+export type DispatchMode = 'queue' | 'push';
+
+/**
+ * Work dispatch configuration
+ */
+export interface DispatchConfiguration {
+  /** Dispatch mode */
+  mode: DispatchMode;
+
+  /** How long an agent has to accept or reject an offer (ms) */
+  offerTimeoutMs: number;
+
+  /** How long to wait before offering work no agent accepted again (ms) */
+  redispatchDelayMs: number;
+
+  /**
+   * Most work items per capability queued or on offer but not yet claimed
+   * (0 = no limit); further work waits and goes out in fair-share order
+   */
+  window: number;
+}
+
+/**
+ * Assignment lease configuration
+ *
+ * Claiming work grants the agent a lease that heartbeats and progress
+ * reports renew; work whose lease runs out is returned to the queue.
+ */
+export interface LeaseConfiguration {
+  /** How long a claim or renewal keeps the work assigned (ms) */
+  durationMs: number;
+
+  /** How often to check for expired leases (ms) */
+  checkIntervalMs: number;
+}
+
+/**
+ * Deadline enforcement configuration
+ */
+export interface DeadlineConfiguration {
+  /** How often to check deadlines (ms) */
+  checkIntervalMs: number;
+
+  /** How long before a deadline pending work starts gaining priority (ms) */
+  escalationWindowMs: number;
+}
+
+/**
+ * Idempotent submission configuration
+ */
+export interface IdempotencyConfiguration {
+  /** How long a submission's response is remembered for resubmissions (ms) */
+  windowMs: number;
+
+  /** Treat the taskId as the idempotency key when no explicit key is given */
+  keyOnTaskId: boolean;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 5000, // 5 seconds
+  backoffMultiplier: 2,
+  maxDelayMs: 300000, // 5 minutes
+  jitter: 0.2,
+};
+
 /**
  * Full coordinator configuration
  * Note: Spin-up targets are NOT in config - they're in the KV registry
@@ -97,6 +230,9 @@ export interface CoordinatorConfiguration {
   /** Boundary-specific configuration (optional) */
   boundaryConfigs?: BoundaryConfig[];
 
+  /** Agent types available to every project, besides the built-in ones */
+  agentTypes?: AgentTypeCreateRequest[];
+
   /** Spin-up behavior settings */
   spinUp: SpinUpBehaviorConfiguration;
 
@@ -106,6 +242,9 @@ export interface CoordinatorConfiguration {
   /** Idle detection configuration */
   idle: IdleConfiguration;
 
+  /** Work lifecycle configuration */
+  work: WorkConfiguration;
+
   /** Logging level */
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
 }
@@ -145,6 +284,32 @@ export const DEFAULT_COORDINATOR_CONFIG: CoordinatorConfiguration = {
     checkIntervalMs: 60000, // 1 minute
     gracePeriodMs: 30000, // 30 seconds
   },
+  work: {
+    retry: DEFAULT_RETRY_POLICY,
+    deadlines: {
+      checkIntervalMs: 30000, // 30 seconds
+      escalationWindowMs: 3600000, // 1 hour
+    },
+    idempotency: {
+      windowMs: 600000, // 10 minutes
+      keyOnTaskId: false,
+    },
+    leases: {
+      durationMs: 300000, // 5 minutes
+      checkIntervalMs: 15000, // 15 seconds
+    },
+    dispatch: {
+      mode: 'queue',
+      offerTimeoutMs: 10000, // 10 seconds
+      redispatchDelayMs: 30000, // 30 seconds
+      window: 10,
+    },
+    fairShare: {
+      boundaryWeights: {},
+      submitterWeights: {},
+      halfLifeMs: 600000, // 10 minutes
+    },
+  },
   logLevel: 'info',
 };
 
@@ -3,13 +3,34 @@ export type {
   Boundary,
   AgentType,
   WorkItemStatus,
+  DependencyFailurePolicy,
   Priority,
   BaseWorkItem,
   CoordinatedWorkItem,
   WorkItemResult,
   WorkItemError,
+  WorkStatusTransition,
+  WorkHistory,
+  WorkArtifact,
+  RetryPolicy,
+  DeadLetterEntry,
   WorkSubmitRequest,
   WorkSubmitResponse,
+  WorkUpdateRequest,
+  WorkGraphNode,
+  WorkGraph,
+  WorkBatchSubmitRequest,
+  WorkBatchItemResult,
+  WorkBatchSubmitResponse,
+  WorkBatchStatus,
+  WorkFilter,
+  WorkSortField,
+  WorkQuery,
+  WorkQueryResult,
+  WorkOffer,
+  WorkOfferReply,
+  WorkCancellation,
+  WorkCancellationAck,
 } from './work-item.js';
 
 // Agent types
@@ -21,13 +42,31 @@ export type {
   AgentHeartbeat,
   AgentShutdownRequest,
   AgentDiscoveryFilter,
+  AgentTypeSource,
+  AgentTypeDefinition,
+  AgentTypeCreateRequest,
+  AgentTypeUpdateRequest,
+} from './agent.js';
+
+export {
+  DEFAULT_AGENT_TYPE,
+  BUILT_IN_AGENT_TYPES,
 } from './agent.js';
 
 // Routing types
 export type {
   RoutingDecision,
+  AgentScore,
+  RoutingCandidate,
+  RoutingExplanation,
   EligibilityResult,
   BoundaryConfig,
+  BoundaryConfigUpdateRequest,
+  RoutingRuleMatch,
+  RoutingRuleAction,
+  RoutingRule,
+  RoutingRuleCreateRequest,
+  RoutingRuleUpdateRequest,
 } from './routing.js';
 
 // Configuration types
@@ -36,6 +75,14 @@ export type {
   APIConfiguration,
   IdleConfiguration,
   SpinUpBehaviorConfiguration,
+  WorkConfiguration,
+  DeadlineConfiguration,
+  IdempotencyConfiguration,
+  LeaseConfiguration,
+  DispatchMode,
+  DispatchConfiguration,
+  FairShareConfiguration,
+  AgingPolicy,
   CoordinatorConfiguration,
   CLIConfiguration,
 } from './config.js';
@@ -43,8 +90,17 @@ export type {
 export {
   DEFAULT_COORDINATOR_CONFIG,
   DEFAULT_CLI_CONFIG,
+  DEFAULT_RETRY_POLICY,
 } from './config.js';
 
+// Schedule types
+export type {
+  ScheduledWorkTemplate,
+  WorkSchedule,
+  ScheduleCreateRequest,
+  ScheduleUpdateRequest,
+} from './schedule.js';
+
 // Spin-up target types (dynamic registry)
 export type {
   SpinUpMechanism,
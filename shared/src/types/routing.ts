@@ -1,4 +1,6 @@
-import type { AgentType, Boundary } from './work-item.js';
+import type { AgentType, Boundary, Priority } from './work-item.js';
+import type { AgentStatus } from './agent.js';
+import type { SpinUpTarget } from './spin-up-target.js';
 
 /**
  * Routing decision result
@@ -21,6 +23,90 @@ export interface RoutingDecision {
 
   /** Reason for the decision */
   reason: string;
+
+  /** Eligible agents of the target type with spare capacity, best first */
+  rankedAgents?: AgentScore[];
+
+  /** ID of the routing rule that matched the work, if any */
+  ruleId?: string;
+
+  /** Spin-up targets must carry all of these tags (set by a routing rule) */
+  targetTags?: string[];
+
+  /** Only agents of these types may take the work (set by a routing rule that requires agent types) */
+  permittedAgentTypes?: AgentType[];
+
+  /** Whether a routing rule rejected the work (`reason` says why) */
+  rejected?: boolean;
+}
+
+/**
+ * A registered agent considered when explaining routing
+ */
+export interface RoutingCandidate {
+  /** Agent GUID */
+  guid: string;
+
+  /** Agent handle */
+  handle: string;
+
+  /** Agent type */
+  agentType: AgentType;
+
+  /** Agent status */
+  status: AgentStatus;
+
+  /** Whether the agent could take the work */
+  eligible: boolean;
+
+  /** Why the agent can't take the work */
+  reason?: string;
+
+  /** The agent's score, if it is eligible and has spare capacity */
+  score?: AgentScore;
+}
+
+/**
+ * What would happen to a submission, worked out without submitting it
+ */
+export interface RoutingExplanation {
+  /** The routing decision the submission would get */
+  decision: RoutingDecision;
+
+  /** Every registered agent visible to the coordinator, eligible ones first */
+  candidates: RoutingCandidate[];
+
+  /** Whether a spin-up would be triggered, and of which target */
+  spinUp: {
+    /** Whether a spin-up would be triggered */
+    triggered: boolean;
+
+    /** Why a spin-up would or wouldn't be triggered */
+    reason: string;
+
+    /** Target that would be spun up (unset if none is suitable) */
+    target?: SpinUpTarget;
+  };
+}
+
+/**
+ * How well suited an agent is to take new work
+ */
+export interface AgentScore {
+  /** Agent GUID */
+  agentGuid: string;
+
+  /** Overall score (0-1, higher is better) */
+  score: number;
+
+  /** Fraction of the agent's task slots that are free (0-1) */
+  spareCapacity: number;
+
+  /** Fraction of the agent's recent work that failed (0-1) */
+  failureRate: number;
+
+  /** Time since the agent's last activity (ms) */
+  idleMs: number;
 }
 
 /**
@@ -52,4 +138,126 @@ export interface BoundaryConfig {
 
   /** Whether to trigger spin-up if no agents available */
   triggerSpinUpOnEmpty?: boolean;
+
+  /** When the configuration was last changed through the API (unset for configured boundaries) */
+  updatedAt?: string;
+}
+
+/**
+ * Request to change a boundary configuration (fields given replace the current ones)
+ */
+export interface BoundaryConfigUpdateRequest {
+  /** New description, or null to remove it */
+  description?: string | null;
+
+  /** New preferred agent type, or null to remove it */
+  preferredAgentType?: AgentType | null;
+
+  /** New fallback agent type, or null to remove it */
+  fallbackAgentType?: AgentType | null;
+
+  /** Whether to trigger spin-up if no agents available */
+  triggerSpinUpOnEmpty?: boolean;
+}
+
+/**
+ * Conditions a routing rule matches on
+ *
+ * Every condition given must hold; a rule without conditions matches all work.
+ */
+export interface RoutingRuleMatch {
+  /** Work must require one of these capabilities */
+  capabilities?: string[];
+
+  /** Work must be in one of these boundaries */
+  boundaries?: Boundary[];
+
+  /** Lowest matching priority (inclusive) */
+  minPriority?: Priority;
+
+  /** Highest matching priority (inclusive) */
+  maxPriority?: Priority;
+
+  /** contextData fields (dot-separated paths) that must equal these values */
+  contextData?: Record<string, unknown>;
+
+  /** Work must be submitted by one of these submitters */
+  submittedBy?: string[];
+}
+
+/**
+ * What a routing rule does to the work it matches
+ */
+export interface RoutingRuleAction {
+  /** Only route to these agent types */
+  requireAgentTypes?: AgentType[];
+
+  /** Agent types to try first, in order, ahead of the boundary's preferences */
+  preferAgentTypes?: AgentType[];
+
+  /** Only spin up targets carrying all of these tags */
+  targetTags?: string[];
+
+  /** Never trigger a spin-up for the work */
+  forbidSpinUp?: boolean;
+
+  /** Refuse the work at submission */
+  reject?: boolean;
+
+  /** Reason given when the work is rejected */
+  rejectReason?: string;
+}
+
+/**
+ * Declarative routing rule
+ *
+ * Rules are evaluated in ascending `order` and the first enabled rule that
+ * matches applies. They are stored per project in the
+ * `loom-config-{projectId}` KV bucket.
+ */
+export interface RoutingRule {
+  /** Unique identifier */
+  id: string;
+
+  /** Human-readable name */
+  name: string;
+
+  /** What the rule is for */
+  description?: string;
+
+  /** Evaluation order (lower first) */
+  order: number;
+
+  /** Whether the rule is evaluated */
+  enabled: boolean;
+
+  /** Conditions the work must meet */
+  match: RoutingRuleMatch;
+
+  /** What happens to matching work */
+  action: RoutingRuleAction;
+
+  /** Creation timestamp */
+  createdAt: string;
+
+  /** Last update timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Request to create a routing rule
+ */
+export interface RoutingRuleCreateRequest {
+  name: string;
+  description?: string;
+  /** Default: after every existing rule */
+  order?: number;
+  enabled?: boolean;
+  match?: RoutingRuleMatch;
+  action: RoutingRuleAction;
 }
+
+/**
+ * Request to update a routing rule
+ */
+export type RoutingRuleUpdateRequest = Partial<RoutingRuleCreateRequest>;
@@ -0,0 +1,75 @@
+/**
+ * Work schedule types
+ *
+ * Schedules submit a work request template on every tick of a cron
+ * expression. They are stored per project in the `loom-config-{projectId}`
+ * KV bucket.
+ */
+
+import type { WorkSubmitRequest } from './work-item.js';
+
+/**
+ * Work request submitted on each schedule tick
+ *
+ * `taskId` is optional; when omitted each run gets `{scheduleId}-{timestamp}`.
+ */
+export type ScheduledWorkTemplate = Omit<WorkSubmitRequest, 'taskId' | 'notBefore' | 'dependsOn' | 'idempotencyKey'> & {
+  taskId?: string;
+};
+
+/**
+ * Recurring work schedule
+ */
+export interface WorkSchedule {
+  /** Unique identifier */
+  id: string;
+
+  /** Human-readable name */
+  name: string;
+
+  /** Cron expression (minute hour day-of-month month day-of-week) */
+  cron: string;
+
+  /** IANA timezone the cron expression is evaluated in (default: UTC) */
+  timezone: string;
+
+  /** Work submitted on each tick */
+  template: ScheduledWorkTemplate;
+
+  /** Whether the schedule is active */
+  enabled: boolean;
+
+  /** Next time the schedule fires (unset while disabled) */
+  nextRunAt?: string;
+
+  /** Last time the schedule fired */
+  lastRunAt?: string;
+
+  /** Work item submitted by the last run */
+  lastWorkItemId?: string;
+
+  /** Error from the last run, if it failed to submit */
+  lastError?: string;
+
+  /** Creation timestamp */
+  createdAt: string;
+
+  /** Last update timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Request to create a schedule
+ */
+export interface ScheduleCreateRequest {
+  name: string;
+  cron: string;
+  timezone?: string;
+  template: ScheduledWorkTemplate;
+  enabled?: boolean;
+}
+
+/**
+ * Request to update a schedule
+ */
+export type ScheduleUpdateRequest = Partial<ScheduleCreateRequest>;
@@ -298,9 +298,15 @@ export interface TargetQueryFilter {
   /** Filter by agent type */
   agentType?: AgentType;
 
-  /** Filter by capability (target must have this capability) */
+  /** Filter by capability (target must have a capability satisfying it) */
   capability?: string;
 
+  /** Further capabilities the target must satisfy (wildcards and versions allowed) */
+  requiredCapabilities?: string[];
+
+  /** Capabilities that rank targets having them first */
+  preferredCapabilities?: string[];
+
   /** Filter by boundary (target must include this boundary) */
   boundary?: Boundary;
 
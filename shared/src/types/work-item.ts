@@ -9,20 +9,34 @@
 export type Boundary = string;
 
 /**
- * Agent types supported by the coordinator
+ * Agent type name (e.g. "claude-code", "copilot-cli", "aider")
+ *
+ * Agent types are defined at runtime: built in, listed in the coordinator
+ * configuration, or stored per project (see AgentTypeDefinition).
  */
-export type AgentType = 'copilot-cli' | 'claude-code';
+export type AgentType = string;
 
 /**
  * Work item status
  */
 export type WorkItemStatus =
+  | 'blocked'     // Waiting for dependencies to complete
   | 'pending'     // Waiting for assignment
+  | 'paused'      // Held by an operator; not dispatched until resumed
   | 'assigned'    // Assigned to a worker
   | 'in-progress' // Worker is actively working
   | 'completed'   // Successfully completed
   | 'failed'      // Failed after all retries
-  | 'cancelled';  // Cancelled by user
+  | 'cancelled'   // Cancelled by user
+  | 'expired';    // Deadline passed before the work was picked up
+
+/**
+ * What happens to a blocked item when a dependency fails, is cancelled or expires
+ */
+export type DependencyFailurePolicy =
+  | 'cancel'  // Cancel the dependent (default)
+  | 'fail'    // Fail the dependent
+  | 'ignore'; // Treat the dependency as settled and release the dependent
 
 /**
  * Priority levels (1-10, higher = more urgent)
@@ -58,9 +72,36 @@ export interface CoordinatedWorkItem extends BaseWorkItem {
   /** Required agent type (overrides routing rules) */
   requiredAgentType?: AgentType;
 
+  /** Only agents of these types may take the work (set by a routing rule that requires agent types) */
+  permittedAgentTypes?: AgentType[];
+
+  /** Further capabilities an agent must have, besides `capability` */
+  requiredCapabilities?: string[];
+
+  /** Capabilities that rank agents having them ahead of others */
+  preferredCapabilities?: string[];
+
+  /** Agent type chosen by routing at submission */
+  targetAgentType?: AgentType;
+
+  /** Work items that must complete before this one is released */
+  dependsOn?: string[];
+
+  /** What to do when a dependency fails (default: 'cancel') */
+  dependencyFailurePolicy?: DependencyFailurePolicy;
+
+  /** Batch the item was submitted in */
+  batchId?: string;
+
   /** Current status */
   status: WorkItemStatus;
 
+  /** Why the item reached its current status (e.g. a missed deadline) */
+  statusReason?: string;
+
+  /** Priority used for ordering, raised by aging and as the deadline nears (`priority` keeps the submitted value) */
+  effectivePriority?: Priority;
+
   /** Assigned worker GUID */
   assignedTo?: string;
 
@@ -75,6 +116,86 @@ export interface CoordinatedWorkItem extends BaseWorkItem {
 
   /** Error information if failed */
   error?: WorkItemError;
+
+  /** Every error reported for this item, oldest first */
+  errorHistory?: WorkItemError[];
+
+  /** Result files uploaded to the project's artifact store */
+  storedArtifacts?: WorkArtifact[];
+
+  /** Retry policy resolved at submission */
+  retryPolicy?: RetryPolicy;
+
+  /** Earliest time the item may be claimed (ISO 8601), e.g. after retry backoff */
+  notBefore?: string;
+
+  /** When the assigned agent's lease runs out unless renewed (ISO 8601) */
+  leaseExpiresAt?: string;
+
+  /** Every status change, oldest first */
+  history?: WorkStatusTransition[];
+
+  /** When the assigned agent acknowledged cancellation (ISO 8601) */
+  cancelAcknowledgedAt?: string;
+}
+
+/**
+ * A work item status change
+ */
+export interface WorkStatusTransition {
+  /** Previous status (null when the item was submitted) */
+  from: WorkItemStatus | null;
+
+  /** New status */
+  to: WorkItemStatus;
+
+  /** When the change happened (ISO 8601) */
+  at: string;
+
+  /** Who made the change: an agent GUID, or 'coordinator' */
+  actor: string;
+
+  /** Why the status changed */
+  reason?: string;
+}
+
+/**
+ * Status timeline of a work item
+ */
+export interface WorkHistory {
+  workItemId: string;
+
+  /** Current status */
+  status: WorkItemStatus;
+
+  /** Every status change, oldest first */
+  transitions: WorkStatusTransition[];
+
+  /** Total time spent in each status so far (ms) */
+  timeInStatus: Partial<Record<WorkItemStatus, number>>;
+}
+
+/**
+ * Retry policy for recoverable work failures
+ *
+ * The delay before retry N is `initialDelayMs * backoffMultiplier^(N-1)`,
+ * capped at `maxDelayMs` and randomized by +/- `jitter`.
+ */
+export interface RetryPolicy {
+  /** Maximum attempts, including the first (1 = never retry) */
+  maxAttempts: number;
+
+  /** Delay before the first retry (ms) */
+  initialDelayMs: number;
+
+  /** Multiplier applied to the delay for each further retry */
+  backoffMultiplier: number;
+
+  /** Upper bound for the delay (ms) */
+  maxDelayMs: number;
+
+  /** Random jitter as a fraction of the delay (0-1) */
+  jitter: number;
 }
 
 /**
@@ -94,6 +215,26 @@ export interface WorkItemResult {
   completedAt: string;
 }
 
+/**
+ * Result file stored in the project's artifact object store
+ */
+export interface WorkArtifact {
+  /** File name, unique per work item */
+  name: string;
+
+  /** Size in bytes */
+  size: number;
+
+  /** MIME type given at upload */
+  contentType: string;
+
+  /** Checksum reported by the object store */
+  digest: string;
+
+  /** Upload timestamp */
+  uploadedAt: string;
+}
+
 /**
  * Work item error information
  */
@@ -114,6 +255,20 @@ export interface WorkItemError {
   occurredAt: string;
 }
 
+/**
+ * Dead-letter queue entry for work that failed for good
+ */
+export interface DeadLetterEntry {
+  /** Snapshot of the work item when it was dead-lettered (includes errorHistory) */
+  workItem: CoordinatedWorkItem;
+
+  /** Why the item was dead-lettered */
+  reason: string;
+
+  /** When the item was dead-lettered */
+  deadLetteredAt: string;
+}
+
 /**
  * Request to submit new work
  */
@@ -124,9 +279,15 @@ export interface WorkSubmitRequest {
   /** Workload boundary for routing */
   boundary: Boundary;
 
-  /** Required capability (e.g., 'typescript', 'python') */
+  /** Required capability (e.g., 'typescript', 'python'); also names the work's queue */
   capability: string;
 
+  /** Further capabilities an agent must have; may use wildcards and versions (`lang:*`, `typescript>=5`) */
+  requiredCapabilities?: string[];
+
+  /** Capabilities that rank agents and spin-up targets having them ahead of others */
+  preferredCapabilities?: string[];
+
   /** Human-readable task description */
   description: string;
 
@@ -142,8 +303,26 @@ export interface WorkSubmitRequest {
   /** Optional deadline (ISO 8601) */
   deadline?: string;
 
+  /** Earliest time the work may run (ISO 8601); dispatch is delayed until then */
+  notBefore?: string;
+
   /** Additional context data */
   contextData?: Record<string, unknown>;
+
+  /** Retry settings (unset fields use the project defaults) */
+  retry?: Partial<RetryPolicy>;
+
+  /** Work item IDs that must complete first (the item is `blocked` until then) */
+  dependsOn?: string[];
+
+  /** What to do when a dependency fails (default: 'cancel') */
+  dependencyFailurePolicy?: DependencyFailurePolicy;
+
+  /** Resubmissions with the same key within the idempotency window return the original response */
+  idempotencyKey?: string;
+
+  /** Who is submitting the work, for fair sharing (recorded as `offeredBy`; default: 'coordinator') */
+  submittedBy?: string;
 }
 
 /**
@@ -161,4 +340,227 @@ export interface WorkSubmitResponse {
 
   /** Estimated wait time in seconds */
   estimatedWaitSeconds?: number;
+
+  /** Whether the item is waiting for dependencies */
+  blocked?: boolean;
+
+  /** Whether this is the original response to an earlier submission with the same idempotency key */
+  duplicate?: boolean;
+}
+
+/**
+ * Changes to a work item that hasn't been claimed yet
+ */
+export interface WorkUpdateRequest {
+  /** New priority (1-10) */
+  priority?: Priority;
+
+  /** New deadline (ISO 8601), or null to remove it */
+  deadline?: string | null;
+
+  /** Replacement context data */
+  contextData?: Record<string, unknown>;
+}
+
+/**
+ * Batch work submission request
+ */
+export interface WorkBatchSubmitRequest {
+  /** Submissions in the batch */
+  items: WorkSubmitRequest[];
+}
+
+/**
+ * Result for one submission in a batch
+ */
+export interface WorkBatchItemResult {
+  /** Position of the submission in the request */
+  index: number;
+
+  /** Task ID of the submission */
+  taskId: string;
+
+  /** Submission response (if submitted) */
+  result?: WorkSubmitResponse;
+
+  /** Error message (if the submission failed) */
+  error?: string;
+}
+
+/**
+ * Batch work submission response
+ */
+export interface WorkBatchSubmitResponse {
+  /** Generated batch ID */
+  batchId: string;
+
+  /** Number of submissions that created (or matched) a work item */
+  submitted: number;
+
+  /** Number of submissions that failed */
+  failed: number;
+
+  /** Per-submission results, in request order */
+  results: WorkBatchItemResult[];
+}
+
+/**
+ * Status of a submitted batch
+ */
+export interface WorkBatchStatus {
+  batchId: string;
+
+  /** Number of work items in the batch */
+  total: number;
+
+  /** Number of work items in each status */
+  counts: Partial<Record<WorkItemStatus, number>>;
+
+  /** Work items in the batch */
+  workItemIds: string[];
+}
+
+/**
+ * Filters for listing work items (all optional, combined with AND)
+ */
+export interface WorkFilter {
+  status?: WorkItemStatus;
+  boundary?: Boundary;
+  capability?: string;
+  batchId?: string;
+  taskId?: string;
+
+  /** GUID of the agent the item is (or was last) assigned to */
+  assignedTo?: string;
+
+  /** Agent type chosen by routing */
+  agentType?: AgentType;
+
+  /** Lowest effective priority to include */
+  minPriority?: Priority;
+
+  /** Highest effective priority to include */
+  maxPriority?: Priority;
+
+  /** Only items submitted at or after this time (ISO 8601) */
+  submittedAfter?: string;
+
+  /** Only items submitted before this time (ISO 8601) */
+  submittedBefore?: string;
+
+  /** Only items that finished (completed, failed, cancelled or expired) at or after this time (ISO 8601) */
+  completedAfter?: string;
+
+  /** Only items that finished before this time (ISO 8601) */
+  completedBefore?: string;
+}
+
+/**
+ * Field work item listings can be sorted by
+ */
+export type WorkSortField = 'priority' | 'submittedAt' | 'completedAt';
+
+/**
+ * A page of a work item listing
+ */
+export interface WorkQuery extends WorkFilter {
+  /** Sort field (default: 'priority', oldest first among equal priorities) */
+  sortBy?: WorkSortField;
+
+  /** Sort direction (default: 'desc') */
+  sortOrder?: 'asc' | 'desc';
+
+  /** Maximum items per page */
+  limit?: number;
+
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+}
+
+/**
+ * Result of a work item listing
+ */
+export interface WorkQueryResult {
+  /** Items on this page */
+  workItems: CoordinatedWorkItem[];
+
+  /** Number of items on this page */
+  count: number;
+
+  /** Number of items matching the filters across all pages */
+  total: number;
+
+  /** Cursor for the next page (absent on the last page) */
+  nextCursor?: string;
+}
+
+/**
+ * Work offered to an agent's inbox in push dispatch mode
+ */
+export interface WorkOffer {
+  type: 'work-offer';
+
+  /** The work item being offered */
+  workItem: CoordinatedWorkItem;
+
+  /** When the offer lapses if the agent hasn't replied */
+  expiresAt: string;
+}
+
+/**
+ * Agent reply to a work offer
+ */
+export interface WorkOfferReply {
+  /** Whether the agent takes the work (it is then assigned to the agent) */
+  accepted: boolean;
+
+  /** Why the agent declined */
+  reason?: string;
+}
+
+/**
+ * Notice sent to the assigned agent's inbox when its work is cancelled
+ */
+export interface WorkCancellation {
+  type: 'work-cancelled';
+
+  workItemId: string;
+
+  /** Why the work was cancelled */
+  reason?: string;
+}
+
+/**
+ * Agent reply to a cancellation notice
+ */
+export interface WorkCancellationAck {
+  /** Whether the agent has stopped working on the item */
+  acknowledged: boolean;
+}
+
+/**
+ * Node in a work dependency graph
+ */
+export interface WorkGraphNode {
+  id: string;
+  taskId: string;
+  description: string;
+  status: WorkItemStatus;
+
+  /** Items this node depends on */
+  dependsOn: string[];
+
+  /** Items that depend on this node */
+  dependents: string[];
+}
+
+/**
+ * Dependency graph around a work item (everything connected to it)
+ */
+export interface WorkGraph {
+  /** Work item the graph was requested for */
+  rootId: string;
+
+  /** All connected work items */
+  nodes: WorkGraphNode[];
 }
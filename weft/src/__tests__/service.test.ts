@@ -0,0 +1,246 @@
+/**
+ * NATS Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NatsConnection } from 'nats';
+import type { DeadLetterEntry } from '@loom/shared';
+import { setupNATSHandlers } from '../service.js';
+import { ExtendedCoordinator } from '../coordinator/coordinator.js';
+import { AgentTypeRegistry } from '../agent-types/registry.js';
+import { WorkScheduler } from '../scheduling/scheduler.js';
+import type { RegistryEntry } from '../coordinator/registry.js';
+import type { ProjectContext, ProjectManager } from '../projects/index.js';
+
+const registry = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../coordinator/registry.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../coordinator/registry.js')>()),
+  getRegistryEntry: async (guid: string) => registry.get(guid) ?? null,
+}));
+
+type Callback = (err: Error | null, msg: unknown) => Promise<void>;
+
+function agentEntry(guid: string): RegistryEntry {
+  const now = new Date().toISOString();
+  return {
+    guid,
+    handle: guid,
+    hostname: 'localhost',
+    projectId: 'test',
+    capabilities: ['typescript'],
+    visibility: 'project-only',
+    status: 'online',
+    currentTaskCount: 0,
+    maxConcurrentTasks: 1,
+    spindownAfterIdleMs: 0,
+    lastHeartbeat: now,
+    lastActivity: now,
+    registeredAt: now,
+    metadata: { agentType: 'claude-code', boundaries: ['personal'] },
+  };
+}
+
+describe('NATS work handlers', () => {
+  let coordinator: ExtendedCoordinator;
+  let callbacks: Map<string, Callback>;
+  let deadLetters: Map<string, DeadLetterEntry>;
+  let scheduler: WorkScheduler;
+
+  /**
+   * Send a request to the handler subscribed to a subject and return its reply
+   */
+  const request = async (subject: string, payload: unknown): Promise<any> => {
+    let reply: unknown;
+    await callbacks.get(`coord.*.${subject}`)!(null, {
+      subject: `coord.test.${subject}`,
+      data: new TextEncoder().encode(JSON.stringify(payload)),
+      respond: (data: string) => {
+        reply = JSON.parse(data);
+      },
+    });
+    return reply;
+  };
+
+  const submit = (overrides: Record<string, unknown> = {}) =>
+    request('work.submit', {
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      ...overrides,
+    });
+
+  const claimed = async () => {
+    const { workItemId } = await submit();
+    await request('work.claim', { id: workItemId, agentGuid: 'agent-1' });
+    return workItemId as string;
+  };
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+    deadLetters = new Map();
+    const store = {
+      put: async () => {},
+      delete: async () => {},
+      list: async () => [],
+    };
+    scheduler = new WorkScheduler(store, request => coordinator.submitClassifiedWork(request));
+    const context = {
+      projectId: 'test',
+      coordinator,
+      deadLetterQueue: {
+        get: async (id: string) => deadLetters.get(id) ?? null,
+        remove: async (id: string) => deadLetters.delete(id),
+      },
+      agentTypes: new AgentTypeRegistry(store),
+      scheduler,
+    } as unknown as ProjectContext;
+    const projectManager = { getOrCreateProject: async () => context } as unknown as ProjectManager;
+
+    callbacks = new Map();
+    const nc = {
+      subscribe: (subject: string, { callback }: { callback: Callback }) => {
+        callbacks.set(subject, callback);
+      },
+    } as unknown as NatsConnection;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setupNATSHandlers(nc, projectManager);
+
+    registry.set('agent-1', agentEntry('agent-1'));
+    registry.set('agent-2', agentEntry('agent-2'));
+  });
+
+  afterEach(() => {
+    scheduler.shutdown();
+    coordinator.shutdown();
+    registry.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('should validate submissions like the REST API', async () => {
+    expect(await submit({ boundary: undefined })).toEqual({ error: 'APIError: classification is required' });
+    expect((await submit({ requiredAgentType: 'aider' })).error).toContain('Invalid requiredAgentType: aider');
+    expect((await submit({ deadline: 'tomorrow' })).error).toContain('deadline must be an ISO 8601 timestamp');
+
+    const { workItemId } = await submit();
+    expect(coordinator.getAssignment(workItemId)?.taskId).toBeTruthy();
+  });
+
+  it('should validate every item of a batch', async () => {
+    const reply = await request('work.submit-batch', {
+      items: [
+        { description: 'Test', capability: 'typescript', boundary: 'personal' },
+        { description: 'Test', capability: 'typescript', boundary: 'personal', priority: 11 },
+      ],
+    });
+
+    expect(reply.error).toContain('priority must be an integer between 1 and 10');
+    expect(coordinator.getAssignments()).toHaveLength(0);
+  });
+
+  it('should claim work for an eligible agent only', async () => {
+    const { workItemId } = await submit({ requiredCapabilities: ['python'] });
+
+    expect(await request('work.claim', { id: workItemId })).toEqual({
+      error: 'Error: id and agentGuid are required',
+    });
+    expect((await request('work.claim', { id: workItemId, agentGuid: 'agent-1' })).error).toBeTruthy();
+
+    const { workItemId: claimable } = await submit();
+    const reply = await request('work.claim', { id: claimable, agentGuid: 'agent-1' });
+    expect(reply).toMatchObject({ success: true, workItem: { status: 'assigned', assignedTo: 'agent-1' } });
+  });
+
+  it('should only take lifecycle reports from the assigned agent', async () => {
+    const id = await claimed();
+    const notAssigned = { error: 'Error: Work item is not assigned to agent agent-2' };
+
+    expect(await request('work.start', { id, agentGuid: 'agent-2' })).toEqual(notAssigned);
+    expect(await request('work.heartbeat', { id, agentGuid: 'agent-2' })).toEqual(notAssigned);
+    expect(await request('work.progress', { id, agentGuid: 'agent-2', progress: 50 })).toEqual(notAssigned);
+    expect(await request('work.complete', { id, agentGuid: 'agent-2' })).toEqual(notAssigned);
+    expect(await request('work.fail', { id, agentGuid: 'agent-2', error: 'boom' })).toEqual(notAssigned);
+    expect(coordinator.getAssignment(id)?.status).toBe('assigned');
+  });
+
+  it('should run work through start, heartbeat, progress and completion', async () => {
+    const id = await claimed();
+
+    expect(await request('work.start', { id, agentGuid: 'agent-1' })).toMatchObject({ success: true });
+    expect(await request('work.heartbeat', { id, agentGuid: 'agent-1' })).toMatchObject({ success: true });
+    expect((await request('work.progress', { id, agentGuid: 'agent-1', progress: 'half' })).error).toContain(
+      'progress must be a number'
+    );
+    expect(await request('work.progress', { id, agentGuid: 'agent-1', progress: 50 })).toMatchObject({
+      success: true,
+    });
+    expect(await request('work.complete', { id, agentGuid: 'agent-1', summary: 'done' })).toEqual({ success: true });
+    expect(coordinator.getAssignment(id)?.status).toBe('completed');
+  });
+
+  it('should reject reports for work that is no longer active', async () => {
+    const id = await claimed();
+    coordinator.cancelWork(id);
+
+    expect(await request('work.complete', { id, agentGuid: 'agent-1' })).toEqual({
+      error: 'Error: Work item is cancelled, not active',
+    });
+    expect(await request('work.fail', { id, agentGuid: 'agent-1', error: 'boom' })).toEqual({
+      error: 'Error: Work item is cancelled, not active',
+    });
+  });
+
+  it('should record the error code of a failure', async () => {
+    const id = await claimed();
+
+    expect((await request('work.fail', { id, agentGuid: 'agent-1' })).error).toContain('error is required');
+    expect((await request('work.fail', { id, agentGuid: 'agent-1', error: 'boom', code: 7 })).error).toContain(
+      'code must be a string'
+    );
+    expect(await request('work.fail', { id, agentGuid: 'agent-1', error: 'boom', code: 'OOM' })).toEqual({
+      success: true,
+    });
+    expect(coordinator.getAssignment(id)?.errorHistory?.at(-1)).toMatchObject({ message: 'boom', code: 'OOM' });
+  });
+
+  it('should replay a dead-lettered item and drop its entry', async () => {
+    const id = await claimed();
+    await request('work.fail', { id, agentGuid: 'agent-1', error: 'boom' });
+    const workItem = coordinator.getAssignment(id)!;
+    deadLetters.set(id, { workItem, reason: 'Unrecoverable error', deadLetteredAt: new Date().toISOString() });
+
+    expect(await request('dlq.replay', { id })).toMatchObject({
+      success: true,
+      workItem: { status: 'pending', attempts: 0 },
+    });
+    expect(deadLetters.has(id)).toBe(false);
+    expect(await request('dlq.replay', { id })).toEqual({
+      error: `Error: No replayable dead-letter entry for work item ${id}`,
+    });
+  });
+
+  it('should validate schedules like the REST API', async () => {
+    const template = { description: 'Nightly', capability: 'typescript', boundary: 'personal' };
+    const create = (overrides: Record<string, unknown>) =>
+      request('schedules.create', { name: 'nightly', cron: '0 2 * * *', template, ...overrides });
+
+    expect((await create({ template: { ...template, priority: 11 } })).error).toContain(
+      'priority must be an integer between 1 and 10'
+    );
+    expect((await create({ template: { ...template, requiredAgentType: 'aider' } })).error).toContain(
+      'Invalid requiredAgentType: aider'
+    );
+    expect((await create({ template: { ...template, dependsOn: ['work-1'] } })).error).toContain(
+      'template cannot set dependsOn, notBefore or idempotencyKey'
+    );
+    expect((await create({ enabled: 'yes' })).error).toContain('enabled must be a boolean');
+
+    const { id } = await create({});
+    expect(id).toBeTruthy();
+    const update = (updates: Record<string, unknown>) => request('schedules.update', { id, updates });
+    expect((await update({ template: { ...template, idempotencyKey: 'nightly' } })).error).toContain(
+      'template cannot set dependsOn, notBefore or idempotencyKey'
+    );
+    expect(await update({ name: 'nightly build' })).toMatchObject({ name: 'nightly build' });
+  });
+});
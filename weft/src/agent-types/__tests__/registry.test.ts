@@ -0,0 +1,211 @@
+/**
+ * Agent Type Registry Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { BoundaryConfig, RoutingRule, SpinUpTarget, WorkSchedule } from '@loom/shared';
+import { AgentTypeInUseError, AgentTypeRegistry, type AgentTypeStore } from '../registry.js';
+import { findAgentTypeReferences } from '../references.js';
+import { ExtendedCoordinator } from '../../coordinator/coordinator.js';
+
+function memoryStore(): AgentTypeStore & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    async put(key: string, value: unknown) {
+      entries.set(key, value);
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list<T>(prefix: string) {
+      return Array.from(entries.entries())
+        .filter(([key]) => key.startsWith(`${prefix}.`))
+        .map(([, value]) => value as T);
+    },
+  };
+}
+
+describe('AgentTypeRegistry', () => {
+  let store: ReturnType<typeof memoryStore>;
+  let registry: AgentTypeRegistry;
+
+  beforeEach(() => {
+    store = memoryStore();
+    registry = new AgentTypeRegistry(store, [{ name: 'aider', displayName: 'Aider', defaultCapabilities: ['python'] }]);
+  });
+
+  it('should know the built-in and configured types', () => {
+    expect(registry.listTypes().map(type => [type.name, type.source])).toEqual([
+      ['claude-code', 'built-in'],
+      ['copilot-cli', 'built-in'],
+      ['aider', 'config'],
+    ]);
+    expect(registry.getType('aider')?.defaultCapabilities).toEqual(['python']);
+  });
+
+  it('should persist runtime types and load them on initialize', async () => {
+    const created = await registry.createType({ name: 'codex', defaultCapabilities: ['typescript'] });
+
+    expect(created).toMatchObject({ displayName: 'codex', source: 'runtime' });
+    expect(store.entries.get('agent-types.codex')).toEqual(created);
+
+    const restored = new AgentTypeRegistry(store);
+    expect(await restored.initialize()).toBe(1);
+    expect(restored.getType('codex')).toEqual(created);
+  });
+
+  it('should update and remove runtime types', async () => {
+    await registry.createType({ name: 'codex' });
+
+    expect((await registry.updateType('codex', { displayName: 'Codex CLI' })).displayName).toBe('Codex CLI');
+    expect(await registry.removeType('codex')).toBe(true);
+    expect(await registry.removeType('codex')).toBe(false);
+    expect(store.entries.size).toBe(0);
+  });
+
+  it('should refuse to change built-in or configured types', async () => {
+    await expect(registry.createType({ name: 'claude-code' })).rejects.toThrow('already exists');
+    await expect(registry.updateType('aider', { displayName: 'Other' })).rejects.toThrow('configured');
+    await expect(registry.removeType('copilot-cli')).rejects.toThrow('built in');
+  });
+
+  it('should refuse to remove a type that is still referenced', async () => {
+    await registry.createType({ name: 'codex' });
+    registry.setReferenceFinder(async name => (name === 'codex' ? ["routing rule 'r1'"] : []));
+
+    const error = await registry.removeType('codex').catch(err => err);
+    expect(error).toBeInstanceOf(AgentTypeInUseError);
+    expect(error.references).toEqual(["routing rule 'r1'"]);
+    expect(registry.has('codex')).toBe(true);
+    expect(store.entries.has('agent-types.codex')).toBe(true);
+  });
+
+  it('should leave the registry unchanged when the store write fails', async () => {
+    await registry.createType({ name: 'codex', displayName: 'Codex' });
+    store.put = async () => {
+      throw new Error('KV unavailable');
+    };
+
+    await expect(registry.createType({ name: 'gemini' })).rejects.toThrow('KV unavailable');
+    await expect(registry.updateType('codex', { displayName: 'Codex CLI' })).rejects.toThrow('KV unavailable');
+    expect(registry.has('gemini')).toBe(false);
+    expect(registry.getType('codex')?.displayName).toBe('Codex');
+  });
+
+  it('should refuse invalid names and metadata', async () => {
+    await expect(registry.createType({ name: 'Not Valid' })).rejects.toThrow('name must');
+    await expect(registry.createType({ name: 'codex', defaultCapabilities: [''] })).rejects.toThrow('defaultCapabilities');
+  });
+
+  it('should name the field and the known types for unknown types', () => {
+    expect(() => registry.assertKnown('codex', 'requiredAgentType')).toThrow(
+      'Unknown requiredAgentType: codex. Must be one of: claude-code, copilot-cli, aider'
+    );
+    expect(() => registry.assertKnown('aider')).not.toThrow();
+  });
+});
+
+describe('ExtendedCoordinator with agent types', () => {
+  let coordinator: ExtendedCoordinator;
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      agentTypes: new AgentTypeRegistry(memoryStore(), [{ name: 'aider' }]),
+    });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  const submit = (requiredAgentType?: string) =>
+    coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'python',
+      boundary: 'personal',
+      requiredAgentType,
+    });
+
+  it('should accept work for registered agent types', async () => {
+    await expect(submit('aider')).resolves.toMatchObject({ spinUpTriggered: true });
+  });
+
+  it('should refuse work naming an unknown agent type', async () => {
+    await expect(submit('codex')).rejects.toThrow('Unknown requiredAgentType: codex');
+    expect(coordinator.getAssignments()).toHaveLength(0);
+  });
+});
+
+describe('findAgentTypeReferences', () => {
+  let coordinator: ExtendedCoordinator;
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      agentTypes: new AgentTypeRegistry(memoryStore(), [{ name: 'aider' }]),
+    });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should list everything naming the type', async () => {
+    const boundaries = [
+      { name: 'production', preferredAgentType: 'claude-code', fallbackAgentType: 'aider' },
+      { name: 'personal', preferredAgentType: 'claude-code' },
+    ] as BoundaryConfig[];
+    const rules = [
+      { id: 'r1', action: { preferAgentTypes: ['aider'] } },
+      { id: 'r2', action: { reject: true } },
+    ] as RoutingRule[];
+    const targets = [{ name: 'aider-box', agentType: 'aider' }] as SpinUpTarget[];
+    const schedules = [{ id: 's1', template: { requiredAgentType: 'aider' } }] as WorkSchedule[];
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'python',
+      boundary: 'personal',
+      requiredAgentType: 'aider',
+    });
+
+    const references = await findAgentTypeReferences(
+      {
+        boundaries: { listConfigs: () => boundaries },
+        routingRules: { listRules: () => rules },
+        targetRegistry: {
+          queryTargets: async filter => targets.filter(target => target.agentType === filter?.agentType),
+        },
+        coordinator,
+        scheduler: { listSchedules: () => schedules },
+      },
+      'aider'
+    );
+
+    expect(references).toEqual([
+      "boundary 'production'",
+      "routing rule 'r1'",
+      "target 'aider-box'",
+      "schedule 's1'",
+      `work item '${workItemId}'`,
+    ]);
+
+    coordinator.cancelWork(workItemId);
+    expect(
+      await findAgentTypeReferences(
+        {
+          boundaries: { listConfigs: () => [] },
+          routingRules: { listRules: () => [] },
+          targetRegistry: { queryTargets: async () => [] },
+          coordinator,
+        },
+        'aider'
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Agent types module
+ * Registry of built-in, configured and runtime agent types
+ */
+
+export { AgentTypeRegistry, AgentTypeInUseError, validateAgentType } from './registry.js';
+export type { AgentTypeStore, AgentTypeReferenceFinder } from './registry.js';
+export { findAgentTypeReferences } from './references.js';
+export type { AgentTypeReferenceSources } from './references.js';
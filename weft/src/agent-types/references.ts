@@ -0,0 +1,71 @@
+/**
+ * Agent type references
+ *
+ * Finds the project configuration and waiting work that name an agent type,
+ * so a runtime type can't be removed while something still depends on it.
+ */
+
+import type { AgentType, WorkItemStatus } from '@loom/shared';
+import type { BoundaryConfigManager, RoutingRuleManager } from '../routing/index.js';
+import type { TargetRegistry } from '../targets/index.js';
+import type { ExtendedCoordinator } from '../coordinator/index.js';
+import type { WorkScheduler } from '../scheduling/index.js';
+
+/** Statuses of work that has not been handed to an agent yet */
+const WAITING_STATUSES: WorkItemStatus[] = ['blocked', 'pending', 'paused'];
+
+/**
+ * Where agent types are referenced
+ */
+export interface AgentTypeReferenceSources {
+  boundaries: Pick<BoundaryConfigManager, 'listConfigs'>;
+  routingRules: Pick<RoutingRuleManager, 'listRules'>;
+  targetRegistry: Pick<TargetRegistry, 'queryTargets'>;
+  coordinator: Pick<ExtendedCoordinator, 'getAssignments'>;
+  scheduler?: Pick<WorkScheduler, 'listSchedules'>;
+}
+
+/**
+ * List what refers to an agent type
+ *
+ * @returns Descriptions such as "boundary 'production'", empty if nothing does
+ */
+export async function findAgentTypeReferences(
+  sources: AgentTypeReferenceSources,
+  name: AgentType
+): Promise<string[]> {
+  const references: string[] = [];
+
+  for (const config of sources.boundaries.listConfigs()) {
+    if (config.preferredAgentType === name || config.fallbackAgentType === name) {
+      references.push(`boundary '${config.name}'`);
+    }
+  }
+
+  for (const rule of sources.routingRules.listRules()) {
+    if (rule.action.requireAgentTypes?.includes(name) || rule.action.preferAgentTypes?.includes(name)) {
+      references.push(`routing rule '${rule.id}'`);
+    }
+  }
+
+  for (const target of await sources.targetRegistry.queryTargets({ agentType: name, includeDisabled: true })) {
+    references.push(`target '${target.name}'`);
+  }
+
+  for (const schedule of sources.scheduler?.listSchedules() ?? []) {
+    if (schedule.template.requiredAgentType === name || schedule.template.preferredAgentType === name) {
+      references.push(`schedule '${schedule.id}'`);
+    }
+  }
+
+  for (const workItem of sources.coordinator.getAssignments()) {
+    if (
+      WAITING_STATUSES.includes(workItem.status) &&
+      (workItem.requiredAgentType === name || workItem.permittedAgentTypes?.includes(name))
+    ) {
+      references.push(`work item '${workItem.id}'`);
+    }
+  }
+
+  return references;
+}
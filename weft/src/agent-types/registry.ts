@@ -0,0 +1,244 @@
+/**
+ * Agent type registry
+ *
+ * The single source of the agent types a project knows: the built-in types,
+ * those listed in the coordinator configuration, and runtime types stored in
+ * the project config store under `agent-types.{name}`. Work, routing rules
+ * and spin-up targets may only name agent types found here.
+ */
+
+import type {
+  AgentType,
+  AgentTypeCreateRequest,
+  AgentTypeDefinition,
+  AgentTypeUpdateRequest,
+} from '@loom/shared';
+import { BUILT_IN_AGENT_TYPES } from '@loom/shared';
+import type { ConfigStore } from '../config/index.js';
+
+/** Config store key prefix for agent types */
+const AGENT_TYPE_PREFIX = 'agent-types';
+
+/** Agent type names: lowercase letters, digits and hyphens (usable in KV keys and subjects) */
+const AGENT_TYPE_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Storage used by the agent type registry
+ */
+export type AgentTypeStore = Pick<ConfigStore, 'put' | 'delete' | 'list'>;
+
+/**
+ * Lists what still refers to an agent type (e.g. "routing rule 'r1'")
+ */
+export type AgentTypeReferenceFinder = (name: AgentType) => Promise<string[]>;
+
+/**
+ * Thrown when removing an agent type that is still referenced
+ */
+export class AgentTypeInUseError extends Error {
+  constructor(
+    public agentType: AgentType,
+    public references: string[],
+  ) {
+    super(`Agent type '${agentType}' is still referenced by ${references.join(', ')}`);
+    this.name = 'AgentTypeInUseError';
+  }
+}
+
+/**
+ * Check an agent type's name and metadata
+ * @throws Error describing the first problem found
+ */
+export function validateAgentType(request: Partial<AgentTypeCreateRequest>): void {
+  if (typeof request.name !== 'string' || !AGENT_TYPE_NAME.test(request.name)) {
+    throw new Error('name must consist of lowercase letters, digits and hyphens');
+  }
+  if (request.displayName !== undefined && (typeof request.displayName !== 'string' || !request.displayName.trim())) {
+    throw new Error('displayName must be a non-empty string');
+  }
+  if (request.description !== undefined && typeof request.description !== 'string') {
+    throw new Error('description must be a string');
+  }
+  if (
+    request.defaultCapabilities !== undefined &&
+    (!Array.isArray(request.defaultCapabilities) ||
+      !request.defaultCapabilities.every(capability => typeof capability === 'string' && capability.length > 0))
+  ) {
+    throw new Error('defaultCapabilities must be an array of non-empty strings');
+  }
+}
+
+/**
+ * Registry of the agent types a project knows
+ */
+export class AgentTypeRegistry {
+  private types: Map<AgentType, AgentTypeDefinition> = new Map();
+  private findReferences: AgentTypeReferenceFinder = async () => [];
+
+  /**
+   * @param store Storage for runtime agent types
+   * @param configured Agent types from the coordinator configuration
+   */
+  constructor(
+    private store: AgentTypeStore,
+    configured: AgentTypeCreateRequest[] = []
+  ) {
+    for (const definition of BUILT_IN_AGENT_TYPES) {
+      this.types.set(definition.name, { ...definition });
+    }
+    for (const request of configured) {
+      validateAgentType(request);
+      this.types.set(request.name, {
+        name: request.name,
+        displayName: request.displayName ?? request.name,
+        description: request.description,
+        defaultCapabilities: request.defaultCapabilities ?? [],
+        source: 'config',
+      });
+    }
+  }
+
+  /**
+   * Load the project's runtime agent types
+   * @returns Number of runtime agent types loaded
+   */
+  async initialize(): Promise<number> {
+    const stored = await this.store.list<AgentTypeDefinition>(AGENT_TYPE_PREFIX);
+    let loaded = 0;
+
+    for (const definition of stored) {
+      // Built-in and configured types can't be redefined
+      if (this.types.has(definition.name)) {
+        console.warn(`Ignoring stored agent type '${definition.name}': already defined`);
+        continue;
+      }
+      this.types.set(definition.name, definition);
+      loaded++;
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Set how to find what refers to an agent type, so referenced types can't be removed
+   */
+  setReferenceFinder(finder: AgentTypeReferenceFinder): void {
+    this.findReferences = finder;
+  }
+
+  /**
+   * List all agent types
+   */
+  listTypes(): AgentTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  /**
+   * Get an agent type by name
+   */
+  getType(name: AgentType): AgentTypeDefinition | null {
+    return this.types.get(name) ?? null;
+  }
+
+  /**
+   * Check whether an agent type is defined
+   */
+  has(name: AgentType): boolean {
+    return this.types.has(name);
+  }
+
+  /**
+   * Make sure an agent type is defined
+   * @throws Error naming the field and the unknown type
+   */
+  assertKnown(name: unknown, field = 'agentType'): void {
+    if (typeof name !== 'string' || !this.types.has(name)) {
+      throw new Error(`Unknown ${field}: ${String(name)}. Must be one of: ${Array.from(this.types.keys()).join(', ')}`);
+    }
+  }
+
+  /**
+   * Define a runtime agent type
+   */
+  async createType(request: AgentTypeCreateRequest): Promise<AgentTypeDefinition> {
+    validateAgentType(request);
+    if (this.types.has(request.name)) {
+      throw new Error(`Agent type '${request.name}' already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const definition: AgentTypeDefinition = {
+      name: request.name,
+      displayName: request.displayName ?? request.name,
+      description: request.description,
+      defaultCapabilities: request.defaultCapabilities ?? [],
+      source: 'runtime',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Write the store first, so a failed write leaves the registry as it was
+    await this.store.put(`${AGENT_TYPE_PREFIX}.${definition.name}`, definition);
+    this.types.set(definition.name, definition);
+
+    return definition;
+  }
+
+  /**
+   * Update a runtime agent type's metadata
+   */
+  async updateType(name: AgentType, updates: AgentTypeUpdateRequest): Promise<AgentTypeDefinition> {
+    const existing = this.requireRuntimeType(name);
+    validateAgentType({ ...updates, name });
+
+    const definition: AgentTypeDefinition = {
+      ...existing,
+      displayName: updates.displayName ?? existing.displayName,
+      description: updates.description ?? existing.description,
+      defaultCapabilities: updates.defaultCapabilities ?? existing.defaultCapabilities,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.store.put(`${AGENT_TYPE_PREFIX}.${name}`, definition);
+    this.types.set(name, definition);
+
+    return definition;
+  }
+
+  /**
+   * Remove a runtime agent type
+   * @returns true if the type existed
+   * @throws Error if the type is built in or configured
+   * @throws AgentTypeInUseError if boundaries, routing rules, targets or waiting work refer to the type
+   */
+  async removeType(name: AgentType): Promise<boolean> {
+    if (!this.types.has(name)) {
+      return false;
+    }
+    this.requireRuntimeType(name);
+
+    const references = await this.findReferences(name);
+    if (references.length > 0) {
+      throw new AgentTypeInUseError(name, references);
+    }
+
+    await this.store.delete(`${AGENT_TYPE_PREFIX}.${name}`);
+    this.types.delete(name);
+
+    return true;
+  }
+
+  /**
+   * Get a runtime agent type, refusing built-in and configured ones
+   */
+  private requireRuntimeType(name: AgentType): AgentTypeDefinition {
+    const existing = this.types.get(name);
+    if (!existing) {
+      throw new Error(`Agent type not found: ${name}`);
+    }
+    if (existing.source !== 'runtime') {
+      throw new Error(`Agent type '${name}' is ${existing.source === 'config' ? 'configured' : 'built in'} and can't be changed`);
+    }
+    return existing;
+  }
+}
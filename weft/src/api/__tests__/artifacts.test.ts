@@ -0,0 +1,99 @@
+/**
+ * Artifact Upload Route Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { DEFAULT_COORDINATOR_CONFIG, type CoordinatedWorkItem } from '@loom/shared';
+import { createExpressApp } from '../server.js';
+import type { CoordinatorServiceLayer } from '../server.js';
+
+describe('PUT /api/work/:id/artifacts/:name', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const uploadArtifact = vi.fn(async (_id: string, name: string, data: Buffer, contentType?: string) => ({
+    name,
+    size: data.length,
+    contentType: contentType ?? 'application/octet-stream',
+    digest: 'SHA-256=x',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+  }));
+
+  const service = {
+    getWorkItem: async (id: string) =>
+      id === 'work-1' ? ({ id, assignedTo: 'agent-1', status: 'in-progress' } as CoordinatedWorkItem) : null,
+    uploadArtifact,
+  } as unknown as CoordinatorServiceLayer;
+
+  const upload = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/api/work/${path}`, { method: 'PUT', body, headers });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = createExpressApp(DEFAULT_COORDINATOR_CONFIG.api, service).listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should store the raw body for the assigned agent', async () => {
+    const response = await upload('work-1/artifacts/patch.diff', '--- a\n+++ b\n', {
+      'X-Agent-Guid': 'agent-1',
+      'Content-Type': 'text/x-diff',
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ name: 'patch.diff', size: 12, contentType: 'text/x-diff' });
+    expect(uploadArtifact).toHaveBeenLastCalledWith('work-1', 'patch.diff', expect.any(Buffer), 'text/x-diff');
+  });
+
+  it('should only accept uploads from the assigned agent', async () => {
+    uploadArtifact.mockClear();
+
+    expect((await upload('work-1/artifacts/patch.diff', 'x')).status).toBe(400);
+    expect((await upload('work-1/artifacts/patch.diff', 'x', { 'X-Agent-Guid': 'agent-2' })).status).toBe(403);
+    expect((await upload('work-2/artifacts/patch.diff', 'x', { 'X-Agent-Guid': 'agent-1' })).status).toBe(404);
+    expect(uploadArtifact).not.toHaveBeenCalled();
+  });
+
+  it('should refuse invalid artifact names', async () => {
+    const response = await upload('work-1/artifacts/.env', 'x', { 'X-Agent-Guid': 'agent-1' });
+
+    const { message } = (await response.json()) as { message: string };
+    expect(response.status).toBe(400);
+    expect(message).toContain('Artifact names must start with a letter or digit');
+  });
+
+  it('should refuse bodies over the upload limit', async () => {
+    uploadArtifact.mockClear();
+
+    // Stream 64 MB and one byte from a single reused chunk, so the test stays light on memory
+    const chunk = Buffer.alloc(1024 * 1024);
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = http.request(`${baseUrl}/api/work/work-1/artifacts/big.bin`, {
+        method: 'PUT',
+        headers: { 'X-Agent-Guid': 'agent-1', 'Content-Length': String(64 * chunk.length + 1) },
+      });
+      request.on('response', response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on('error', reject);
+      for (let i = 0; i < 64; i++) {
+        request.write(chunk);
+      }
+      request.end(Buffer.alloc(1));
+    });
+
+    expect(status).toBe(413);
+    expect(uploadArtifact).not.toHaveBeenCalled();
+  }, 30000);
+});
@@ -17,6 +17,11 @@ export type { ErrorResponse } from './middleware/error.js';
 
 // Route handlers
 export { createAgentsRouter } from './routes/agents.js';
-export { createWorkRouter } from './routes/work.js';
+export { createAgentTypesRouter } from './routes/agent-types.js';
+export { createBoundariesRouter } from './routes/boundaries.js';
+export { createWorkRouter, validateWorkSubmitRequest, validateWorkUpdateRequest } from './routes/work.js';
+export { createDeadLetterRouter } from './routes/dead-letter.js';
+export { createSchedulesRouter, validateScheduleFields } from './routes/schedules.js';
+export { createRoutingRouter } from './routes/routing.js';
 export { createStatsRouter } from './routes/stats.js';
 export { createTargetsRouter } from './routes/targets.js';
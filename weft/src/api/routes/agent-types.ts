@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import type { AgentTypeCreateRequest, AgentTypeDefinition, AgentTypeUpdateRequest } from '@loom/shared';
+import type { CoordinatorServiceLayer } from '../server.js';
+import { APIError } from '../middleware/error.js';
+import { AgentTypeInUseError, validateAgentType } from '../../agent-types/index.js';
+
+/**
+ * Lists the names of the agent types a project knows
+ */
+export async function getAgentTypeNames(service: CoordinatorServiceLayer, projectId?: string): Promise<string[]> {
+  const types = await service.listAgentTypes(projectId ? { projectId } : undefined);
+  return types.map(type => type.name);
+}
+
+/**
+ * Validates that a request field names a known agent type
+ */
+export function validateAgentTypeField(value: unknown, agentTypes: string[], field: string): void {
+  if (typeof value !== 'string' || !agentTypes.includes(value)) {
+    throw new APIError(400, `Invalid ${field}: ${String(value)}. Must be one of: ${agentTypes.join(', ')}`);
+  }
+}
+
+/**
+ * Validates agent type metadata
+ */
+function validateAgentTypeRequest(request: Partial<AgentTypeCreateRequest>): void {
+  try {
+    validateAgentType(request);
+  } catch (err) {
+    throw new APIError(400, (err as Error).message);
+  }
+}
+
+/**
+ * Creates the agent types router
+ */
+export function createAgentTypesRouter(service: CoordinatorServiceLayer): Router {
+  const router = Router();
+
+  /**
+   * GET /api/agent-types
+   * List agent types (built-in, configured and runtime)
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const agentTypes = await service.listAgentTypes(filter);
+
+      res.json({
+        agentTypes,
+        count: agentTypes.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/agent-types
+   * Define a runtime agent type
+   *
+   * Body: AgentTypeCreateRequest
+   */
+  router.post('/', async (req, res, next) => {
+    try {
+      const request = req.body as Partial<AgentTypeCreateRequest> & { projectId?: string };
+
+      if (!request.name) {
+        throw new APIError(400, 'name is required');
+      }
+      validateAgentTypeRequest(request);
+
+      const existing = await service.getAgentType(request.name, request.projectId);
+      if (existing) {
+        throw new APIError(409, `Agent type ${request.name} already exists`);
+      }
+
+      const agentType = await service.createAgentType(request);
+
+      res.status(201).json(agentType);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/agent-types/:name
+   * Get an agent type
+   */
+  router.get('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+      if (!name) {
+        throw new APIError(400, 'Agent type name is required');
+      }
+
+      const agentType = await service.getAgentType(name, projectId);
+
+      if (!agentType) {
+        throw new APIError(404, `Agent type ${name} not found`);
+      }
+
+      res.json(agentType);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PUT /api/agent-types/:name
+   * Update a runtime agent type's display name, description or default capabilities
+   */
+  router.put('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      const updates = req.body as AgentTypeUpdateRequest;
+
+      if (!name) {
+        throw new APIError(400, 'Agent type name is required');
+      }
+
+      // Verify agent type exists and can be changed
+      const existing = await requireRuntimeType(service, name, projectId);
+
+      validateAgentTypeRequest({ ...updates, name: existing.name });
+
+      const agentType = await service.updateAgentType(name, updates, projectId);
+
+      res.json(agentType);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/agent-types/:name
+   * Remove a runtime agent type
+   *
+   * Refused with 409 while boundaries, routing rules, targets, schedules or
+   * waiting work refer to the type (listed in `details.references`).
+   */
+  router.delete('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+      if (!name) {
+        throw new APIError(400, 'Agent type name is required');
+      }
+
+      // Verify agent type exists and can be changed
+      await requireRuntimeType(service, name, projectId);
+
+      await service.removeAgentType(name, projectId);
+
+      res.json({
+        success: true,
+        message: `Agent type ${name} removed`,
+      });
+    } catch (err) {
+      next(err instanceof AgentTypeInUseError ? new APIError(409, err.message, { references: err.references }) : err);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Gets a runtime agent type, refusing built-in and configured ones
+ */
+async function requireRuntimeType(
+  service: CoordinatorServiceLayer,
+  name: string,
+  projectId?: string
+): Promise<AgentTypeDefinition> {
+  const existing = await service.getAgentType(name, projectId);
+  if (!existing) {
+    throw new APIError(404, `Agent type ${name} not found`);
+  }
+  if (existing.source !== 'runtime') {
+    throw new APIError(409, `Agent type ${name} is ${existing.source === 'config' ? 'configured' : 'built in'} and can't be changed`);
+  }
+  return existing;
+}
@@ -13,7 +13,7 @@ export function createAgentsRouter(service: CoordinatorServiceLayer): Router {
    * List registered agents
    *
    * Query parameters:
-   * - type: Filter by agent type (copilot-cli, claude-code)
+   * - type: Filter by agent type (see /api/agent-types)
    * - status: Filter by status (online, busy, offline)
    * - capability: Filter by capability
    */
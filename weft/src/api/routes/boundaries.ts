@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import type { BoundaryConfig, BoundaryConfigUpdateRequest } from '@loom/shared';
+import type { CoordinatorServiceLayer } from '../server.js';
+import { APIError } from '../middleware/error.js';
+import { applyBoundaryUpdates, validateBoundaryConfig } from '../../routing/index.js';
+import { getAgentTypeNames } from './agent-types.js';
+
+/**
+ * Validates a boundary configuration as it would be stored
+ */
+function validateBoundaryRequest(config: Partial<BoundaryConfig>, agentTypes: string[]): void {
+  try {
+    validateBoundaryConfig(config, agentType => agentTypes.includes(agentType));
+  } catch (err) {
+    throw new APIError(400, (err as Error).message);
+  }
+}
+
+/**
+ * Creates the boundaries router
+ */
+export function createBoundariesRouter(service: CoordinatorServiceLayer): Router {
+  const router = Router();
+
+  /**
+   * GET /api/boundaries
+   * List the boundary configurations in effect
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const boundaries = await service.listBoundaryConfigs(filter);
+
+      res.json({
+        boundaries,
+        count: boundaries.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/boundaries
+   * Configure a boundary
+   *
+   * Body: BoundaryConfig
+   */
+  router.post('/', async (req, res, next) => {
+    try {
+      const request = req.body as Partial<BoundaryConfig> & { projectId?: string };
+
+      if (!request.name) {
+        throw new APIError(400, 'name is required');
+      }
+      validateBoundaryRequest(request, await getAgentTypeNames(service, request.projectId));
+
+      const existing = await service.getBoundaryConfig(request.name, request.projectId);
+      if (existing) {
+        throw new APIError(409, `Boundary ${request.name} is already configured`);
+      }
+
+      const boundary = await service.createBoundaryConfig(request);
+
+      res.status(201).json(boundary);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/boundaries/:name
+   * Get a boundary's configuration
+   */
+  router.get('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+      if (!name) {
+        throw new APIError(400, 'Boundary name is required');
+      }
+
+      const boundary = await service.getBoundaryConfig(name, projectId);
+
+      if (!boundary) {
+        throw new APIError(404, `Boundary ${name} is not configured`);
+      }
+
+      res.json(boundary);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PUT /api/boundaries/:name
+   * Update a boundary's description, agent type preferences or spin-up behavior
+   *
+   * Fields set to null are removed.
+   */
+  router.put('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      const updates = req.body as BoundaryConfigUpdateRequest;
+
+      if (!name) {
+        throw new APIError(400, 'Boundary name is required');
+      }
+
+      // Verify boundary is configured
+      const existing = await service.getBoundaryConfig(name, projectId);
+      if (!existing) {
+        throw new APIError(404, `Boundary ${name} is not configured`);
+      }
+
+      validateBoundaryRequest(applyBoundaryUpdates(existing, updates), await getAgentTypeNames(service, projectId));
+
+      const boundary = await service.updateBoundaryConfig(name, updates, projectId);
+
+      res.json(boundary);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/boundaries/:name
+   * Remove a boundary's configuration (boundaries configured at startup return to those settings)
+   */
+  router.delete('/:name', async (req, res, next) => {
+    try {
+      const { name } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+
+      if (!name) {
+        throw new APIError(400, 'Boundary name is required');
+      }
+
+      // Verify boundary is configured
+      const existing = await service.getBoundaryConfig(name, projectId);
+      if (!existing) {
+        throw new APIError(404, `Boundary ${name} is not configured`);
+      }
+
+      const removed = await service.removeBoundaryConfig(name, projectId);
+      if (!removed) {
+        throw new APIError(409, `Boundary ${name} is configured at startup and has no changes to remove`);
+      }
+
+      res.json({
+        success: true,
+        message: `Boundary ${name} configuration removed`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
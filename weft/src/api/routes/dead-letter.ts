@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import type { CoordinatorServiceLayer } from '../server.js';
+import { APIError } from '../middleware/error.js';
+
+/**
+ * Creates the dead-letter queue router
+ */
+export function createDeadLetterRouter(service: CoordinatorServiceLayer): Router {
+  const router = Router();
+
+  /**
+   * GET /api/dlq
+   * List dead-lettered work items
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const entries = await service.listDeadLetters(filter);
+
+      res.json({
+        entries,
+        count: entries.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/dlq/:id
+   * Get the dead-letter entry for a work item
+   */
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      const entry = await service.getDeadLetter(id);
+
+      if (!entry) {
+        throw new APIError(404, `Dead-letter entry for work item ${id} not found`);
+      }
+
+      res.json(entry);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/dlq/:id/replay
+   * Resubmit a dead-lettered work item with its attempts reset
+   */
+  router.post('/:id/replay', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      // Verify entry exists
+      const entry = await service.getDeadLetter(id);
+      if (!entry) {
+        throw new APIError(404, `Dead-letter entry for work item ${id} not found`);
+      }
+
+      const workItem = await service.replayDeadLetter(id);
+      if (!workItem) {
+        throw new APIError(409, `Work item ${id} is no longer failed and cannot be replayed`);
+      }
+
+      res.json(workItem);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/dlq/:id
+   * Remove the dead-letter entry for a work item
+   */
+  router.delete('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      // Verify entry exists
+      const entry = await service.getDeadLetter(id);
+      if (!entry) {
+        throw new APIError(404, `Dead-letter entry for work item ${id} not found`);
+      }
+
+      await service.removeDeadLetter(id);
+
+      res.json({
+        success: true,
+        message: `Dead-letter entry for work item ${id} removed`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/dlq
+   * Purge all dead-letter entries
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.delete('/', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const { purged } = await service.purgeDeadLetters(filter);
+
+      res.json({
+        success: true,
+        purged,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,211 @@
+import { Router } from 'express';
+import type { RoutingRule, RoutingRuleCreateRequest, RoutingRuleUpdateRequest, WorkSubmitRequest } from '@loom/shared';
+import type { CoordinatorServiceLayer } from '../server.js';
+import { APIError } from '../middleware/error.js';
+import { validateRoutingRule } from '../../routing/index.js';
+import { getAgentTypeNames } from './agent-types.js';
+import { validateWorkSubmitRequest } from './work.js';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Validates a routing rule as it would be stored
+ */
+function validateRuleRequest(
+  rule: Pick<RoutingRule, 'name' | 'order' | 'enabled' | 'match' | 'action'>,
+  agentTypes: string[]
+): void {
+  try {
+    validateRoutingRule(rule, agentType => agentTypes.includes(agentType));
+  } catch (err) {
+    throw new APIError(400, (err as Error).message);
+  }
+}
+
+/**
+ * Creates the routing router
+ */
+export function createRoutingRouter(service: CoordinatorServiceLayer): Router {
+  const router = Router();
+
+  /**
+   * GET /api/routing/rules
+   * List routing rules in evaluation order
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.get('/rules', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const rules = await service.listRoutingRules(filter);
+
+      res.json({
+        rules,
+        count: rules.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/routing/rules
+   * Create a routing rule
+   */
+  router.post('/rules', async (req, res, next) => {
+    try {
+      const request = req.body as RoutingRuleCreateRequest & { projectId?: string };
+
+      if (!request.name) {
+        throw new APIError(400, 'name is required');
+      }
+      if (!request.action) {
+        throw new APIError(400, 'action is required');
+      }
+      validateRuleRequest({
+        name: request.name,
+        order: request.order ?? 0,
+        enabled: request.enabled ?? true,
+        match: request.match ?? {},
+        action: request.action,
+      }, await getAgentTypeNames(service, request.projectId));
+
+      const rule = await service.createRoutingRule(request);
+
+      res.status(201).json(rule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/routing/rules/:id
+   * Get a routing rule
+   */
+  router.get('/rules/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Routing rule ID is required');
+      }
+
+      const rule = await service.getRoutingRule(id);
+
+      if (!rule) {
+        throw new APIError(404, `Routing rule ${id} not found`);
+      }
+
+      res.json(rule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PUT /api/routing/rules/:id
+   * Update a routing rule's name, description, order, enabled flag, match or action
+   */
+  router.put('/rules/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      const updates = req.body as RoutingRuleUpdateRequest;
+
+      if (!id) {
+        throw new APIError(400, 'Routing rule ID is required');
+      }
+
+      // Verify rule exists
+      const existing = (await service.getRoutingRule(id)) as RoutingRule | null;
+      if (!existing) {
+        throw new APIError(404, `Routing rule ${id} not found`);
+      }
+
+      validateRuleRequest({
+        name: updates.name ?? existing.name,
+        order: updates.order ?? existing.order,
+        enabled: updates.enabled ?? existing.enabled,
+        match: updates.match ?? existing.match,
+        action: updates.action ?? existing.action,
+      }, await getAgentTypeNames(service, projectId));
+
+      const rule = await service.updateRoutingRule(id, updates);
+
+      res.json(rule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/routing/rules/:id
+   * Remove a routing rule
+   */
+  router.delete('/rules/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Routing rule ID is required');
+      }
+
+      // Verify rule exists
+      const existing = await service.getRoutingRule(id);
+      if (!existing) {
+        throw new APIError(404, `Routing rule ${id} not found`);
+      }
+
+      await service.removeRoutingRule(id);
+
+      res.json({
+        success: true,
+        message: `Routing rule ${id} removed`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/routing/explain
+   * Show how a work submission would be routed, without submitting it
+   *
+   * Body: WorkSubmitRequest
+   *
+   * Nothing is enqueued and no spin-up is triggered.
+   */
+  router.post('/explain', async (req, res, next) => {
+    try {
+      const request = req.body as Partial<WorkSubmitRequest> & { projectId?: string };
+
+      // Auto-generate taskId if not provided
+      if (!request.taskId) {
+        request.taskId = uuidv4();
+      }
+
+      validateWorkSubmitRequest(request, await getAgentTypeNames(service, request.projectId));
+
+      // Dependencies must refer to existing work items
+      for (const dependencyId of request.dependsOn ?? []) {
+        if (!(await service.getWorkItem(dependencyId))) {
+          throw new APIError(400, `Unknown dependency: ${dependencyId}`);
+        }
+      }
+
+      const explanation = await service.explainRouting(request);
+
+      res.json(explanation);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
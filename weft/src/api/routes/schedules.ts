@@ -0,0 +1,194 @@
+import { Router } from 'express';
+import type { ScheduleCreateRequest, ScheduleUpdateRequest } from '@loom/shared';
+import type { CoordinatorServiceLayer } from '../server.js';
+import { APIError } from '../middleware/error.js';
+import { parseCron, isValidTimeZone } from '../../scheduling/index.js';
+import { validateWorkSubmitRequest } from './work.js';
+import { getAgentTypeNames } from './agent-types.js';
+
+/**
+ * Validates schedule fields present in a create or update request
+ * (also used for `coord.{projectId}.schedules.create` and `update`)
+ *
+ * @param agentTypes Names of the agent types the project knows
+ */
+export function validateScheduleFields(request: ScheduleUpdateRequest, agentTypes: string[]): void {
+  if (request.name !== undefined && (typeof request.name !== 'string' || !request.name)) {
+    throw new APIError(400, 'name must be a non-empty string');
+  }
+
+  if (request.cron !== undefined) {
+    if (typeof request.cron !== 'string') {
+      throw new APIError(400, 'cron must be a string');
+    }
+    try {
+      parseCron(request.cron);
+    } catch (err) {
+      throw new APIError(400, `Invalid cron expression: ${(err as Error).message}`);
+    }
+  }
+
+  if (request.timezone !== undefined && !isValidTimeZone(request.timezone)) {
+    throw new APIError(400, `Invalid timezone: ${request.timezone}`);
+  }
+
+  if (request.enabled !== undefined && typeof request.enabled !== 'boolean') {
+    throw new APIError(400, 'enabled must be a boolean');
+  }
+
+  if (request.template !== undefined) {
+    if (!request.template || typeof request.template !== 'object') {
+      throw new APIError(400, 'template must be an object');
+    }
+    validateWorkSubmitRequest(request.template, agentTypes);
+    if ('dependsOn' in request.template || 'notBefore' in request.template || 'idempotencyKey' in request.template) {
+      throw new APIError(400, 'template cannot set dependsOn, notBefore or idempotencyKey');
+    }
+  }
+}
+
+/**
+ * Creates the schedules router
+ */
+export function createSchedulesRouter(service: CoordinatorServiceLayer): Router {
+  const router = Router();
+
+  /**
+   * GET /api/schedules
+   * List recurring work schedules
+   *
+   * Query parameters:
+   * - projectId: Project ID (defaults to the default project)
+   */
+  router.get('/', async (req, res, next) => {
+    try {
+      const { projectId } = req.query;
+
+      const filter: { projectId?: string } = {};
+      if (projectId && typeof projectId === 'string') {
+        filter.projectId = projectId;
+      }
+
+      const schedules = await service.listSchedules(filter);
+
+      res.json({
+        schedules,
+        count: schedules.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/schedules
+   * Create a recurring work schedule
+   */
+  router.post('/', async (req, res, next) => {
+    try {
+      const request = req.body as ScheduleCreateRequest & { projectId?: string };
+
+      if (!request.name) {
+        throw new APIError(400, 'name is required');
+      }
+      if (!request.cron) {
+        throw new APIError(400, 'cron is required');
+      }
+      if (!request.template) {
+        throw new APIError(400, 'template is required');
+      }
+      validateScheduleFields(request, await getAgentTypeNames(service, request.projectId));
+
+      const schedule = await service.createSchedule(request);
+
+      res.status(201).json(schedule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/schedules/:id
+   * Get a schedule
+   */
+  router.get('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Schedule ID is required');
+      }
+
+      const schedule = await service.getSchedule(id);
+
+      if (!schedule) {
+        throw new APIError(404, `Schedule ${id} not found`);
+      }
+
+      res.json(schedule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PUT /api/schedules/:id
+   * Update a schedule's name, cron expression, timezone, template or enabled flag
+   */
+  router.put('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const updates = req.body as ScheduleUpdateRequest;
+
+      if (!id) {
+        throw new APIError(400, 'Schedule ID is required');
+      }
+
+      // Verify schedule exists
+      const existing = await service.getSchedule(id);
+      if (!existing) {
+        throw new APIError(404, `Schedule ${id} not found`);
+      }
+
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      validateScheduleFields(updates, await getAgentTypeNames(service, projectId));
+
+      const schedule = await service.updateSchedule(id, updates);
+
+      res.json(schedule);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * DELETE /api/schedules/:id
+   * Remove a schedule
+   */
+  router.delete('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Schedule ID is required');
+      }
+
+      // Verify schedule exists
+      const existing = await service.getSchedule(id);
+      if (!existing) {
+        throw new APIError(404, `Schedule ${id} not found`);
+      }
+
+      await service.removeSchedule(id);
+
+      res.json({
+        success: true,
+        message: `Schedule ${id} removed`,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
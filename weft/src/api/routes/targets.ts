@@ -2,12 +2,16 @@ import { Router } from 'express';
 import type { TargetRegisterRequest } from '@loom/shared';
 import type { CoordinatorServiceLayer } from '../server.js';
 import { APIError } from '../middleware/error.js';
+import { getAgentTypeNames, validateAgentTypeField } from './agent-types.js';
 
 /**
  * Validates target registration request
+ *
+ * @param agentTypes Names of the agent types the project knows
  */
 function validateTargetRegisterRequest(
   request: Partial<TargetRegisterRequest>,
+  agentTypes: string[],
 ): void {
   if (!request.name) {
     throw new APIError(400, 'name is required');
@@ -15,13 +19,8 @@ function validateTargetRegisterRequest(
   if (!request.agentType) {
     throw new APIError(400, 'agentType is required');
   }
-  if (!['copilot-cli', 'claude-code'].includes(request.agentType)) {
-    throw new APIError(
-      400,
-      `Invalid agentType: ${request.agentType}. Must be copilot-cli or claude-code`,
-    );
-  }
-  if (!request.capabilities || !Array.isArray(request.capabilities)) {
+  validateAgentTypeField(request.agentType, agentTypes, 'agentType');
+  if (!Array.isArray(request.capabilities)) {
     throw new APIError(400, 'capabilities must be a non-empty array');
   }
   if (request.capabilities.length === 0) {
@@ -145,14 +144,20 @@ export function createTargetsRouter(service: CoordinatorServiceLayer): Router {
    * POST /api/targets
    * Register new target
    *
-   * Body: TargetRegisterRequest
+   * Body: TargetRegisterRequest (capabilities default to the agent type's)
    */
   router.post('/', async (req, res, next) => {
     try {
-      const request = req.body as Partial<TargetRegisterRequest>;
+      const request = req.body as Partial<TargetRegisterRequest> & { projectId?: string };
+
+      // Targets without capabilities get their agent type's defaults
+      if (request.capabilities === undefined && typeof request.agentType === 'string') {
+        const agentType = await service.getAgentType(request.agentType, request.projectId);
+        request.capabilities = agentType?.defaultCapabilities;
+      }
 
       // Validate request
-      validateTargetRegisterRequest(request);
+      validateTargetRegisterRequest(request, await getAgentTypeNames(service, request.projectId));
 
       const target = await service.registerTarget(request);
 
@@ -183,6 +188,10 @@ export function createTargetsRouter(service: CoordinatorServiceLayer): Router {
         throw new APIError(404, `Target with ID or name ${id} not found`);
       }
 
+      if (updates.agentType !== undefined) {
+        validateAgentTypeField(updates.agentType, await getAgentTypeNames(service, updates.projectId), 'agentType');
+      }
+
       // Validate boundaries if being updated (user-defined, just check array format)
       if (updates.boundaries) {
         if (!Array.isArray(updates.boundaries)) {
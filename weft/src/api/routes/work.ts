@@ -1,7 +1,28 @@
-import { Router } from 'express';
-import type { WorkSubmitRequest } from '@loom/shared';
+import express, { Router } from 'express';
+import type {
+  CoordinatedWorkItem,
+  WorkSubmitRequest,
+  WorkSubmitResponse,
+  WorkBatchSubmitRequest,
+  WorkUpdateRequest,
+  WorkItemStatus,
+  WorkQuery,
+  WorkSortField,
+  AgentType,
+  Priority,
+} from '@loom/shared';
 import type { CoordinatorServiceLayer } from '../server.js';
 import { APIError } from '../middleware/error.js';
+import { getAgentTypeNames, validateAgentTypeField } from './agent-types.js';
+import {
+  MAX_BATCH_SIZE,
+  MAX_WORK_PAGE_SIZE,
+  WORK_SORT_FIELDS,
+  isValidArtifactName,
+  isValidWorkCursor,
+  WorkRejectedError,
+} from '../../coordinator/index.js';
+import { validateCapabilityRequirements } from '../../routing/index.js';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -23,6 +44,287 @@ function isValidPriority(priority: unknown): boolean {
   );
 }
 
+/**
+ * Validates retry settings (all fields optional)
+ */
+function validateRetryPolicy(retry: unknown): void {
+  if (typeof retry !== 'object' || retry === null || Array.isArray(retry)) {
+    throw new APIError(400, 'retry must be an object');
+  }
+
+  const policy = retry as Record<string, unknown>;
+  if (
+    policy.maxAttempts !== undefined &&
+    (typeof policy.maxAttempts !== 'number' || !Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1)
+  ) {
+    throw new APIError(400, 'retry.maxAttempts must be a positive integer');
+  }
+  for (const field of ['initialDelayMs', 'maxDelayMs'] as const) {
+    if (policy[field] !== undefined && (typeof policy[field] !== 'number' || (policy[field] as number) < 0)) {
+      throw new APIError(400, `retry.${field} must be a non-negative number`);
+    }
+  }
+  if (
+    policy.backoffMultiplier !== undefined &&
+    (typeof policy.backoffMultiplier !== 'number' || policy.backoffMultiplier < 1)
+  ) {
+    throw new APIError(400, 'retry.backoffMultiplier must be a number >= 1');
+  }
+  if (
+    policy.jitter !== undefined &&
+    (typeof policy.jitter !== 'number' || policy.jitter < 0 || policy.jitter > 1)
+  ) {
+    throw new APIError(400, 'retry.jitter must be a number between 0 and 1');
+  }
+}
+
+/**
+ * Validates dependency settings
+ */
+function validateDependencies(request: Partial<WorkSubmitRequest>): void {
+  if (request.dependsOn !== undefined) {
+    if (!Array.isArray(request.dependsOn)) {
+      throw new APIError(400, 'dependsOn must be an array of work item IDs');
+    }
+    for (const dependencyId of request.dependsOn) {
+      if (typeof dependencyId !== 'string' || dependencyId.trim().length === 0) {
+        throw new APIError(400, 'Each dependsOn entry must be a non-empty string');
+      }
+    }
+  }
+  if (
+    request.dependencyFailurePolicy !== undefined &&
+    !['cancel', 'fail', 'ignore'].includes(request.dependencyFailurePolicy)
+  ) {
+    throw new APIError(
+      400,
+      `Invalid dependencyFailurePolicy: ${request.dependencyFailurePolicy}. Must be cancel, fail or ignore`,
+    );
+  }
+}
+
+/**
+ * Validates a work submission (or schedule template)
+ *
+ * @param agentTypes Names of the agent types the project knows
+ */
+export function validateWorkSubmitRequest(request: Partial<WorkSubmitRequest>, agentTypes: string[]): void {
+  // Validate required fields
+  if (!request.boundary) {
+    throw new APIError(400, 'classification is required');
+  }
+  if (!request.capability) {
+    throw new APIError(400, 'capability is required');
+  }
+  if (!request.description) {
+    throw new APIError(400, 'description is required');
+  }
+
+  // Validate capability requirements (wildcards and versions only beyond the primary capability)
+  try {
+    validateCapabilityRequirements(request);
+  } catch (err) {
+    throw new APIError(400, (err as Error).message);
+  }
+
+  // Validate boundary (user-defined)
+  if (!isValidBoundary(request.boundary)) {
+    throw new APIError(400, 'boundary must be a non-empty string');
+  }
+
+  // Validate priority if provided
+  if (request.priority !== undefined && !isValidPriority(request.priority)) {
+    throw new APIError(
+      400,
+      'priority must be an integer between 1 and 10',
+    );
+  }
+
+  // Validate start time if provided
+  if (request.notBefore !== undefined && isNaN(new Date(request.notBefore).getTime())) {
+    throw new APIError(400, 'notBefore must be an ISO 8601 timestamp');
+  }
+
+  // Validate deadline if provided (an unparsable one would never escalate or expire)
+  if (
+    request.deadline !== undefined &&
+    (typeof request.deadline !== 'string' || isNaN(new Date(request.deadline).getTime()))
+  ) {
+    throw new APIError(400, 'deadline must be an ISO 8601 timestamp');
+  }
+
+  // Validate retry settings if provided
+  if (request.retry !== undefined) {
+    validateRetryPolicy(request.retry);
+  }
+
+  // Validate dependency settings if provided
+  validateDependencies(request);
+
+  // Validate idempotency key if provided
+  if (request.idempotencyKey !== undefined && (typeof request.idempotencyKey !== 'string' || !request.idempotencyKey)) {
+    throw new APIError(400, 'idempotencyKey must be a non-empty string');
+  }
+
+  // Validate submitter if provided
+  if (request.submittedBy !== undefined && (typeof request.submittedBy !== 'string' || !request.submittedBy.trim())) {
+    throw new APIError(400, 'submittedBy must be a non-empty string');
+  }
+
+  // Validate agent types if provided
+  if (request.preferredAgentType) {
+    validateAgentTypeField(request.preferredAgentType, agentTypes, 'preferredAgentType');
+  }
+  if (request.requiredAgentType) {
+    validateAgentTypeField(request.requiredAgentType, agentTypes, 'requiredAgentType');
+  }
+}
+
+/** Largest artifact accepted over REST */
+const ARTIFACT_UPLOAD_LIMIT = '64mb';
+
+/** Reads an artifact upload's raw body, whatever its content type */
+const artifactBody = express.raw({ type: () => true, limit: ARTIFACT_UPLOAD_LIMIT });
+
+/**
+ * Validates a work update request (also used for `coord.{projectId}.work.update`)
+ */
+export function validateWorkUpdateRequest(request: WorkUpdateRequest): void {
+  const allowed = ['priority', 'deadline', 'contextData'];
+  const unknown = Object.keys(request).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new APIError(400, `Only priority, deadline and contextData can be updated (got ${unknown.join(', ')})`);
+  }
+  if (Object.keys(request).length === 0) {
+    throw new APIError(400, 'At least one of priority, deadline or contextData is required');
+  }
+
+  if (request.priority !== undefined && !isValidPriority(request.priority)) {
+    throw new APIError(400, 'priority must be an integer between 1 and 10');
+  }
+
+  if (
+    request.deadline !== undefined &&
+    request.deadline !== null &&
+    (typeof request.deadline !== 'string' || isNaN(new Date(request.deadline).getTime()))
+  ) {
+    throw new APIError(400, 'deadline must be an ISO 8601 timestamp or null');
+  }
+
+  if (
+    request.contextData !== undefined &&
+    (request.contextData === null || typeof request.contextData !== 'object' || Array.isArray(request.contextData))
+  ) {
+    throw new APIError(400, 'contextData must be an object');
+  }
+}
+
+const WORK_STATUSES: WorkItemStatus[] = [
+  'blocked',
+  'pending',
+  'paused',
+  'assigned',
+  'in-progress',
+  'completed',
+  'failed',
+  'cancelled',
+  'expired',
+];
+
+/**
+ * Parses and validates work listing query parameters
+ */
+function parseWorkQuery(params: Record<string, unknown>, agentTypes: string[]): WorkQuery & { projectId?: string } {
+  const query: WorkQuery & { projectId?: string } = {};
+  const text = (name: string): string | undefined => {
+    const value = params[name];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  };
+
+  const status = text('status');
+  if (status) {
+    if (!WORK_STATUSES.includes(status as WorkItemStatus)) {
+      throw new APIError(400, `Invalid status: ${status}. Must be one of ${WORK_STATUSES.join(', ')}`);
+    }
+    query.status = status as WorkItemStatus;
+  }
+
+  // `classification` is the older name for the boundary filter
+  const boundary = text('boundary') ?? text('classification');
+  if (boundary) {
+    query.boundary = boundary;
+  }
+
+  for (const field of ['projectId', 'capability', 'batchId', 'taskId', 'assignedTo'] as const) {
+    const value = text(field);
+    if (value) {
+      query[field] = value;
+    }
+  }
+
+  const agentType = text('agentType');
+  if (agentType) {
+    validateAgentTypeField(agentType, agentTypes, 'agentType');
+    query.agentType = agentType as AgentType;
+  }
+
+  for (const field of ['minPriority', 'maxPriority'] as const) {
+    const value = text(field);
+    if (value) {
+      const priority = Number(value);
+      if (!isValidPriority(priority)) {
+        throw new APIError(400, `${field} must be an integer between 1 and 10`);
+      }
+      query[field] = priority as Priority;
+    }
+  }
+
+  for (const field of ['submittedAfter', 'submittedBefore', 'completedAfter', 'completedBefore'] as const) {
+    const value = text(field);
+    if (value) {
+      if (isNaN(new Date(value).getTime())) {
+        throw new APIError(400, `${field} must be an ISO 8601 timestamp`);
+      }
+      query[field] = value;
+    }
+  }
+
+  const sortBy = text('sortBy');
+  if (sortBy) {
+    if (!WORK_SORT_FIELDS.includes(sortBy as WorkSortField)) {
+      throw new APIError(400, `Invalid sortBy: ${sortBy}. Must be one of ${WORK_SORT_FIELDS.join(', ')}`);
+    }
+    query.sortBy = sortBy as WorkSortField;
+  }
+
+  const sortOrder = text('sortOrder');
+  if (sortOrder) {
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      throw new APIError(400, `Invalid sortOrder: ${sortOrder}. Must be asc or desc`);
+    }
+    query.sortOrder = sortOrder;
+  }
+
+  const limit = text('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_WORK_PAGE_SIZE) {
+      throw new APIError(400, `limit must be an integer between 1 and ${MAX_WORK_PAGE_SIZE}`);
+    }
+    query.limit = value;
+  }
+
+  const cursor = text('cursor');
+  if (cursor) {
+    if (!isValidWorkCursor(cursor, query)) {
+      throw new APIError(400, 'cursor is invalid or was issued for a different sort order');
+    }
+    query.cursor = cursor;
+  }
+
+  return query;
+}
+
 /**
  * Creates the work router
  */
@@ -31,34 +333,30 @@ export function createWorkRouter(service: CoordinatorServiceLayer): Router {
 
   /**
    * GET /api/work
-   * List pending/active work items
+   * List work items, one page at a time
    *
    * Query parameters:
-   * - status: Filter by status (pending, assigned, in-progress, completed, failed, cancelled)
-   * - boundary: Filter by classification
+   * - status: Filter by status (blocked, pending, paused, assigned, in-progress, completed, failed, cancelled, expired)
+   * - boundary: Filter by boundary (`classification` is accepted as an alias)
+   * - capability, batchId, taskId, assignedTo: Filter by exact value
+   * - agentType: Filter by the agent type chosen by routing
+   * - minPriority, maxPriority: Filter by effective priority (inclusive)
+   * - submittedAfter, submittedBefore: Filter by submission time (ISO 8601)
+   * - completedAfter, completedBefore: Filter by when the item finished (ISO 8601)
+   * - sortBy: priority (default), submittedAt or completedAt
+   * - sortOrder: desc (default) or asc
+   * - limit: Page size (default 100, max 500)
+   * - cursor: nextCursor from the previous page
+   * - projectId: Project ID (defaults to the default project)
    */
   router.get('/', async (req, res, next) => {
     try {
-      const { status, classification } = req.query;
-
-      const filter: {
-        status?: string;
-        boundary?: string;
-      } = {};
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      const query = parseWorkQuery(req.query, await getAgentTypeNames(service, projectId));
 
-      if (status && typeof status === 'string') {
-        filter.status = status;
-      }
-      if (classification && typeof classification === 'string') {
-        filter.boundary = classification;
-      }
-
-      const workItems = await service.listWork(filter);
+      const page = await service.listWork(query);
 
-      res.json({
-        workItems,
-        count: workItems.length,
-      });
+      res.json(page);
     } catch (err) {
       next(err);
     }
@@ -69,59 +367,91 @@ export function createWorkRouter(service: CoordinatorServiceLayer): Router {
    * Submit new work item
    *
    * Body: WorkSubmitRequest
+   *
+   * Headers:
+   * - Idempotency-Key: Key identifying retries of this submission (overrides body idempotencyKey)
+   *
+   * Responds 201 for new work and 200 with the original response for duplicates.
+   * Responds 422 when a routing rule rejects the work.
    */
   router.post('/', async (req, res, next) => {
     try {
-      const request = req.body as Partial<WorkSubmitRequest>;
+      const request = req.body as Partial<WorkSubmitRequest> & { projectId?: string };
+
+      const idempotencyKey = req.get('Idempotency-Key');
+      if (idempotencyKey) {
+        request.idempotencyKey = idempotencyKey;
+      }
 
       // Auto-generate taskId if not provided
       if (!request.taskId) {
         request.taskId = uuidv4();
       }
 
-      // Validate required fields
-      if (!request.boundary) {
-        throw new APIError(400, 'classification is required');
+      validateWorkSubmitRequest(request, await getAgentTypeNames(service, request.projectId));
+
+      // Dependencies must refer to existing work items
+      for (const dependencyId of request.dependsOn ?? []) {
+        if (!(await service.getWorkItem(dependencyId))) {
+          throw new APIError(400, `Unknown dependency: ${dependencyId}`);
+        }
       }
-      if (!request.capability) {
-        throw new APIError(400, 'capability is required');
+
+      const result = (await service.submitWork(request)) as WorkSubmitResponse;
+
+      res.status(result.duplicate ? 200 : 201).json(result);
+    } catch (err) {
+      next(err instanceof WorkRejectedError ? new APIError(422, err.message, { ruleId: err.ruleId }) : err);
+    }
+  });
+
+  /**
+   * POST /api/work/batch
+   * Submit several work items at once
+   *
+   * Body: WorkBatchSubmitRequest
+   *
+   * Every item is validated before any is submitted; a 400 response lists
+   * each invalid item in `details`.
+   */
+  router.post('/batch', async (req, res, next) => {
+    try {
+      const request = req.body as Partial<WorkBatchSubmitRequest> & { projectId?: string };
+
+      if (!Array.isArray(request.items) || request.items.length === 0) {
+        throw new APIError(400, 'items must be a non-empty array');
       }
-      if (!request.description) {
-        throw new APIError(400, 'description is required');
+      if (request.items.length > MAX_BATCH_SIZE) {
+        throw new APIError(400, `items cannot contain more than ${MAX_BATCH_SIZE} submissions`);
       }
 
-      // Validate boundary (user-defined)
-      if (!isValidBoundary(request.boundary)) {
-        throw new APIError(400, 'boundary must be a non-empty string');
-      }
+      const agentTypes = await getAgentTypeNames(service, request.projectId);
+      const errors: { index: number; error: string }[] = [];
+      for (const [index, item] of request.items.entries()) {
+        // Auto-generate taskId if not provided
+        if (!item.taskId) {
+          item.taskId = uuidv4();
+        }
 
-      // Validate priority if provided
-      if (request.priority !== undefined && !isValidPriority(request.priority)) {
-        throw new APIError(
-          400,
-          'priority must be an integer between 1 and 10',
-        );
-      }
+        try {
+          validateWorkSubmitRequest(item, agentTypes);
 
-      // Validate agent types if provided
-      if (request.preferredAgentType) {
-        if (!['copilot-cli', 'claude-code'].includes(request.preferredAgentType)) {
-          throw new APIError(
-            400,
-            `Invalid preferredAgentType: ${request.preferredAgentType}. Must be copilot-cli or claude-code`,
-          );
+          // Dependencies must refer to existing work items
+          for (const dependencyId of item.dependsOn ?? []) {
+            if (!(await service.getWorkItem(dependencyId))) {
+              throw new APIError(400, `Unknown dependency: ${dependencyId}`);
+            }
+          }
+        } catch (err) {
+          errors.push({ index, error: (err as Error).message });
         }
       }
-      if (request.requiredAgentType) {
-        if (!['copilot-cli', 'claude-code'].includes(request.requiredAgentType)) {
-          throw new APIError(
-            400,
-            `Invalid requiredAgentType: ${request.requiredAgentType}. Must be copilot-cli or claude-code`,
-          );
-        }
+
+      if (errors.length > 0) {
+        throw new APIError(400, `${errors.length} of ${request.items.length} items are invalid`, errors);
       }
 
-      const result = await service.submitWork(request);
+      const result = await service.submitWorkBatch(request);
 
       res.status(201).json(result);
     } catch (err) {
@@ -129,6 +459,57 @@ export function createWorkRouter(service: CoordinatorServiceLayer): Router {
     }
   });
 
+  /**
+   * GET /api/work/batch/:batchId
+   * Get counts by status for a batch
+   */
+  router.get('/batch/:batchId', async (req, res, next) => {
+    try {
+      const { batchId } = req.params;
+
+      if (!batchId) {
+        throw new APIError(400, 'Batch ID is required');
+      }
+
+      const status = await service.getWorkBatch(batchId);
+
+      if (!status) {
+        throw new APIError(404, `Batch ${batchId} not found`);
+      }
+
+      res.json(status);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/work/batch/:batchId/cancel
+   * Cancel every open work item in a batch
+   */
+  router.post('/batch/:batchId/cancel', async (req, res, next) => {
+    try {
+      const { batchId } = req.params;
+
+      if (!batchId) {
+        throw new APIError(400, 'Batch ID is required');
+      }
+
+      const result = await service.cancelWorkBatch(batchId);
+
+      if (!result) {
+        throw new APIError(404, `Batch ${batchId} not found`);
+      }
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   /**
    * GET /api/work/:id
    * Get work item status
@@ -153,6 +534,256 @@ export function createWorkRouter(service: CoordinatorServiceLayer): Router {
     }
   });
 
+  /**
+   * GET /api/work/:id/graph
+   * Get the dependency graph connected to a work item
+   */
+  router.get('/:id/graph', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      const graph = await service.getWorkGraph(id);
+
+      if (!graph) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      res.json(graph);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/work/:id/history
+   * Get the status timeline of a work item
+   */
+  router.get('/:id/history', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      const history = await service.getWorkHistory(id);
+
+      if (!history) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      res.json(history);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/work/:id/artifacts
+   * List artifacts stored for a work item
+   */
+  router.get('/:id/artifacts', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      const artifacts = await service.listArtifacts(id);
+
+      if (!artifacts) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      res.json({
+        artifacts,
+        count: artifacts.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * GET /api/work/:id/artifacts/:name
+   * Download an artifact
+   */
+  router.get('/:id/artifacts/:name', async (req, res, next) => {
+    try {
+      const { id, name } = req.params;
+
+      if (!id || !name) {
+        throw new APIError(400, 'Work item ID and artifact name are required');
+      }
+
+      const artifact = await service.getArtifact(id, name);
+
+      if (!artifact) {
+        throw new APIError(404, `Artifact ${name} for work item ${id} not found`);
+      }
+
+      res.type(artifact.contentType);
+      res.attachment(name);
+      res.send(Buffer.from(artifact.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * PUT /api/work/:id/artifacts/:name
+   * Upload an artifact (raw request body, replaces an artifact with the same name)
+   *
+   * Headers:
+   * - X-Agent-Guid: Agent the work item is assigned to (required)
+   * - Content-Type: Stored with the artifact and used for downloads
+   */
+  router.put(
+    '/:id/artifacts/:name',
+    (req, res, next) => {
+      artifactBody(req, res, err => {
+        next(
+          err?.type === 'entity.too.large'
+            ? new APIError(413, `Artifacts can't be larger than ${ARTIFACT_UPLOAD_LIMIT}`)
+            : err,
+        );
+      });
+    },
+    async (req, res, next) => {
+      try {
+        const { id, name } = req.params;
+        const agentGuid = req.get('X-Agent-Guid');
+
+        if (!id || !name) {
+          throw new APIError(400, 'Work item ID and artifact name are required');
+        }
+        if (!isValidArtifactName(name)) {
+          throw new APIError(
+            400,
+            'Artifact names must start with a letter or digit and contain only letters, digits, dots, underscores and hyphens',
+          );
+        }
+        if (!agentGuid) {
+          throw new APIError(400, 'X-Agent-Guid header is required');
+        }
+
+        const workItem = (await service.getWorkItem(id)) as CoordinatedWorkItem | null;
+        if (!workItem) {
+          throw new APIError(404, `Work item with ID ${id} not found`);
+        }
+        if (workItem.assignedTo !== agentGuid) {
+          throw new APIError(403, `Work item is not assigned to agent ${agentGuid}`);
+        }
+
+        const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const artifact = await service.uploadArtifact(id, name, data, req.get('Content-Type'));
+
+        res.status(201).json(artifact);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  /**
+   * PATCH /api/work/:id
+   * Change the priority, deadline or context data of blocked, pending or paused work
+   */
+  router.patch('/:id', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const updates = (req.body ?? {}) as WorkUpdateRequest;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      // Verify work item exists
+      const existing = await service.getWorkItem(id) as CoordinatedWorkItem | null;
+      if (!existing) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      validateWorkUpdateRequest(updates);
+
+      const workItem = await service.updateWorkItem(id, updates);
+      if (!workItem) {
+        throw new APIError(409, `Work item ${id} is ${existing.status}; only blocked, pending or paused work can be updated`);
+      }
+
+      res.json(workItem);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/work/:id/pause
+   * Hold pending work so it isn't dispatched until resumed
+   */
+  router.post('/:id/pause', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      const { reason } = (req.body ?? {}) as { reason?: string };
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+      if (reason !== undefined && typeof reason !== 'string') {
+        throw new APIError(400, 'reason must be a string');
+      }
+
+      // Verify work item exists
+      const existing = await service.getWorkItem(id) as CoordinatedWorkItem | null;
+      if (!existing) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      const workItem = await service.pauseWorkItem(id, reason);
+      if (!workItem) {
+        throw new APIError(409, `Work item ${id} is ${existing.status}; only pending work can be paused`);
+      }
+
+      res.json(workItem);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * POST /api/work/:id/resume
+   * Release paused work for dispatch
+   */
+  router.post('/:id/resume', async (req, res, next) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new APIError(400, 'Work item ID is required');
+      }
+
+      // Verify work item exists
+      const existing = await service.getWorkItem(id) as CoordinatedWorkItem | null;
+      if (!existing) {
+        throw new APIError(404, `Work item with ID ${id} not found`);
+      }
+
+      const workItem = await service.resumeWorkItem(id);
+      if (!workItem) {
+        throw new APIError(409, `Work item ${id} is ${existing.status}, not paused`);
+      }
+
+      res.json(workItem);
+    } catch (err) {
+      next(err);
+    }
+  });
+
   /**
    * POST /api/work/:id/cancel
    * Cancel work item
@@ -1,6 +1,14 @@
 import express, { type Express } from 'express';
 import cors from 'cors';
-import type { APIConfiguration } from '@loom/shared';
+import type {
+  AgentTypeDefinition,
+  APIConfiguration,
+  BoundaryConfig,
+  RoutingExplanation,
+  WorkQuery,
+  WorkQueryResult,
+} from '@loom/shared';
+import type { FairShareStats } from '../coordinator/index.js';
 import { createAuthMiddleware } from './middleware/auth.js';
 import { errorHandler, notFoundHandler } from './middleware/error.js';
 
@@ -10,6 +18,11 @@ import { createWorkRouter } from './routes/work.js';
 import { createStatsRouter } from './routes/stats.js';
 import { createTargetsRouter } from './routes/targets.js';
 import { createChannelsRouter } from './routes/channels.js';
+import { createDeadLetterRouter } from './routes/dead-letter.js';
+import { createSchedulesRouter } from './routes/schedules.js';
+import { createRoutingRouter } from './routes/routing.js';
+import { createAgentTypesRouter } from './routes/agent-types.js';
+import { createBoundariesRouter } from './routes/boundaries.js';
 
 /**
  * Service layer interface
@@ -29,18 +42,96 @@ export interface CoordinatorServiceLayer {
 
   requestAgentShutdown(guid: string, graceful: boolean): Promise<void>;
 
+  // Agent type operations
+  listAgentTypes(filter?: { projectId?: string }): Promise<AgentTypeDefinition[]>;
+
+  getAgentType(name: string, projectId?: string): Promise<AgentTypeDefinition | null>;
+
+  createAgentType(request: unknown): Promise<AgentTypeDefinition>;
+
+  updateAgentType(name: string, updates: unknown, projectId?: string): Promise<AgentTypeDefinition>;
+
+  removeAgentType(name: string, projectId?: string): Promise<void>;
+
+  // Boundary configuration operations
+  listBoundaryConfigs(filter?: { projectId?: string }): Promise<BoundaryConfig[]>;
+
+  getBoundaryConfig(name: string, projectId?: string): Promise<BoundaryConfig | null>;
+
+  createBoundaryConfig(request: unknown): Promise<BoundaryConfig>;
+
+  updateBoundaryConfig(name: string, updates: unknown, projectId?: string): Promise<BoundaryConfig>;
+
+  /** @returns false if the boundary only has a configuration from the coordinator's settings */
+  removeBoundaryConfig(name: string, projectId?: string): Promise<boolean>;
+
   // Work operations
-  listWork(filter?: {
-    status?: string;
-    boundary?: string;
-  }): Promise<unknown[]>;
+  listWork(query?: WorkQuery & { projectId?: string }): Promise<WorkQueryResult>;
 
   submitWork(request: unknown): Promise<unknown>;
 
+  submitWorkBatch(request: unknown): Promise<unknown>;
+
+  getWorkBatch(batchId: string): Promise<unknown | null>;
+
+  cancelWorkBatch(batchId: string): Promise<unknown | null>;
+
   getWorkItem(id: string): Promise<unknown | null>;
 
+  getWorkGraph(id: string): Promise<unknown | null>;
+
+  getWorkHistory(id: string): Promise<unknown | null>;
+
+  listArtifacts(id: string): Promise<unknown[] | null>;
+
+  getArtifact(id: string, name: string): Promise<{ contentType: string; data: Uint8Array } | null>;
+
+  uploadArtifact(id: string, name: string, data: Uint8Array, contentType?: string): Promise<unknown>;
+
   cancelWorkItem(id: string): Promise<void>;
 
+  updateWorkItem(id: string, updates: unknown): Promise<unknown | null>;
+
+  pauseWorkItem(id: string, reason?: string): Promise<unknown | null>;
+
+  resumeWorkItem(id: string): Promise<unknown | null>;
+
+  // Dead-letter queue operations
+  listDeadLetters(filter?: { projectId?: string }): Promise<unknown[]>;
+
+  getDeadLetter(workItemId: string): Promise<unknown | null>;
+
+  replayDeadLetter(workItemId: string): Promise<unknown | null>;
+
+  removeDeadLetter(workItemId: string): Promise<void>;
+
+  purgeDeadLetters(filter?: { projectId?: string }): Promise<{ purged: number }>;
+
+  // Schedule operations
+  listSchedules(filter?: { projectId?: string }): Promise<unknown[]>;
+
+  getSchedule(id: string): Promise<unknown | null>;
+
+  createSchedule(request: unknown): Promise<unknown>;
+
+  updateSchedule(id: string, updates: unknown): Promise<unknown>;
+
+  removeSchedule(id: string): Promise<void>;
+
+  // Routing rule operations
+  listRoutingRules(filter?: { projectId?: string }): Promise<unknown[]>;
+
+  getRoutingRule(id: string): Promise<unknown | null>;
+
+  createRoutingRule(request: unknown): Promise<unknown>;
+
+  updateRoutingRule(id: string, updates: unknown): Promise<unknown>;
+
+  removeRoutingRule(id: string): Promise<void>;
+
+  /** Work out how a submission would be routed, without submitting it */
+  explainRouting(request: unknown): Promise<RoutingExplanation>;
+
   // Stats operations
   getStats(): Promise<{
     agents: {
@@ -49,11 +140,15 @@ export interface CoordinatorServiceLayer {
       byStatus: Record<string, number>;
     };
     work: {
+      blocked: number;
       pending: number;
+      paused: number;
       active: number;
       completed: number;
       failed: number;
+      expired: number;
     };
+    fairShare: FairShareStats;
     targets: {
       total: number;
       available: number;
@@ -105,8 +200,15 @@ export function createExpressApp(
 ): Express {
   const app = express();
 
-  // Basic middleware
-  app.use(express.json());
+  // Basic middleware (artifact uploads keep their raw body for the work router)
+  const jsonParser = express.json();
+  app.use((req, res, next) => {
+    if (req.method === 'PUT' && /^\/api\/work\/[^/]+\/artifacts\//.test(req.path)) {
+      next();
+      return;
+    }
+    jsonParser(req, res, next);
+  });
 
   // CORS configuration
   const corsOptions = config.corsOrigins
@@ -120,7 +222,12 @@ export function createExpressApp(
 
   // API routes
   app.use('/api/agents', createAgentsRouter(serviceLayer));
+  app.use('/api/agent-types', createAgentTypesRouter(serviceLayer));
+  app.use('/api/boundaries', createBoundariesRouter(serviceLayer));
   app.use('/api/work', createWorkRouter(serviceLayer));
+  app.use('/api/dlq', createDeadLetterRouter(serviceLayer));
+  app.use('/api/schedules', createSchedulesRouter(serviceLayer));
+  app.use('/api/routing', createRoutingRouter(serviceLayer));
   app.use('/api/stats', createStatsRouter(serviceLayer));
   app.use('/api/targets', createTargetsRouter(serviceLayer));
   app.use('/api/channels', createChannelsRouter(serviceLayer));
@@ -0,0 +1,6 @@
+/**
+ * Runtime configuration module
+ * Per-project settings stored in the loom-config KV bucket
+ */
+
+export { ConfigStore } from './store.js';
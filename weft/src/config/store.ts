@@ -0,0 +1,147 @@
+/**
+ * Configuration Store
+ *
+ * Stores per-project runtime configuration (schedules, and other settings
+ * managed through the API) in the `loom-config-{projectId}` NATS KV bucket.
+ * Keys are dot-separated, e.g. `schedules.{scheduleId}`.
+ */
+
+import type { NatsConnection, KV } from 'nats';
+import { KVBuckets } from '@loom/shared';
+
+/**
+ * KV-backed configuration store
+ */
+export class ConfigStore {
+  private kv: KV | null = null;
+
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {}
+
+  /**
+   * Initialize the store (create KV bucket if needed)
+   */
+  async initialize(): Promise<void> {
+    const js = this.nc.jetstream();
+    const bucketName = KVBuckets.config(this.projectId);
+
+    try {
+      this.kv = await js.views.kv(bucketName);
+    } catch {
+      // Bucket doesn't exist, create it
+      this.kv = await js.views.kv(bucketName, {
+        history: 5,
+        ttl: 0, // No TTL - configuration persists until explicitly removed
+      });
+    }
+  }
+
+  /**
+   * Get a value
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const kv = this.getKV();
+
+    const entry = await kv.get(key);
+    if (!entry?.value || entry.value.length === 0) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(entry.string()) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a value
+   */
+  async put<T>(key: string, value: T): Promise<void> {
+    const kv = this.getKV();
+    await kv.put(key, JSON.stringify(value));
+  }
+
+  /**
+   * Delete a value
+   */
+  async delete(key: string): Promise<void> {
+    const kv = this.getKV();
+    await kv.delete(key);
+  }
+
+  /**
+   * List all values under a key prefix (e.g. 'schedules')
+   */
+  async list<T>(prefix: string): Promise<T[]> {
+    const kv = this.getKV();
+
+    // Collect all keys first to ensure iterator is fully consumed
+    const keys: string[] = [];
+    const iter = await kv.keys(`${prefix}.>`);
+    for await (const key of iter) {
+      keys.push(key);
+    }
+
+    const values: T[] = [];
+    for (const key of keys) {
+      const value = await this.get<T>(key);
+      if (value !== null) {
+        values.push(value);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Watch the values under a key prefix, starting with the current ones
+   *
+   * Sees changes made by every Weft instance sharing the bucket.
+   *
+   * @param onChange Called with each changed key and its value (null once deleted)
+   * @returns Function that stops watching
+   */
+  async watch<T>(prefix: string, onChange: (key: string, value: T | null) => void): Promise<() => void> {
+    const kv = this.getKV();
+    const watcher = await kv.watch({ key: `${prefix}.>` });
+
+    (async () => {
+      for await (const entry of watcher) {
+        if (entry.operation !== 'PUT') {
+          onChange(entry.key, null);
+          continue;
+        }
+
+        let value: T;
+        try {
+          value = JSON.parse(entry.string()) as T;
+        } catch {
+          continue; // Skip invalid entries
+        }
+        onChange(entry.key, value);
+      }
+    })().catch(error => {
+      console.error(`Config watch on ${this.projectId}/${prefix} stopped:`, error);
+    });
+
+    return () => watcher.stop();
+  }
+
+  /**
+   * Close the store
+   */
+  async close(): Promise<void> {
+    // KV doesn't need explicit closing
+    this.kv = null;
+  }
+
+  private getKV(): KV {
+    if (!this.kv) {
+      throw new Error('ConfigStore not initialized');
+    }
+    return this.kv;
+  }
+}
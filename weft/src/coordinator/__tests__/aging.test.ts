@@ -0,0 +1,102 @@
+/**
+ * Priority Aging Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Priority } from '@loom/shared';
+import { BaseCoordinator } from '../base-coordinator.js';
+import { DeadlineSupervisor } from '../deadlines.js';
+
+const MINUTE = 60000;
+
+describe('BaseCoordinator priority aging', () => {
+  let coordinator: BaseCoordinator;
+
+  const submit = (priority: Priority, extra: { deadline?: string; notBefore?: string } = {}) =>
+    coordinator.submitWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      priority,
+      ...extra,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    coordinator = new BaseCoordinator({ aging: { intervalMs: 10 * MINUTE, maxPriority: 8 } });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should raise pending work one level per interval without changing its submitted priority', () => {
+    const id = submit(2);
+
+    vi.advanceTimersByTime(30 * MINUTE);
+
+    const workItem = coordinator.getWorkItem(id)!;
+    expect(workItem.priority).toBe(2);
+    expect(workItem.effectivePriority).toBe(5);
+  });
+
+  it('should stop at the maximum priority', () => {
+    const low = submit(1);
+    const high = submit(9);
+
+    vi.advanceTimersByTime(3 * 60 * MINUTE);
+
+    expect(coordinator.getWorkItem(low)?.effectivePriority).toBe(8);
+    expect(coordinator.getWorkItem(high)?.effectivePriority).toBeUndefined();
+  });
+
+  it('should order long-waiting work ahead of newer higher-priority work', () => {
+    const old = submit(1);
+    vi.advanceTimersByTime(60 * MINUTE);
+    const fresh = submit(5);
+
+    expect(coordinator.getPendingWork('typescript').map(w => w.id)).toEqual([old, fresh]);
+  });
+
+  it('should only age delayed work from its start time', () => {
+    const id = submit(1, { notBefore: new Date(Date.now() + 30 * MINUTE).toISOString() });
+
+    expect(coordinator.agedPriority(coordinator.getWorkItem(id)!, Date.now() + 40 * MINUTE)).toBe(2);
+  });
+
+  it('should not age work that is no longer pending', async () => {
+    const id = submit(1);
+    await coordinator.recordClaim(id, 'worker-1');
+
+    vi.advanceTimersByTime(60 * MINUTE);
+
+    expect(coordinator.getWorkItem(id)?.effectivePriority).toBeUndefined();
+  });
+
+  it('should not lower a priority escalated for a deadline', () => {
+    const id = submit(1, { deadline: new Date(Date.now() + 5 * MINUTE).toISOString() });
+    const supervisor = new DeadlineSupervisor(coordinator, {
+      checkIntervalMs: MINUTE,
+      escalationWindowMs: 60 * MINUTE,
+    });
+
+    supervisor.check();
+    expect(coordinator.applyAging()).toBe(0);
+    expect(coordinator.getWorkItem(id)?.effectivePriority).toBe(10);
+
+    supervisor.shutdown();
+  });
+
+  it('should not age work without a policy', () => {
+    coordinator.shutdown();
+    coordinator = new BaseCoordinator();
+    const id = submit(1);
+
+    vi.advanceTimersByTime(60 * MINUTE);
+
+    expect(coordinator.applyAging()).toBe(0);
+    expect(coordinator.getWorkItem(id)?.effectivePriority).toBeUndefined();
+  });
+});
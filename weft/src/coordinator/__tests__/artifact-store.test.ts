@@ -0,0 +1,109 @@
+/**
+ * Artifact Store Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { NatsConnection } from 'nats';
+import { ArtifactStore, isValidArtifactName } from '../artifact-store.js';
+
+interface StoredObject {
+  name: string;
+  data: Uint8Array;
+  deleted: boolean;
+}
+
+/**
+ * Connection whose JetStream object store keeps objects in memory
+ */
+function connection(): NatsConnection & { objects: Map<string, StoredObject> } {
+  const objects = new Map<string, StoredObject>();
+  const store = {
+    putBlob: async ({ name }: { name: string }, data: Uint8Array) => {
+      objects.set(name, { name, data, deleted: false });
+      return { name, size: data.length, digest: `SHA-256=${data.length}`, mtime: '2026-01-01T00:00:00.000Z' };
+    },
+    getBlob: async (name: string) => {
+      const object = objects.get(name);
+      return object && !object.deleted ? object.data : null;
+    },
+    list: async () => Array.from(objects.values()).map(({ name, deleted }) => ({ name, deleted })),
+    delete: async (name: string) => {
+      objects.set(name, { ...objects.get(name)!, deleted: true });
+    },
+  };
+  return {
+    objects,
+    jetstream: () => ({ views: { os: async () => store } }),
+  } as unknown as NatsConnection & { objects: Map<string, StoredObject> };
+}
+
+describe('isValidArtifactName', () => {
+  it('should accept letters, digits, dots, underscores and hyphens', () => {
+    expect(isValidArtifactName('patch.diff')).toBe(true);
+    expect(isValidArtifactName('build_log-2.txt')).toBe(true);
+    expect(isValidArtifactName('a'.repeat(255))).toBe(true);
+  });
+
+  it('should refuse paths, hidden names and overlong names', () => {
+    expect(isValidArtifactName('../secrets')).toBe(false);
+    expect(isValidArtifactName('nested/file.txt')).toBe(false);
+    expect(isValidArtifactName('.hidden')).toBe(false);
+    expect(isValidArtifactName('')).toBe(false);
+    expect(isValidArtifactName('a'.repeat(256))).toBe(false);
+  });
+});
+
+describe('ArtifactStore', () => {
+  let nc: ReturnType<typeof connection>;
+  let store: ArtifactStore;
+  const data = (text: string) => new TextEncoder().encode(text);
+
+  beforeEach(async () => {
+    nc = connection();
+    store = new ArtifactStore(nc, 'test');
+    await store.initialize();
+  });
+
+  it('should store artifacts under their work item with size and content type', async () => {
+    const artifact = await store.put('work-1', 'report.md', data('# Report'), 'text/markdown');
+
+    expect(artifact).toMatchObject({ name: 'report.md', size: 8, contentType: 'text/markdown' });
+    expect(nc.objects.has('work-1/report.md')).toBe(true);
+    expect(new TextDecoder().decode((await store.get('work-1', 'report.md'))!)).toBe('# Report');
+    expect((await store.put('work-1', 'blob', data(''))).contentType).toBe('application/octet-stream');
+  });
+
+  it('should refuse invalid names', async () => {
+    await expect(store.put('work-1', '../work-2/report.md', data('x'))).rejects.toThrow('Invalid artifact name');
+    expect(await store.get('work-1', '../work-2/report.md')).toBeNull();
+    expect(nc.objects.size).toBe(0);
+  });
+
+  it('should remove every artifact of a work item', async () => {
+    await store.put('work-1', 'a.txt', data('a'));
+    await store.put('work-1', 'b.txt', data('b'));
+    await store.put('work-2', 'a.txt', data('a'));
+
+    expect(await store.removeAll('work-1')).toBe(2);
+    expect(await store.get('work-1', 'a.txt')).toBeNull();
+    expect(await store.get('work-2', 'a.txt')).not.toBeNull();
+  });
+
+  it('should prune artifacts of work items that are no longer tracked', async () => {
+    await store.put('work-1', 'a.txt', data('a'));
+    await store.put('work-2', 'a.txt', data('a'));
+    await store.put('work-3', 'a.txt', data('a'));
+    await store.removeAll('work-3');
+
+    expect(await store.prune(new Set(['work-1']))).toBe(1);
+    expect(await store.get('work-1', 'a.txt')).not.toBeNull();
+    expect(await store.get('work-2', 'a.txt')).toBeNull();
+    expect(await store.prune(new Set(['work-1']))).toBe(0);
+  });
+
+  it('should refuse to work before initialize', async () => {
+    await expect(new ArtifactStore(nc, 'test').put('work-1', 'a.txt', data('a'))).rejects.toThrow(
+      'ArtifactStore not initialized'
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Base Coordinator Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { BaseCoordinator, type WorkItemPersistence } from '../base-coordinator.js';
+
+/**
+ * In-memory persistence that records what the coordinator writes
+ */
+class MemoryPersistence implements WorkItemPersistence {
+  items: Map<string, CoordinatedWorkItem> = new Map();
+
+  async save(workItem: CoordinatedWorkItem): Promise<void> {
+    // Store a snapshot, as a real store would serialize the item
+    this.items.set(workItem.id, JSON.parse(JSON.stringify(workItem)));
+  }
+
+  async remove(workItemId: string): Promise<void> {
+    this.items.delete(workItemId);
+  }
+
+  async loadAll(): Promise<CoordinatedWorkItem[]> {
+    return Array.from(this.items.values());
+  }
+}
+
+describe('BaseCoordinator', () => {
+  let coordinator: BaseCoordinator;
+  let persistence: MemoryPersistence;
+
+  beforeEach(() => {
+    persistence = new MemoryPersistence();
+    coordinator = new BaseCoordinator({ persistence });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  describe('persistence', () => {
+    it('should persist submitted work', async () => {
+      const id = coordinator.submitWork(
+        { taskId: 'task-1', description: 'Test', capability: 'typescript' },
+        { boundary: 'production' }
+      );
+      await coordinator.flush();
+
+      const stored = persistence.items.get(id);
+      expect(stored).toBeDefined();
+      expect(stored?.status).toBe('pending');
+      expect(stored?.boundary).toBe('production');
+    });
+
+    it('should persist state transitions', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await coordinator.recordClaim(id, 'agent-1');
+      coordinator.startWork(id);
+      coordinator.updateProgress(id, 50);
+      await coordinator.flush();
+
+      const stored = persistence.items.get(id);
+      expect(stored?.status).toBe('in-progress');
+      expect(stored?.assignedTo).toBe('agent-1');
+      expect(stored?.progress).toBe(50);
+
+      coordinator.recordCompletion(id, { ok: true }, 'Done');
+      await coordinator.flush();
+
+      expect(persistence.items.get(id)?.status).toBe('completed');
+    });
+
+    it('should restore work items on startup', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.flush();
+      coordinator.shutdown();
+
+      // Simulate a restart with the same persistence
+      coordinator = new BaseCoordinator({ persistence });
+      const restored = await coordinator.restore();
+
+      expect(restored).toBe(1);
+      expect(coordinator.getWorkItem(id)?.status).toBe('assigned');
+      expect(coordinator.getStats().active).toBe(1);
+    });
+
+    it('should persist items modified through saveWorkItem', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      const workItem = coordinator.getWorkItem(id)!;
+      workItem.contextData = { repo: 'loom' };
+      coordinator.saveWorkItem(workItem);
+      await coordinator.flush();
+
+      expect(persistence.items.get(id)?.contextData).toEqual({ repo: 'loom' });
+    });
+
+    it('should keep working when persistence fails', async () => {
+      persistence.save = async () => {
+        throw new Error('KV unavailable');
+      };
+
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await coordinator.flush();
+
+      expect(coordinator.getWorkItem(id)?.status).toBe('pending');
+    });
+
+    it('should restore nothing without persistence', async () => {
+      const inMemory = new BaseCoordinator();
+      expect(await inMemory.restore()).toBe(0);
+      inMemory.shutdown();
+    });
+  });
+
+  describe('retry', () => {
+    const request = { taskId: 'task-1', description: 'Test', capability: 'typescript' };
+
+    beforeEach(() => {
+      coordinator.shutdown();
+      coordinator = new BaseCoordinator({
+        persistence,
+        retryPolicy: {
+          maxAttempts: 2,
+          initialDelayMs: 1000,
+          backoffMultiplier: 2,
+          maxDelayMs: 10000,
+          jitter: 0,
+        },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should return recoverable failures to pending with a backoff', async () => {
+      const id = coordinator.submitWork(request);
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Network blip', true);
+
+      const workItem = coordinator.getWorkItem(id)!;
+      expect(workItem.status).toBe('pending');
+      expect(workItem.assignedTo).toBeUndefined();
+      expect(workItem.notBefore).toBeDefined();
+      expect(workItem.errorHistory).toHaveLength(1);
+    });
+
+    it('should reject claims until the backoff has elapsed', async () => {
+      vi.useFakeTimers();
+      const id = coordinator.submitWork(request);
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Network blip', true);
+
+      expect(await coordinator.recordClaim(id, 'agent-2')).toBe(false);
+
+      vi.advanceTimersByTime(1001);
+      expect(await coordinator.recordClaim(id, 'agent-2')).toBe(true);
+      expect(coordinator.getWorkItem(id)?.attempts).toBe(2);
+    });
+
+    it('should fail once attempts are exhausted', async () => {
+      vi.useFakeTimers();
+      const id = coordinator.submitWork(request);
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'First', true);
+      vi.advanceTimersByTime(1001);
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Second', true);
+
+      const workItem = coordinator.getWorkItem(id)!;
+      expect(workItem.status).toBe('failed');
+      expect(workItem.errorHistory?.map(e => e.message)).toEqual(['First', 'Second']);
+    });
+
+    it('should fail unrecoverable errors immediately', async () => {
+      const id = coordinator.submitWork(request);
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Bad input', false);
+
+      expect(coordinator.getWorkItem(id)?.status).toBe('failed');
+    });
+
+    it('should honor per-submission retry settings', async () => {
+      const id = coordinator.submitWork({ ...request, retry: { maxAttempts: 1 } });
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Network blip', true);
+
+      expect(coordinator.getWorkItem(id)?.status).toBe('failed');
+      expect(coordinator.getWorkItem(id)?.retryPolicy?.initialDelayMs).toBe(1000);
+    });
+  });
+
+  describe('resetWork', () => {
+    it('should return failed work to pending with attempts reset', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Bad input', false);
+
+      const workItem = coordinator.resetWork(coordinator.getWorkItem(id)!);
+
+      expect(workItem.status).toBe('pending');
+      expect(workItem.attempts).toBe(0);
+      expect(workItem.assignedTo).toBeUndefined();
+      expect(workItem.error).toBeUndefined();
+      expect(workItem.errorHistory).toHaveLength(1);
+      expect(await coordinator.recordClaim(id, 'agent-2')).toBe(true);
+    });
+
+    it('should re-create work that is no longer tracked', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await coordinator.recordClaim(id, 'agent-1');
+      await coordinator.recordError(id, 'Bad input', false);
+      const snapshot = JSON.parse(JSON.stringify(coordinator.getWorkItem(id))) as CoordinatedWorkItem;
+
+      const fresh = new BaseCoordinator({ persistence });
+      fresh.resetWork(snapshot);
+      await fresh.flush();
+
+      expect(fresh.getWorkItem(id)?.status).toBe('pending');
+      expect(persistence.items.get(id)?.attempts).toBe(0);
+      fresh.shutdown();
+    });
+  });
+
+  describe('artifacts', () => {
+    const artifact = (name: string, size: number) => ({
+      name,
+      size,
+      contentType: 'text/plain',
+      digest: 'SHA-256=abc',
+      uploadedAt: new Date().toISOString(),
+    });
+
+    it('should record artifacts, replacing ones with the same name', async () => {
+      const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+
+      coordinator.recordArtifact(id, artifact('build.log', 10));
+      coordinator.recordArtifact(id, artifact('fix.patch', 20));
+      coordinator.recordArtifact(id, artifact('build.log', 30));
+      await coordinator.flush();
+
+      expect(persistence.items.get(id)?.storedArtifacts?.map(a => [a.name, a.size])).toEqual([
+        ['fix.patch', 20],
+        ['build.log', 30],
+      ]);
+      expect(coordinator.recordArtifact('missing', artifact('build.log', 10))).toBe(false);
+    });
+
+    it('should report work dropped by cleanup so its artifacts can be removed', async () => {
+      vi.useFakeTimers();
+      const onRemove = vi.fn();
+      const cleaned = new BaseCoordinator({ staleThresholdMs: 1000, cleanupIntervalMs: 1000, onRemove });
+      const id = cleaned.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      await cleaned.recordClaim(id, 'agent-1');
+      cleaned.recordCompletion(id);
+
+      vi.advanceTimersByTime(4000);
+
+      expect(cleaned.getWorkItem(id)).toBeUndefined();
+      expect(onRemove).toHaveBeenCalledWith(expect.objectContaining({ id }));
+      cleaned.shutdown();
+      vi.useRealTimers();
+    });
+
+    it('should clean up cancelled work', async () => {
+      vi.useFakeTimers();
+      const onRemove = vi.fn();
+      const cleaned = new BaseCoordinator({ persistence, staleThresholdMs: 1000, cleanupIntervalMs: 1000, onRemove });
+      const id = cleaned.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+      cleaned.cancelWork(id);
+      await cleaned.flush();
+      expect(persistence.items.has(id)).toBe(true);
+
+      vi.advanceTimersByTime(4000);
+      await cleaned.flush();
+
+      expect(cleaned.getWorkItem(id)).toBeUndefined();
+      expect(persistence.items.has(id)).toBe(false);
+      expect(onRemove).toHaveBeenCalledWith(expect.objectContaining({ id }));
+      cleaned.shutdown();
+      vi.useRealTimers();
+    });
+  });
+});
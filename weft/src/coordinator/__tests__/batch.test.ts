@@ -0,0 +1,96 @@
+/**
+ * Batch Submission Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ExtendedCoordinator, MAX_BATCH_SIZE, type ClassifiedWorkRequest, type SpinUpTriggerEvent } from '../coordinator.js';
+
+describe('ExtendedCoordinator batches', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const request = (overrides: Partial<ClassifiedWorkRequest> = {}): ClassifiedWorkRequest => ({
+    taskId: 'task-1',
+    description: 'Test',
+    capability: 'typescript',
+    boundary: 'personal',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should submit every item with a shared batch ID', async () => {
+    const response = await coordinator.submitBatch([
+      request({ taskId: 'pkg-a' }),
+      request({ taskId: 'pkg-b' }),
+      request({ taskId: 'pkg-c' }),
+    ]);
+
+    expect(response.submitted).toBe(3);
+    expect(response.failed).toBe(0);
+    expect(response.results.map(r => r.taskId)).toEqual(['pkg-a', 'pkg-b', 'pkg-c']);
+    for (const { result } of response.results) {
+      expect(coordinator.getAssignment(result!.workItemId)?.batchId).toBe(response.batchId);
+    }
+  });
+
+  it('should trigger one spin-up per agent type, capability and boundary', async () => {
+    const spinUps: SpinUpTriggerEvent[] = [];
+    coordinator.on('spin-up-trigger', (event: SpinUpTriggerEvent) => {
+      if (event.workItemId) spinUps.push(event);
+    });
+
+    const response = await coordinator.submitBatch([
+      request({ taskId: 'pkg-a' }),
+      request({ taskId: 'pkg-b' }),
+      request({ taskId: 'docs', capability: 'markdown' }),
+    ]);
+
+    expect(spinUps.map(e => e.capability)).toEqual(['typescript', 'markdown']);
+    expect(response.results.map(r => r.result?.spinUpTriggered)).toEqual([true, false, true]);
+    expect(response.results[1]?.result?.estimatedWaitSeconds).toBe(30);
+  });
+
+  it('should reject the whole batch when any item is invalid', async () => {
+    await expect(coordinator.submitBatch([request(), request({ dependsOn: ['missing'] })]))
+      .rejects.toThrow('Item 1: Unknown dependency: missing');
+    await expect(coordinator.submitBatch([])).rejects.toThrow('at least one');
+    await expect(coordinator.submitBatch(Array.from({ length: MAX_BATCH_SIZE + 1 }, () => request())))
+      .rejects.toThrow(`exceeds ${MAX_BATCH_SIZE}`);
+
+    expect(coordinator.getAssignments()).toHaveLength(0);
+  });
+
+  it('should count batch items by status', async () => {
+    const { batchId, results } = await coordinator.submitBatch([request(), request(), request()]);
+    const [first, second] = results.map(r => r.result!.workItemId);
+    await coordinator.recordClaim(first!, 'agent-1');
+    coordinator.recordCompletion(first!);
+    coordinator.cancelWork(second!);
+
+    const status = coordinator.getBatchStatus(batchId);
+
+    expect(status?.total).toBe(3);
+    expect(status?.counts).toEqual({ completed: 1, cancelled: 1, pending: 1 });
+    expect(coordinator.getBatchStatus('missing')).toBeUndefined();
+  });
+
+  it('should cancel only the open items in a batch', async () => {
+    const { batchId, results } = await coordinator.submitBatch([request(), request()]);
+    const [done, open] = results.map(r => r.result!.workItemId);
+    await coordinator.recordClaim(done!, 'agent-1');
+    coordinator.recordCompletion(done!);
+
+    const cancelled = coordinator.cancelBatch(batchId, 'Batch cancelled');
+
+    expect(cancelled).toEqual([open]);
+    expect(coordinator.getAssignment(open!)?.statusReason).toBe('Batch cancelled');
+    expect(coordinator.getAssignment(done!)?.status).toBe('completed');
+    expect(coordinator.cancelBatch('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Dead-Letter Queue Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { NatsConnection } from 'nats';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { DeadLetterQueue, describeFailure } from '../dead-letter.js';
+import { ExtendedCoordinator } from '../coordinator.js';
+
+/**
+ * Connection whose JetStream keeps the latest message per subject in memory
+ */
+function connection(): NatsConnection & { messages: Map<string, string> } {
+  const messages = new Map<string, string>();
+  const streams = {
+    info: async () => ({ state: { subjects: Object.fromEntries(Array.from(messages.keys(), s => [s, 1])) } }),
+    add: async () => ({}),
+    getMessage: async (_stream: string, { last_by_subj }: { last_by_subj: string }) => {
+      const data = messages.get(last_by_subj);
+      if (data === undefined) {
+        throw new Error('no message found');
+      }
+      return { data: new TextEncoder().encode(data) };
+    },
+    purge: async (_stream: string, options?: { filter: string }) => {
+      const subjects = options ? [options.filter].filter(s => messages.has(s)) : Array.from(messages.keys());
+      subjects.forEach(s => messages.delete(s));
+      return { purged: subjects.length };
+    },
+  };
+  return {
+    messages,
+    jetstreamManager: async () => ({ streams }),
+    jetstream: () => ({
+      publish: async (subject: string, data: string) => {
+        messages.set(subject, data);
+      },
+    }),
+  } as unknown as NatsConnection & { messages: Map<string, string> };
+}
+
+describe('DeadLetterQueue', () => {
+  let nc: ReturnType<typeof connection>;
+  let queue: DeadLetterQueue;
+  let coordinator: ExtendedCoordinator;
+
+  const failed = async (recoverable: boolean) => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      retry: { maxAttempts: 1 },
+    });
+    await coordinator.recordClaim(workItemId, 'agent-1');
+    await coordinator.recordError(workItemId, 'Bad input', recoverable, 'E_INPUT');
+    return workItemId;
+  };
+
+  beforeEach(async () => {
+    nc = connection();
+    queue = new DeadLetterQueue(nc, 'test');
+    await queue.initialize();
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+
+    // Dead-letter terminal failures as the project context does
+    coordinator.on('work-failed', async (workItemId: string) => {
+      await queue.add(coordinator.getAssignment(workItemId)!);
+    });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should dead-letter unrecoverable failures with their error history', async () => {
+    const id = await failed(false);
+
+    const entry = await queue.get(id);
+    expect(entry?.reason).toBe('Unrecoverable error');
+    expect(entry?.workItem.status).toBe('failed');
+    expect(entry?.workItem.errorHistory).toMatchObject([{ message: 'Bad input', code: 'E_INPUT' }]);
+    expect(nc.messages.has(`loom.test.dlq.${id}`)).toBe(true);
+  });
+
+  it('should dead-letter recoverable failures once attempts are exhausted', async () => {
+    const id = await failed(true);
+
+    expect((await queue.get(id))?.reason).toBe('Retry attempts exhausted (1/1)');
+  });
+
+  it('should not dead-letter work that will be retried', async () => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      retry: { maxAttempts: 2 },
+    });
+    await coordinator.recordClaim(workItemId, 'agent-1');
+    await coordinator.recordError(workItemId, 'Network blip', true);
+
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('should replay an entry as a fresh pending item, even after a restart', async () => {
+    const id = await failed(false);
+    const entry = (await queue.get(id))!;
+
+    const restarted = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+    const ready: string[] = [];
+    restarted.on('work-ready', (workItemId: string) => ready.push(workItemId));
+
+    const workItem = restarted.replayWork(entry.workItem)!;
+    expect(workItem).toMatchObject({ id, status: 'pending', attempts: 0 });
+    expect(workItem.assignedTo).toBeUndefined();
+    expect(workItem.error).toBeUndefined();
+    expect(workItem.errorHistory).toHaveLength(1);
+    expect(ready).toEqual([id]);
+    expect(await restarted.recordClaim(id, 'agent-2')).toBe(true);
+    restarted.shutdown();
+  });
+
+  it('should not replay work that is no longer failed', async () => {
+    const id = await failed(false);
+    const entry = (await queue.get(id))!;
+
+    expect(coordinator.replayWork(entry.workItem)?.status).toBe('pending');
+    expect(coordinator.replayWork(entry.workItem)).toBeUndefined();
+  });
+
+  it('should list entries newest first, and remove or purge them', async () => {
+    const snapshot = (id: string) => ({ id, attempts: 1, error: { recoverable: false } }) as CoordinatedWorkItem;
+    await queue.add(snapshot('work-1'), 'First');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await queue.add(snapshot('work-2'));
+
+    expect((await queue.list()).map(entry => [entry.workItem.id, entry.reason])).toEqual([
+      ['work-2', 'Unrecoverable error'],
+      ['work-1', 'First'],
+    ]);
+
+    expect(await queue.remove('work-1')).toBe(true);
+    expect(await queue.remove('work-1')).toBe(false);
+    expect(await queue.get('work-1')).toBeNull();
+
+    await queue.add(snapshot('work-3'));
+    expect(await queue.purge()).toBe(2);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('should refuse to read before initialize', async () => {
+    await expect(new DeadLetterQueue(nc, 'test').list()).rejects.toThrow('DeadLetterQueue not initialized');
+  });
+});
+
+describe('describeFailure', () => {
+  it('should count attempts against the retry policy', () => {
+    const workItem = {
+      attempts: 2,
+      retryPolicy: { maxAttempts: 3 },
+      error: { recoverable: true },
+    } as CoordinatedWorkItem;
+
+    expect(describeFailure(workItem)).toBe('Retry attempts exhausted (2/3)');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Deadline Supervisor Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { BaseCoordinator } from '../base-coordinator.js';
+import { ExtendedCoordinator } from '../coordinator.js';
+import { DeadlineSupervisor, escalatePriority, type DeadlineEvent } from '../deadlines.js';
+
+const HOUR = 3600000;
+
+describe('escalatePriority', () => {
+  it('should keep the submitted priority outside the escalation window', () => {
+    expect(escalatePriority(3, 2 * HOUR, HOUR)).toBe(3);
+  });
+
+  it('should raise priority linearly within the window', () => {
+    expect(escalatePriority(2, HOUR / 2, HOUR)).toBe(6);
+  });
+
+  it('should reach maximum priority at the deadline', () => {
+    expect(escalatePriority(1, 0, HOUR)).toBe(10);
+    expect(escalatePriority(1, -1000, HOUR)).toBe(10);
+  });
+});
+
+describe('DeadlineSupervisor', () => {
+  let coordinator: BaseCoordinator;
+  let supervisor: DeadlineSupervisor;
+
+  const submit = (deadlineInMs: number, priority: 1 | 5 = 5) =>
+    coordinator.submitWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      priority,
+      deadline: new Date(Date.now() + deadlineInMs).toISOString(),
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    coordinator = new BaseCoordinator();
+    supervisor = new DeadlineSupervisor(coordinator, {
+      checkIntervalMs: 1000,
+      escalationWindowMs: HOUR,
+    });
+  });
+
+  afterEach(() => {
+    supervisor.shutdown();
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should escalate pending work without changing its submitted priority', () => {
+    const id = submit(HOUR / 2, 1);
+    const approaching: DeadlineEvent[] = [];
+    supervisor.on('approaching', (event) => approaching.push(event));
+
+    supervisor.check();
+    supervisor.check();
+
+    const workItem = coordinator.getWorkItem(id)!;
+    expect(workItem.priority).toBe(1);
+    expect(workItem.effectivePriority).toBe(6);
+    expect(approaching).toHaveLength(1);
+    expect(approaching[0]?.workItemId).toBe(id);
+  });
+
+  it('should order escalated work ahead of higher submitted priorities', () => {
+    const urgent = submit(HOUR / 10, 1);
+    const routine = submit(10 * HOUR, 5);
+
+    supervisor.check();
+
+    expect(coordinator.getPendingWork('typescript').map(w => w.id)).toEqual([urgent, routine]);
+  });
+
+  it('should expire pending work once its deadline passes', () => {
+    const id = submit(5000);
+    const expired: DeadlineEvent[] = [];
+    supervisor.on('expired', (event) => expired.push(event));
+    supervisor.start();
+
+    vi.advanceTimersByTime(6000);
+
+    const workItem = coordinator.getWorkItem(id)!;
+    expect(workItem.status).toBe('expired');
+    expect(workItem.statusReason).toContain('Deadline');
+    expect(expired).toHaveLength(1);
+    expect(coordinator.getStats().expired).toBe(1);
+  });
+
+  it('should report in-flight work that misses its deadline without expiring it', async () => {
+    const id = submit(5000);
+    await coordinator.recordClaim(id, 'agent-1');
+    const missed = vi.fn();
+    supervisor.on('missed', missed);
+    supervisor.start();
+
+    vi.advanceTimersByTime(10000);
+
+    expect(coordinator.getWorkItem(id)?.status).toBe('assigned');
+    expect(missed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore work without a deadline', () => {
+    const id = coordinator.submitWork({ taskId: 'task-1', description: 'Test', capability: 'typescript' });
+
+    supervisor.check();
+
+    expect(coordinator.getWorkItem(id)?.effectivePriority).toBeUndefined();
+  });
+});
+
+describe('ExtendedCoordinator deadlines on restore', () => {
+  let coordinator: ExtendedCoordinator;
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should tell listeners attached before initialize about deadlines passed while down', async () => {
+    const passed = new Date(Date.now() - HOUR).toISOString();
+    const stored = (id: string, status: CoordinatedWorkItem['status']): CoordinatedWorkItem => ({
+      id,
+      taskId: `task-${id}`,
+      description: id,
+      capability: 'typescript',
+      priority: 5,
+      offeredBy: 'coordinator',
+      offeredAt: passed,
+      attempts: status === 'pending' ? 0 : 1,
+      boundary: 'personal',
+      status,
+      deadline: passed,
+      ...(status === 'pending' ? {} : { assignedTo: 'agent-1', assignedAt: passed }),
+    });
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      persistence: {
+        save: async () => {},
+        remove: async () => {},
+        loadAll: async () => [stored('waiting', 'pending'), stored('running', 'in-progress')],
+      },
+    });
+
+    // Listeners are attached before initialize, as the project context does
+    const expired: DeadlineEvent[] = [];
+    const missed: DeadlineEvent[] = [];
+    coordinator.on('work-expired', (event: DeadlineEvent) => expired.push(event));
+    coordinator.on('work-deadline-missed', (event: DeadlineEvent) => missed.push(event));
+
+    await coordinator.initialize();
+
+    expect(expired.map(event => event.workItemId)).toEqual(['waiting']);
+    expect(missed.map(event => event.workItemId)).toEqual(['running']);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Work Dependency Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { CoordinatedWorkItem, WorkItemStatus } from '@loom/shared';
+import { ExtendedCoordinator, type ClassifiedWorkRequest } from '../coordinator.js';
+import { evaluateDependencies, buildWorkGraph } from '../dependencies.js';
+
+function workItem(id: string, status: WorkItemStatus, dependsOn?: string[]): CoordinatedWorkItem {
+  return {
+    id,
+    taskId: `task-${id}`,
+    description: id,
+    capability: 'typescript',
+    priority: 5,
+    offeredBy: 'coordinator',
+    offeredAt: new Date().toISOString(),
+    attempts: 0,
+    boundary: 'personal',
+    status,
+    dependsOn,
+  };
+}
+
+describe('evaluateDependencies', () => {
+  const items = new Map<string, CoordinatedWorkItem>([
+    ['done', workItem('done', 'completed')],
+    ['running', workItem('running', 'in-progress')],
+    ['broken', workItem('broken', 'failed')],
+  ]);
+  const lookup = (id: string) => items.get(id);
+
+  it('should be satisfied when every dependency completed', () => {
+    expect(evaluateDependencies(workItem('a', 'blocked', ['done']), lookup).state).toBe('satisfied');
+  });
+
+  it('should wait while a dependency is still open', () => {
+    expect(evaluateDependencies(workItem('a', 'blocked', ['done', 'running']), lookup).state).toBe('waiting');
+  });
+
+  it('should report the first failed dependency', () => {
+    const result = evaluateDependencies(workItem('a', 'blocked', ['running', 'broken']), lookup);
+    expect(result).toEqual({ state: 'failed', dependencyId: 'broken', reason: 'Dependency broken failed' });
+  });
+
+  it('should treat failed and missing dependencies as settled with the ignore policy', () => {
+    const item = { ...workItem('a', 'blocked', ['broken', 'gone']), dependencyFailurePolicy: 'ignore' as const };
+    expect(evaluateDependencies(item, lookup).state).toBe('satisfied');
+  });
+});
+
+describe('buildWorkGraph', () => {
+  it('should include upstream and downstream items', () => {
+    const items = [
+      workItem('implement', 'completed'),
+      workItem('test', 'pending', ['implement']),
+      workItem('docs', 'blocked', ['test']),
+      workItem('unrelated', 'pending'),
+    ];
+
+    const graph = buildWorkGraph('test', items);
+
+    expect(graph.rootId).toBe('test');
+    expect(graph.nodes.map(n => n.id).sort()).toEqual(['docs', 'implement', 'test']);
+    expect(graph.nodes.find(n => n.id === 'implement')?.dependents).toEqual(['test']);
+  });
+});
+
+describe('ExtendedCoordinator dependencies', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const submit = async (overrides: Partial<ClassifiedWorkRequest> = {}) => {
+    const response = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      ...overrides,
+    });
+    return response.workItemId;
+  };
+
+  const complete = async (id: string) => {
+    await coordinator.recordClaim(id, 'agent-1');
+    coordinator.recordCompletion(id);
+  };
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should block work until all dependencies complete', async () => {
+    const implement = await submit();
+    const review = await submit();
+    const test = await submit({ dependsOn: [implement, review] });
+    const released: string[] = [];
+    coordinator.on('work-released', (id: string) => released.push(id));
+
+    expect(coordinator.getAssignment(test)?.status).toBe('blocked');
+    expect(await coordinator.recordClaim(test, 'agent-1')).toBe(false);
+
+    await complete(implement);
+    expect(coordinator.getAssignment(test)?.status).toBe('blocked');
+
+    await complete(review);
+    expect(coordinator.getAssignment(test)?.status).toBe('pending');
+    expect(released).toEqual([test]);
+  });
+
+  it('should not block on dependencies that already completed', async () => {
+    const implement = await submit();
+    await complete(implement);
+
+    const response = await coordinator.submitClassifiedWork({
+      taskId: 'task-2',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      dependsOn: [implement],
+    });
+
+    expect(response.blocked).toBe(false);
+    expect(coordinator.getAssignment(response.workItemId)?.status).toBe('pending');
+  });
+
+  it('should cascade-cancel dependents by default', async () => {
+    const implement = await submit();
+    const test = await submit({ dependsOn: [implement] });
+    const docs = await submit({ dependsOn: [test] });
+
+    coordinator.cancelWork(implement);
+
+    expect(coordinator.getAssignment(test)?.status).toBe('cancelled');
+    expect(coordinator.getAssignment(test)?.statusReason).toBe(`Dependency ${implement} cancelled`);
+    expect(coordinator.getAssignment(docs)?.status).toBe('cancelled');
+  });
+
+  it('should fail dependents with the fail policy', async () => {
+    const implement = await submit();
+    const test = await submit({ dependsOn: [implement], dependencyFailurePolicy: 'fail' });
+
+    await coordinator.recordClaim(implement, 'agent-1');
+    await coordinator.recordError(implement, 'Bad input', false);
+    await coordinator.flush();
+
+    expect(coordinator.getAssignment(test)?.status).toBe('failed');
+    expect(coordinator.getAssignment(test)?.error?.message).toBe(`Dependency ${implement} failed`);
+  });
+
+  it('should release dependents with the ignore policy', async () => {
+    const implement = await submit();
+    const test = await submit({ dependsOn: [implement], dependencyFailurePolicy: 'ignore' });
+
+    coordinator.cancelWork(implement);
+
+    expect(coordinator.getAssignment(test)?.status).toBe('pending');
+  });
+
+  it('should reject unknown dependencies', async () => {
+    await expect(submit({ dependsOn: ['missing'] })).rejects.toThrow('Unknown dependency: missing');
+  });
+
+  it('should expose the dependency graph', async () => {
+    const implement = await submit();
+    const test = await submit({ dependsOn: [implement] });
+
+    const graph = coordinator.getWorkGraph(implement);
+
+    expect(graph?.nodes.map(n => n.id).sort()).toEqual([implement, test].sort());
+    expect(coordinator.getWorkGraph('missing')).toBeUndefined();
+  });
+});
+
+describe('ExtendedCoordinator dependencies on restore', () => {
+  let coordinator: ExtendedCoordinator;
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should tell listeners attached before initialize about work released while down', async () => {
+    const stored = [workItem('implement', 'completed'), workItem('test', 'blocked', ['implement'])];
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      persistence: {
+        save: async () => {},
+        remove: async () => {},
+        loadAll: async () => stored.map(item => ({ ...item })),
+      },
+    });
+
+    // Listeners are attached before initialize, as the project context does
+    const ready: string[] = [];
+    coordinator.on('work-ready', (id: string) => ready.push(id));
+
+    await coordinator.initialize();
+
+    expect(coordinator.getAssignment('test')?.status).toBe('pending');
+    expect(ready).toEqual(['test']);
+  });
+});
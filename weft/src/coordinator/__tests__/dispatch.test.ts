@@ -0,0 +1,210 @@
+/**
+ * Agent Inbox Tests (push dispatch and cancellation notices)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CoordinatedWorkItem, RegisteredAgent, WorkOfferReply, WorkCancellationAck } from '@loom/shared';
+import { ExtendedCoordinator } from '../coordinator.js';
+import type { AgentInbox } from '../agent-inbox.js';
+
+function agent(guid: string, overrides: Partial<RegisteredAgent> = {}): RegisteredAgent {
+  const now = new Date().toISOString();
+  return {
+    guid,
+    handle: guid,
+    agentType: 'claude-code',
+    status: 'online',
+    capabilities: ['typescript'],
+    boundaries: ['personal'],
+    hostname: 'localhost',
+    projectId: 'test',
+    visibility: 'project-only',
+    currentTaskCount: 0,
+    maxConcurrentTasks: 1,
+    spindownAfterIdleMs: 0,
+    lastHeartbeat: now,
+    lastActivity: now,
+    registeredAt: now,
+    ...overrides,
+  };
+}
+
+class FakeInbox implements AgentInbox {
+  offers: string[] = [];
+  cancellations: Array<{ agentGuid: string; workItemId: string; reason?: string }> = [];
+  cancelAck: WorkCancellationAck | Error = { acknowledged: true };
+
+  constructor(private replies: Record<string, WorkOfferReply | Error>) {}
+
+  async cancel(agentGuid: string, workItemId: string, reason?: string): Promise<WorkCancellationAck> {
+    this.cancellations.push({ agentGuid, workItemId, reason });
+    if (this.cancelAck instanceof Error) {
+      throw this.cancelAck;
+    }
+    return this.cancelAck;
+  }
+
+  async offer(agentGuid: string, _workItem: CoordinatedWorkItem): Promise<WorkOfferReply> {
+    this.offers.push(agentGuid);
+    const reply = this.replies[agentGuid] ?? new Error('Timeout');
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  }
+}
+
+describe('ExtendedCoordinator push dispatch', () => {
+  let coordinator: ExtendedCoordinator;
+  let inbox: FakeInbox;
+
+  const create = (replies: Record<string, WorkOfferReply | Error>, workers: RegisteredAgent[]) => {
+    inbox = new FakeInbox(replies);
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      inbox,
+      redispatchDelayMs: 1000,
+    });
+    vi.spyOn(coordinator, 'findWorkers').mockResolvedValue(workers);
+  };
+
+  const submit = async () => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+    });
+    return workItemId;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should assign work to the first agent that accepts', async () => {
+    create({ 'agent-1': { accepted: false, reason: 'Busy' }, 'agent-2': { accepted: true } }, [
+      agent('agent-1'),
+      agent('agent-2'),
+    ]);
+    const rejected = vi.fn();
+    coordinator.on('work-offer-rejected', rejected);
+    const id = await submit();
+
+    const assignedTo = await coordinator.dispatchWork(id);
+
+    expect(assignedTo).toBe('agent-2');
+    expect(coordinator.getAssignment(id)?.status).toBe('assigned');
+    expect(coordinator.getAssignment(id)?.assignedTo).toBe('agent-2');
+    expect(rejected).toHaveBeenCalledWith(id, 'agent-1', 'Busy');
+  });
+
+  it('should move on when an agent does not answer', async () => {
+    create({ 'agent-2': { accepted: true } }, [agent('agent-1'), agent('agent-2')]);
+    const id = await submit();
+
+    expect(await coordinator.dispatchWork(id)).toBe('agent-2');
+    expect(inbox.offers).toEqual(['agent-1', 'agent-2']);
+  });
+
+  it('should offer the routed agent type first', async () => {
+    create({}, [
+      agent('agent-1'),
+      agent('copilot', { agentType: 'copilot-cli' }),
+      agent('agent-2'),
+    ]);
+    const id = await submit();
+
+    await coordinator.dispatchWork(id);
+
+    expect(coordinator.getAssignment(id)?.targetAgentType).toBe('claude-code');
+    expect(inbox.offers).toEqual(['agent-1', 'agent-2', 'copilot']);
+  });
+
+  it('should offer work again later when no agent accepts', async () => {
+    create({}, [agent('agent-1')]);
+    const id = await submit();
+    const ready = vi.fn();
+    coordinator.on('work-ready', ready);
+
+    expect(await coordinator.dispatchWork(id)).toBeUndefined();
+    expect(coordinator.getAssignment(id)?.status).toBe('pending');
+
+    vi.advanceTimersByTime(1000);
+    expect(ready).toHaveBeenCalledWith(id);
+  });
+
+  it('should not dispatch work that is no longer pending', async () => {
+    create({ 'agent-1': { accepted: true } }, [agent('agent-1')]);
+    const id = await submit();
+    coordinator.cancelWork(id);
+
+    expect(await coordinator.dispatchWork(id)).toBeUndefined();
+    expect(inbox.offers).toEqual([]);
+  });
+
+  it('should require an agent inbox', async () => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+    const id = await submit();
+
+    await expect(coordinator.dispatchWork(id)).rejects.toThrow('requires an agent inbox');
+  });
+
+  describe('cancellation notices', () => {
+    it('should tell the assigned agent and record its acknowledgement', async () => {
+      create({ 'agent-1': { accepted: true } }, [agent('agent-1')]);
+      const id = await submit();
+      await coordinator.dispatchWork(id);
+      const acknowledged = vi.fn();
+      coordinator.on('work-cancel-acknowledged', acknowledged);
+
+      coordinator.cancelWork(id, 'No longer needed');
+      await vi.waitFor(() => expect(acknowledged).toHaveBeenCalledWith(id, 'agent-1'));
+
+      expect(inbox.cancellations).toEqual([{ agentGuid: 'agent-1', workItemId: id, reason: 'No longer needed' }]);
+      expect(coordinator.getAssignment(id)?.cancelAcknowledgedAt).toBeDefined();
+    });
+
+    it('should report agents that do not acknowledge', async () => {
+      create({ 'agent-1': { accepted: true } }, [agent('agent-1')]);
+      inbox.cancelAck = new Error('Timeout');
+      const id = await submit();
+      await coordinator.dispatchWork(id);
+      const unacknowledged = vi.fn();
+      coordinator.on('work-cancel-unacknowledged', unacknowledged);
+
+      coordinator.cancelWork(id);
+      await vi.waitFor(() => expect(unacknowledged).toHaveBeenCalledWith(id, 'agent-1', 'Timeout'));
+
+      expect(coordinator.getAssignment(id)?.cancelAcknowledgedAt).toBeUndefined();
+    });
+
+    it('should not notify anyone for unassigned work', async () => {
+      create({}, []);
+      const id = await submit();
+
+      coordinator.cancelWork(id);
+
+      expect(inbox.cancellations).toEqual([]);
+    });
+
+    it('should reject late completions and failures', async () => {
+      create({ 'agent-1': { accepted: true } }, [agent('agent-1')]);
+      const id = await submit();
+      await coordinator.dispatchWork(id);
+      coordinator.startWork(id);
+      coordinator.cancelWork(id);
+
+      expect(coordinator.recordCompletion(id, undefined, 'Done anyway')).toBe(false);
+      expect(await coordinator.recordError(id, 'Crashed', true)).toBe(false);
+      expect(coordinator.getAssignment(id)?.status).toBe('cancelled');
+      expect(coordinator.getAssignment(id)?.result).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Fair-Share Scheduling Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CoordinatedWorkItem, Priority, RegisteredAgent } from '@loom/shared';
+import { FairShareScheduler } from '../fair-share.js';
+import { ExtendedCoordinator } from '../coordinator.js';
+
+const NOW = new Date('2026-01-01T09:00:00Z').getTime();
+
+function workItem(id: string, boundary: string, offeredBy: string, priority: Priority = 5, ageMs = 0): CoordinatedWorkItem {
+  return {
+    id,
+    taskId: id,
+    capability: 'typescript',
+    description: 'Test',
+    priority,
+    offeredBy,
+    offeredAt: new Date(NOW - ageMs).toISOString(),
+    attempts: 0,
+    boundary,
+    status: 'pending',
+  };
+}
+
+/**
+ * Dispatch every item in the order the scheduler picks them
+ */
+function drain(scheduler: FairShareScheduler, workItems: CoordinatedWorkItem[]): string[] {
+  const order: string[] = [];
+  let remaining = workItems;
+  for (let next = scheduler.select(remaining, NOW); next; next = scheduler.select(remaining, NOW)) {
+    scheduler.recordDispatch(next, NOW);
+    order.push(next.id);
+    remaining = remaining.filter(w => w !== next);
+  }
+  return order;
+}
+
+describe('FairShareScheduler', () => {
+  it('should follow priority and age when nothing has been dispatched', () => {
+    const scheduler = new FairShareScheduler();
+
+    const next = scheduler.select([
+      workItem('old', 'team-a', 'alice', 5, 60000),
+      workItem('urgent', 'team-b', 'bob', 9),
+      workItem('new', 'team-a', 'alice', 5),
+    ], NOW);
+
+    expect(next?.id).toBe('urgent');
+  });
+
+  it('should not let a flood of high-priority work starve another boundary', () => {
+    const scheduler = new FairShareScheduler();
+    const flood = [1, 2, 3, 4].map(n => workItem(`a${n}`, 'team-a', 'alice', 10));
+
+    const order = drain(scheduler, [...flood, workItem('b1', 'team-b', 'bob', 1), workItem('b2', 'team-b', 'bob', 1)]);
+
+    expect(order.slice(0, 4)).toEqual(['a1', 'b1', 'a2', 'b2']);
+  });
+
+  it('should share in proportion to boundary weights', () => {
+    const scheduler = new FairShareScheduler({ boundaryWeights: { 'team-a': 2 } });
+    const items = [1, 2, 3, 4, 5, 6].flatMap(n => [workItem(`a${n}`, 'team-a', 'alice'), workItem(`b${n}`, 'team-b', 'bob')]);
+
+    const firstSix = drain(scheduler, items).slice(0, 6);
+
+    expect(firstSix.filter(id => id.startsWith('a'))).toHaveLength(4);
+    expect(firstSix.filter(id => id.startsWith('b'))).toHaveLength(2);
+  });
+
+  it('should share a boundary between its submitters by weight', () => {
+    const scheduler = new FairShareScheduler({ submitterWeights: { carol: 3 } });
+    const items = [1, 2, 3, 4].flatMap(n => [workItem(`c${n}`, 'team-a', 'carol'), workItem(`d${n}`, 'team-a', 'dave')]);
+
+    const firstFour = drain(scheduler, items).slice(0, 4);
+
+    expect(firstFour.filter(id => id.startsWith('c'))).toHaveLength(3);
+  });
+
+  it('should forget dispatches as they age', () => {
+    const scheduler = new FairShareScheduler({ halfLifeMs: 60000 });
+    scheduler.recordDispatch(workItem('a0', 'team-a', 'alice'), NOW - 3600000);
+
+    const next = scheduler.select([workItem('a1', 'team-a', 'alice', 5, 1000), workItem('b1', 'team-b', 'bob')], NOW);
+
+    expect(next?.id).toBe('a1');
+  });
+
+  it('should report shares against their targets', () => {
+    const scheduler = new FairShareScheduler({ boundaryWeights: { 'team-a': 3 }, halfLifeMs: 0 });
+    scheduler.recordDispatch(workItem('a1', 'team-a', 'alice'), NOW);
+
+    const stats = scheduler.getStats([workItem('b1', 'team-b', 'bob')], NOW);
+
+    expect(stats.boundaries).toEqual([
+      { name: 'team-a', weight: 3, usage: 1, share: 1, targetShare: 0.75, pending: 0 },
+      { name: 'team-b', weight: 1, usage: 0, share: 0, targetShare: 0.25, pending: 1 },
+    ]);
+    expect(stats.submitters.map(s => s.name)).toEqual(['alice', 'bob']);
+  });
+});
+
+describe('ExtendedCoordinator fair-share dispatch', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const agent: RegisteredAgent = {
+    guid: 'agent-1',
+    handle: 'agent-1',
+    agentType: 'claude-code',
+    status: 'online',
+    capabilities: ['typescript'],
+    boundaries: ['team-a', 'team-b'],
+    hostname: 'localhost',
+    projectId: 'test',
+    visibility: 'project-only',
+    currentTaskCount: 0,
+    maxConcurrentTasks: 4,
+    spindownAfterIdleMs: 0,
+    lastHeartbeat: new Date(NOW).toISOString(),
+    lastActivity: new Date(NOW).toISOString(),
+    registeredAt: new Date(NOW).toISOString(),
+  };
+
+  const submit = async (taskId: string, boundary: string, submittedBy: string, priority: Priority) => {
+    await coordinator.submitClassifiedWork({ taskId, description: 'Test', capability: 'typescript', boundary, priority, submittedBy });
+    vi.advanceTimersByTime(1000);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should hand out work fairly across boundaries as it is claimed', async () => {
+    await submit('a1', 'team-a', 'alice', 10);
+    await submit('a2', 'team-a', 'alice', 10);
+    await submit('b1', 'team-b', 'bob', 2);
+
+    const first = coordinator.nextWorkFor(agent)!;
+    await coordinator.recordClaim(first.id, agent.guid);
+    const second = coordinator.nextWorkFor(agent)!;
+
+    expect([first.taskId, second.taskId]).toEqual(['a1', 'b1']);
+    expect(first.offeredBy).toBe('alice');
+  });
+
+  it('should skip work the agent cannot take', async () => {
+    await submit('c1', 'team-c', 'carol', 10);
+    await submit('a1', 'team-a', 'alice', 1);
+
+    expect(coordinator.nextWorkFor(agent)?.taskId).toBe('a1');
+  });
+
+  it('should show the current shares', async () => {
+    await submit('a1', 'team-a', 'alice', 5);
+    await submit('b1', 'team-b', 'bob', 5);
+    await coordinator.recordClaim(coordinator.nextWorkFor(agent)!.id, agent.guid);
+
+    const { boundaries } = coordinator.getFairShareStats();
+
+    expect(boundaries.map(b => [b.name, b.share, b.pending])).toEqual([
+      ['team-a', 1, 0],
+      ['team-b', 0, 1],
+    ]);
+  });
+});
+
+describe('ExtendedCoordinator fair-share dispatch window', () => {
+  let coordinator: ExtendedCoordinator;
+  let ready: string[];
+
+  const submit = async (taskId: string, boundary: string) => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId,
+      description: 'Test',
+      capability: 'typescript',
+      boundary,
+      priority: boundary === 'team-a' ? 10 : 2,
+    });
+    vi.advanceTimersByTime(1000);
+    return workItemId;
+  };
+
+  const readyTasks = () => ready.map(id => coordinator.getAssignment(id)?.taskId);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      dispatchWindow: 2,
+      redispatchDelayMs: 30000,
+      leaseCheckIntervalMs: 1000,
+    });
+    ready = [];
+    coordinator.on('work-ready', (id: string) => ready.push(id));
+    await coordinator.initialize();
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should not let a flooded boundary starve another as work is claimed', async () => {
+    const flood = [];
+    for (let i = 1; i <= 4; i++) {
+      flood.push(await submit(`a${i}`, 'team-a'));
+    }
+    const other = await submit('b1', 'team-b');
+    expect(readyTasks()).toEqual(['a1', 'a2']);
+
+    await coordinator.recordClaim(flood[0]!, 'agent-1');
+    expect(readyTasks()).toEqual(['a1', 'a2', 'b1']);
+
+    await coordinator.recordClaim(other, 'agent-1');
+    expect(readyTasks()).toEqual(['a1', 'a2', 'b1', 'a3']);
+  });
+
+  it('should free the window of work nobody claims', async () => {
+    for (let i = 1; i <= 3; i++) {
+      await submit(`a${i}`, 'team-a');
+    }
+    expect(readyTasks()).toEqual(['a1', 'a2']);
+
+    vi.advanceTimersByTime(30000);
+
+    expect(readyTasks()).toEqual(['a1', 'a2', 'a3']);
+  });
+});
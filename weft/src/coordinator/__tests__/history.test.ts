@@ -0,0 +1,95 @@
+/**
+ * Work History Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExtendedCoordinator, type WorkStateChangeEvent } from '../coordinator.js';
+
+describe('ExtendedCoordinator work history', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const submit = async () => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      retry: { maxAttempts: 2, initialDelayMs: 1000, jitter: 0 },
+    });
+    return workItemId;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test', leaseDurationMs: 60000 });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should record every transition with actor and reason', async () => {
+    const id = await submit();
+    await coordinator.recordClaim(id, 'agent-1');
+    coordinator.startWork(id);
+    coordinator.recordCompletion(id, undefined, 'Done');
+
+    const history = coordinator.getWorkHistory(id)!;
+
+    expect(history.status).toBe('completed');
+    expect(history.transitions.map(t => [t.from, t.to, t.actor, t.reason])).toEqual([
+      [null, 'pending', 'coordinator', 'Submitted'],
+      ['pending', 'assigned', 'agent-1', 'Claimed'],
+      ['assigned', 'in-progress', 'agent-1', 'Started'],
+      ['in-progress', 'completed', 'agent-1', 'Done'],
+    ]);
+  });
+
+  it('should show where the time went', async () => {
+    const id = await submit();
+    vi.advanceTimersByTime(30 * 60000);
+    await coordinator.recordClaim(id, 'agent-1');
+    coordinator.startWork(id);
+    vi.advanceTimersByTime(90 * 60000);
+    coordinator.recordCompletion(id);
+    vi.advanceTimersByTime(60000);
+
+    expect(coordinator.getWorkHistory(id)?.timeInStatus).toEqual({
+      'pending': 30 * 60000,
+      'assigned': 0,
+      'in-progress': 90 * 60000,
+    });
+  });
+
+  it('should record lease expiry as a coordinator reset', async () => {
+    const id = await submit();
+    await coordinator.recordClaim(id, 'agent-1');
+    vi.advanceTimersByTime(60001);
+    await coordinator.checkLeases();
+
+    const last = coordinator.getWorkHistory(id)?.transitions.at(-1);
+
+    expect(last).toMatchObject({ from: 'assigned', to: 'pending', actor: 'coordinator' });
+    expect(last?.reason).toContain('Lease expired for agent agent-1');
+  });
+
+  it('should emit state change events', async () => {
+    const events: WorkStateChangeEvent[] = [];
+    coordinator.on('work-state-changed', (event: WorkStateChangeEvent) => events.push(event));
+
+    const id = await submit();
+    coordinator.cancelWork(id, 'No longer needed');
+
+    expect(events.map(e => [e.previousStatus, e.newStatus, e.reason])).toEqual([
+      [null, 'pending', 'Submitted'],
+      ['pending', 'cancelled', 'No longer needed'],
+    ]);
+    expect(events.every(e => e.workItemId === id)).toBe(true);
+  });
+
+  it('should return undefined for unknown work items', () => {
+    expect(coordinator.getWorkHistory('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Idempotent Submission Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ExtendedCoordinator, type ClassifiedWorkRequest, type ExtendedCoordinatorConfig } from '../coordinator.js';
+import { IdempotencyCache } from '../idempotency.js';
+
+describe('IdempotencyCache', () => {
+  it('should key on the explicit idempotency key first', () => {
+    const cache = new IdempotencyCache({ keyOnTaskId: true });
+    expect(cache.keyFor({ taskId: 'task-1', idempotencyKey: 'retry-1' })).toBe('key:retry-1');
+    expect(cache.keyFor({ taskId: 'task-1' })).toBe('task:task-1');
+  });
+
+  it('should only key on taskId when configured', () => {
+    expect(new IdempotencyCache().keyFor({ taskId: 'task-1' })).toBeUndefined();
+  });
+
+  it('should be disabled by a zero window', () => {
+    expect(new IdempotencyCache({ windowMs: 0 }).keyFor({ taskId: 'task-1', idempotencyKey: 'k' })).toBeUndefined();
+  });
+});
+
+describe('ExtendedCoordinator idempotent submission', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const create = (idempotency: ExtendedCoordinatorConfig['idempotency']) => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test', idempotency });
+    return coordinator;
+  };
+
+  const request = (overrides: Partial<ClassifiedWorkRequest> = {}): ClassifiedWorkRequest => ({
+    taskId: 'task-1',
+    description: 'Test',
+    capability: 'typescript',
+    boundary: 'personal',
+    ...overrides,
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should return the original response for a repeated idempotency key', async () => {
+    create({});
+
+    const first = await coordinator.submitClassifiedWork(request({ idempotencyKey: 'ci-run-42' }));
+    const retry = await coordinator.submitClassifiedWork(request({ idempotencyKey: 'ci-run-42' }));
+
+    expect(retry).toEqual({ ...first, duplicate: true });
+    expect(first.duplicate).toBeUndefined();
+    expect(coordinator.getAssignments()).toHaveLength(1);
+  });
+
+  it('should deduplicate concurrent submissions', async () => {
+    create({ keyOnTaskId: true });
+
+    const [first, second] = await Promise.all([
+      coordinator.submitClassifiedWork(request()),
+      coordinator.submitClassifiedWork(request()),
+    ]);
+
+    expect(second.workItemId).toBe(first.workItemId);
+    expect(coordinator.getAssignments()).toHaveLength(1);
+  });
+
+  it('should submit again once the window has passed', async () => {
+    vi.useFakeTimers();
+    create({ windowMs: 1000, keyOnTaskId: true });
+
+    const first = await coordinator.submitClassifiedWork(request());
+    vi.advanceTimersByTime(1001);
+    const second = await coordinator.submitClassifiedWork(request());
+
+    expect(second.workItemId).not.toBe(first.workItemId);
+    expect(second.duplicate).toBeUndefined();
+  });
+
+  it('should not remember failed submissions', async () => {
+    create({});
+
+    await expect(coordinator.submitClassifiedWork(request({ idempotencyKey: 'k', dependsOn: ['missing'] })))
+      .rejects.toThrow('Unknown dependency');
+    const retry = await coordinator.submitClassifiedWork(request({ idempotencyKey: 'k' }));
+
+    expect(retry.duplicate).toBeUndefined();
+  });
+
+  it('should not deduplicate by taskId by default', async () => {
+    create({});
+
+    await coordinator.submitClassifiedWork(request());
+    await coordinator.submitClassifiedWork(request());
+
+    expect(coordinator.getAssignments()).toHaveLength(2);
+  });
+});
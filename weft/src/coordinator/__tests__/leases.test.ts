@@ -0,0 +1,100 @@
+/**
+ * Assignment Lease Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExtendedCoordinator } from '../coordinator.js';
+
+const LEASE_MS = 60000;
+
+describe('ExtendedCoordinator leases', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const claim = async () => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      retry: { maxAttempts: 2, initialDelayMs: 1000, jitter: 0 },
+    });
+    await coordinator.recordClaim(workItemId, 'agent-1');
+    return workItemId;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    coordinator = new ExtendedCoordinator({
+      coordinatorGuid: 'coordinator',
+      projectId: 'test',
+      leaseDurationMs: LEASE_MS,
+    });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should grant a lease when work is claimed', async () => {
+    const id = await claim();
+
+    expect(coordinator.getAssignment(id)?.leaseExpiresAt).toBe(new Date(Date.now() + LEASE_MS).toISOString());
+  });
+
+  it('should keep work assigned while the agent renews its lease', async () => {
+    const id = await claim();
+    coordinator.startWork(id);
+
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(LEASE_MS / 2);
+      if (i % 2 === 0) {
+        coordinator.renewLease(id);
+      } else {
+        coordinator.updateProgress(id, i * 10);
+      }
+      expect(await coordinator.checkLeases()).toEqual([]);
+    }
+
+    expect(coordinator.getAssignment(id)?.status).toBe('in-progress');
+  });
+
+  it('should return in-progress work to pending once its lease expires', async () => {
+    const id = await claim();
+    coordinator.startWork(id);
+    const expired = vi.fn();
+    coordinator.on('work-lease-expired', expired);
+
+    vi.advanceTimersByTime(LEASE_MS + 1);
+    await coordinator.checkLeases();
+
+    const workItem = coordinator.getAssignment(id)!;
+    expect(workItem.status).toBe('pending');
+    expect(workItem.assignedTo).toBeUndefined();
+    expect(workItem.leaseExpiresAt).toBeUndefined();
+    expect(workItem.error?.code).toBe('LEASE_EXPIRED');
+    expect(expired).toHaveBeenCalledWith(id, 'agent-1');
+  });
+
+  it('should fail work whose lease expires on the last attempt', async () => {
+    const id = await claim();
+    vi.advanceTimersByTime(LEASE_MS + 1);
+    await coordinator.checkLeases();
+
+    vi.advanceTimersByTime(1000);
+    await coordinator.recordClaim(id, 'agent-2');
+    vi.advanceTimersByTime(LEASE_MS + 1);
+    await coordinator.checkLeases();
+
+    expect(coordinator.getAssignment(id)?.status).toBe('failed');
+    expect(coordinator.getAssignment(id)?.attempts).toBe(2);
+  });
+
+  it('should not renew leases on work that is no longer assigned', async () => {
+    const id = await claim();
+    coordinator.recordCompletion(id);
+
+    expect(coordinator.renewLease(id)).toBeUndefined();
+    expect(coordinator.getAssignment(id)?.leaseExpiresAt).toBeUndefined();
+  });
+});
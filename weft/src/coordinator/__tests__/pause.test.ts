@@ -0,0 +1,113 @@
+/**
+ * Work Update, Pause and Resume Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExtendedCoordinator } from '../coordinator.js';
+
+describe('ExtendedCoordinator updating and pausing work', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const submit = async () => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      priority: 5,
+    });
+    return workItemId;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should update unclaimed work', async () => {
+    const id = await submit();
+    const updated = vi.fn();
+    coordinator.on('work-updated', updated);
+
+    const success = coordinator.updateWork(id, {
+      priority: 9,
+      deadline: '2026-01-02T09:00:00Z',
+      contextData: { branch: 'main' },
+    });
+
+    expect(success).toBe(true);
+    expect(updated).toHaveBeenCalledWith(id);
+    expect(coordinator.getAssignment(id)).toMatchObject({
+      priority: 9,
+      deadline: '2026-01-02T09:00:00Z',
+      contextData: { branch: 'main' },
+    });
+
+    coordinator.updateWork(id, { deadline: null });
+    expect(coordinator.getAssignment(id)?.deadline).toBeUndefined();
+  });
+
+  it('should not update claimed work', async () => {
+    const id = await submit();
+    await coordinator.recordClaim(id, 'agent-1');
+
+    expect(coordinator.updateWork(id, { priority: 9 })).toBe(false);
+    expect(coordinator.getAssignment(id)?.priority).toBe(5);
+  });
+
+  it('should hold paused work until resumed', async () => {
+    const id = await submit();
+    const ready = vi.fn();
+    coordinator.on('work-ready', ready);
+
+    expect(coordinator.pauseWork(id, 'Waiting on review', 'operator')).toBe(true);
+    expect(coordinator.getAssignment(id)?.status).toBe('paused');
+    expect(await coordinator.recordClaim(id, 'agent-1')).toBe(false);
+    expect(coordinator.getWorkHistory(id)?.transitions.at(-1)).toMatchObject({
+      from: 'pending',
+      to: 'paused',
+      actor: 'operator',
+      reason: 'Waiting on review',
+    });
+
+    expect(coordinator.resumeWork(id)).toBe(true);
+    expect(ready).toHaveBeenCalledWith(id);
+    expect(await coordinator.recordClaim(id, 'agent-1')).toBe(true);
+  });
+
+  it('should wait out a retry backoff after resuming', async () => {
+    const id = await submit();
+    const ready = vi.fn();
+    coordinator.pauseWork(id);
+    coordinator.getAssignment(id)!.notBefore = new Date(Date.now() + 5000).toISOString();
+    coordinator.on('work-ready', ready);
+
+    coordinator.resumeWork(id);
+    expect(ready).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(5000);
+    expect(ready).toHaveBeenCalledWith(id);
+  });
+
+  it('should only pause pending work and resume paused work', async () => {
+    const id = await submit();
+
+    expect(coordinator.resumeWork(id)).toBe(false);
+    await coordinator.recordClaim(id, 'agent-1');
+    expect(coordinator.pauseWork(id)).toBe(false);
+  });
+
+  it('should count paused work in stats', async () => {
+    const id = await submit();
+    await submit();
+    coordinator.pauseWork(id);
+
+    expect(coordinator.getStats()).toMatchObject({ pending: 1, paused: 1 });
+  });
+});
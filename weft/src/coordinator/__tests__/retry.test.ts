@@ -0,0 +1,56 @@
+/**
+ * Retry Policy Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from '@loom/shared';
+import { resolveRetryPolicy, computeRetryDelay } from '../retry.js';
+
+describe('resolveRetryPolicy', () => {
+  it('should return defaults when no override is given', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('should merge a partial override over defaults', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, jitter: 0 });
+
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.jitter).toBe(0);
+    expect(policy.initialDelayMs).toBe(DEFAULT_RETRY_POLICY.initialDelayMs);
+  });
+
+  it('should use project defaults instead of built-in defaults', () => {
+    const projectDefaults: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 10 };
+
+    expect(resolveRetryPolicy({}, projectDefaults).maxAttempts).toBe(10);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const policy: RetryPolicy = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 5000,
+    jitter: 0,
+  };
+
+  it('should back off exponentially', () => {
+    expect(computeRetryDelay(policy, 1)).toBe(1000);
+    expect(computeRetryDelay(policy, 2)).toBe(2000);
+    expect(computeRetryDelay(policy, 3)).toBe(4000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeRetryDelay(policy, 4)).toBe(5000);
+    expect(computeRetryDelay(policy, 10)).toBe(5000);
+  });
+
+  it('should apply jitter in both directions', () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    expect(computeRetryDelay(jittered, 1, () => 0)).toBe(500);
+    expect(computeRetryDelay(jittered, 1, () => 0.5)).toBe(1000);
+    expect(computeRetryDelay(jittered, 1, () => 1)).toBe(1500);
+  });
+});
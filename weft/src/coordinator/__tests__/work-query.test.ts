@@ -0,0 +1,110 @@
+/**
+ * Work Query Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Priority } from '@loom/shared';
+import { ExtendedCoordinator } from '../coordinator.js';
+import { isValidWorkCursor } from '../work-query.js';
+
+describe('ExtendedCoordinator work queries', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const submit = async (taskId: string, overrides: { boundary?: string; priority?: Priority } = {}) => {
+    const { workItemId } = await coordinator.submitClassifiedWork({
+      taskId,
+      description: 'Test',
+      capability: 'typescript',
+      boundary: overrides.boundary ?? 'personal',
+      priority: overrides.priority ?? 5,
+    });
+    vi.advanceTimersByTime(60000);
+    return workItemId;
+  };
+
+  const taskIds = (query: Parameters<ExtendedCoordinator['queryWork']>[0]) =>
+    coordinator.queryWork(query).workItems.map(w => w.taskId);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T09:00:00Z'));
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should filter by boundary, task, assignee and priority range', async () => {
+    await submit('a', { boundary: 'corporate', priority: 3 });
+    const b = await submit('b', { priority: 7 });
+    await submit('c', { priority: 9 });
+    await coordinator.recordClaim(b, 'agent-1');
+
+    expect(taskIds({ boundary: 'corporate' })).toEqual(['a']);
+    expect(taskIds({ taskId: 'c' })).toEqual(['c']);
+    expect(taskIds({ assignedTo: 'agent-1' })).toEqual(['b']);
+    expect(taskIds({ minPriority: 5, maxPriority: 8 })).toEqual(['b']);
+    expect(taskIds({ agentType: 'claude-code' })).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should filter by submission and completion windows', async () => {
+    const a = await submit('a');
+    await submit('b');
+    const c = await submit('c');
+    coordinator.cancelWork(a);
+    vi.advanceTimersByTime(60000);
+    coordinator.cancelWork(c);
+
+    expect(taskIds({ submittedAfter: '2026-01-01T09:01:00Z', submittedBefore: '2026-01-01T09:02:00Z' })).toEqual(['b']);
+    expect(taskIds({ completedAfter: '2026-01-01T09:03:30Z' })).toEqual(['c']);
+    expect(taskIds({ completedBefore: '2026-01-01T09:03:30Z' })).toEqual(['a']);
+  });
+
+  it('should sort by the requested field and direction', async () => {
+    const a = await submit('a', { priority: 3 });
+    await submit('b', { priority: 9 });
+    const c = await submit('c', { priority: 3 });
+    coordinator.cancelWork(c);
+    vi.advanceTimersByTime(60000);
+    coordinator.cancelWork(a);
+
+    expect(taskIds({})).toEqual(['b', 'a', 'c']);
+    expect(taskIds({ sortOrder: 'asc' })).toEqual(['c', 'a', 'b']);
+    expect(taskIds({ sortBy: 'submittedAt' })).toEqual(['c', 'b', 'a']);
+    expect(taskIds({ sortBy: 'completedAt' })).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should page through results with a cursor', async () => {
+    for (const taskId of ['a', 'b', 'c', 'd', 'e']) {
+      await submit(taskId);
+    }
+
+    const first = coordinator.queryWork({ sortBy: 'submittedAt', sortOrder: 'asc', limit: 2 });
+    expect(first.workItems.map(w => w.taskId)).toEqual(['a', 'b']);
+    expect(first).toMatchObject({ count: 2, total: 5 });
+
+    // Work submitted between pages doesn't shift the next page
+    await submit('f');
+
+    const second = coordinator.queryWork({ sortBy: 'submittedAt', sortOrder: 'asc', limit: 2, cursor: first.nextCursor });
+    expect(second.workItems.map(w => w.taskId)).toEqual(['c', 'd']);
+
+    const third = coordinator.queryWork({ sortBy: 'submittedAt', sortOrder: 'asc', limit: 2, cursor: second.nextCursor });
+    expect(third.workItems.map(w => w.taskId)).toEqual(['e', 'f']);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  it('should reject cursors from a different sort', async () => {
+    await submit('a');
+    await submit('b');
+
+    const { nextCursor } = coordinator.queryWork({ limit: 1 });
+
+    expect(isValidWorkCursor(nextCursor!)).toBe(true);
+    expect(isValidWorkCursor(nextCursor!, { sortOrder: 'asc' })).toBe(false);
+    expect(isValidWorkCursor('not-a-cursor')).toBe(false);
+    expect(() => coordinator.queryWork({ sortBy: 'submittedAt', cursor: nextCursor })).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Work Queue Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { NatsConnection } from 'nats';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { WorkQueue } from '../work-queue.js';
+
+describe('WorkQueue', () => {
+  const workItem = (attempts: number) =>
+    ({ id: 'work-1', capability: 'typescript', attempts }) as CoordinatedWorkItem;
+
+  const queue = async () => {
+    const publish = vi.fn<[string, string, { msgID: string }], Promise<unknown>>(async () => ({ duplicate: false }));
+    const nc = {
+      jetstreamManager: async () => ({ streams: { info: async () => ({}) } }),
+      jetstream: () => ({ publish }),
+    } as unknown as NatsConnection;
+    const workQueue = new WorkQueue(nc, 'test');
+    await workQueue.initialize();
+    return { workQueue, publish };
+  };
+
+  it('should refuse to publish before initialize', async () => {
+    const nc = {} as NatsConnection;
+
+    await expect(new WorkQueue(nc, 'test').publish(workItem(0))).rejects.toThrow('WorkQueue not initialized');
+  });
+
+  it('should publish onto the capability subject with the item and attempt as message ID', async () => {
+    const { workQueue, publish } = await queue();
+
+    await workQueue.publish(workItem(0));
+    await workQueue.publish(workItem(0));
+    await workQueue.publish(workItem(1));
+
+    expect(publish.mock.calls.map(([subject, , options]) => [subject, options])).toEqual([
+      ['loom.test.work.queue.typescript', { msgID: 'work-1:0' }],
+      ['loom.test.work.queue.typescript', { msgID: 'work-1:0' }],
+      ['loom.test.work.queue.typescript', { msgID: 'work-1:1' }],
+    ]);
+  });
+});
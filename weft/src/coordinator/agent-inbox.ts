@@ -0,0 +1,85 @@
+/**
+ * Agent Inbox
+ *
+ * Sends work messages directly to an agent: offers in push dispatch mode,
+ * and cancellation notices for work the agent is assigned. Messages are
+ * NATS requests to the agent's inbox (`loom.{projectId}.agent.inbox.{guid}`),
+ * told apart by `type`; the agent replies to accept, reject or acknowledge.
+ */
+
+import type { NatsConnection } from 'nats';
+import type {
+  CoordinatedWorkItem,
+  WorkOffer,
+  WorkOfferReply,
+  WorkCancellation,
+  WorkCancellationAck,
+} from '@loom/shared';
+import { AgentSubjects } from '@loom/shared';
+
+/**
+ * Delivers work messages to agents
+ */
+export interface AgentInbox {
+  /**
+   * Offer a work item to an agent
+   * @throws Error if the agent doesn't reply within the timeout
+   */
+  offer(agentGuid: string, workItem: CoordinatedWorkItem, timeoutMs: number): Promise<WorkOfferReply>;
+
+  /**
+   * Tell an agent that work assigned to it was cancelled
+   * @throws Error if the agent doesn't reply within the timeout
+   */
+  cancel(agentGuid: string, workItemId: string, reason: string | undefined, timeoutMs: number): Promise<WorkCancellationAck>;
+}
+
+/**
+ * NATS request/reply agent inbox
+ */
+export class NatsAgentInbox implements AgentInbox {
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {}
+
+  async offer(agentGuid: string, workItem: CoordinatedWorkItem, timeoutMs: number): Promise<WorkOfferReply> {
+    const offer: WorkOffer = {
+      type: 'work-offer',
+      workItem,
+      expiresAt: new Date(Date.now() + timeoutMs).toISOString(),
+    };
+
+    const data = await this.request<WorkOfferReply>(agentGuid, offer, timeoutMs);
+    return {
+      accepted: data.accepted === true,
+      ...(data.reason !== undefined && { reason: String(data.reason) }),
+    };
+  }
+
+  async cancel(
+    agentGuid: string,
+    workItemId: string,
+    reason: string | undefined,
+    timeoutMs: number
+  ): Promise<WorkCancellationAck> {
+    const notice: WorkCancellation = {
+      type: 'work-cancelled',
+      workItemId,
+      ...(reason && { reason }),
+    };
+
+    const data = await this.request<WorkCancellationAck>(agentGuid, notice, timeoutMs);
+    return { acknowledged: data.acknowledged === true };
+  }
+
+  private async request<T>(agentGuid: string, message: WorkOffer | WorkCancellation, timeoutMs: number): Promise<Partial<T>> {
+    const reply = await this.nc.request(
+      AgentSubjects.inbox(this.projectId, agentGuid),
+      JSON.stringify(message),
+      { timeout: timeoutMs }
+    );
+
+    return JSON.parse(new TextDecoder().decode(reply.data)) as Partial<T>;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Artifact Store
+ *
+ * Stores result files uploaded for work items (patches, logs, reports) in
+ * the per-project `loom-artifacts-{projectId}` JetStream Object Store, named
+ * `{workItemId}/{name}`. Artifacts live as long as their work item: they are
+ * removed when the coordinator drops the item.
+ */
+
+import type { NatsConnection, ObjectStore } from 'nats';
+import { StorageType } from 'nats';
+import type { WorkArtifact } from '@loom/shared';
+import { ObjectStoreBuckets } from '@loom/shared';
+
+const ARTIFACT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,254}$/;
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Check whether an artifact name is valid
+ *
+ * Names start with a letter or digit and may contain letters, digits,
+ * dots, underscores and hyphens (at most 255 characters).
+ */
+export function isValidArtifactName(name: string): boolean {
+  return typeof name === 'string' && ARTIFACT_NAME_PATTERN.test(name);
+}
+
+/**
+ * JetStream Object Store-backed artifact storage
+ */
+export class ArtifactStore {
+  private os: ObjectStore | null = null;
+
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {}
+
+  /**
+   * Initialize the store (create the object store bucket if needed)
+   */
+  async initialize(): Promise<void> {
+    const js = this.nc.jetstream();
+    this.os = await js.views.os(ObjectStoreBuckets.artifacts(this.projectId), {
+      description: `Work artifacts for project ${this.projectId}`,
+      storage: StorageType.File,
+    });
+  }
+
+  /**
+   * Store an artifact, replacing any artifact with the same name
+   */
+  async put(
+    workItemId: string,
+    name: string,
+    data: Uint8Array,
+    contentType: string = DEFAULT_CONTENT_TYPE
+  ): Promise<WorkArtifact> {
+    const os = this.getStore();
+    if (!isValidArtifactName(name)) {
+      throw new Error(`Invalid artifact name: ${name}`);
+    }
+
+    const info = await os.putBlob(
+      {
+        name: `${workItemId}/${name}`,
+        metadata: { workItemId, contentType },
+      },
+      data
+    );
+
+    return {
+      name,
+      size: info.size,
+      contentType,
+      digest: info.digest,
+      uploadedAt: info.mtime,
+    };
+  }
+
+  /**
+   * Get an artifact's contents
+   * @returns The data, or null if the artifact doesn't exist
+   */
+  async get(workItemId: string, name: string): Promise<Uint8Array | null> {
+    const os = this.getStore();
+    if (!isValidArtifactName(name)) {
+      return null;
+    }
+
+    return os.getBlob(`${workItemId}/${name}`);
+  }
+
+  /**
+   * Remove every artifact stored for a work item
+   * @returns Number of artifacts removed
+   */
+  async removeAll(workItemId: string): Promise<number> {
+    return this.removeWhere(owner => owner === workItemId);
+  }
+
+  /**
+   * Remove artifacts whose work item is no longer tracked
+   * @param workItemIds IDs of the work items still tracked
+   * @returns Number of artifacts removed
+   */
+  async prune(workItemIds: Set<string>): Promise<number> {
+    return this.removeWhere(owner => !workItemIds.has(owner));
+  }
+
+  private async removeWhere(matches: (workItemId: string) => boolean): Promise<number> {
+    const os = this.getStore();
+
+    let removed = 0;
+    for (const info of await os.list()) {
+      const workItemId = info.name.split('/')[0] ?? '';
+      if (!info.deleted && matches(workItemId)) {
+        await os.delete(info.name);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private getStore(): ObjectStore {
+    if (!this.os) {
+      throw new Error('ArtifactStore not initialized');
+    }
+    return this.os;
+  }
+
+  /**
+   * Close the store
+   */
+  async close(): Promise<void> {
+    // Object store doesn't need explicit closing
+    this.os = null;
+  }
+}
@@ -7,10 +7,22 @@
 
 import type {
   CoordinatedWorkItem,
+  WorkItemError,
   WorkItemStatus,
   Priority,
+  RetryPolicy,
+  DependencyFailurePolicy,
+  WorkArtifact,
+  WorkStatusTransition,
+  WorkUpdateRequest,
+  WorkFilter,
+  AgingPolicy,
 } from '@loom/shared';
+import { DEFAULT_RETRY_POLICY } from '@loom/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { resolveRetryPolicy, computeRetryDelay } from './retry.js';
+import { applyTransition, COORDINATOR_ACTOR, FINISHED_STATUSES } from './history.js';
+import { matchesWorkFilter, compareWorkItems, finishedAt } from './work-query.js';
 
 /**
  * Work request for submission
@@ -19,38 +31,75 @@ export interface WorkRequest {
   taskId: string;
   description: string;
   capability: string;
+  requiredCapabilities?: string[];
+  preferredCapabilities?: string[];
   priority?: Priority;
   deadline?: string;
+  notBefore?: string;
   contextData?: Record<string, unknown>;
+  retry?: Partial<RetryPolicy>;
+  dependsOn?: string[];
+  dependencyFailurePolicy?: DependencyFailurePolicy;
+  submittedBy?: string;
+}
+
+/**
+ * Persistence callbacks for work item storage
+ *
+ * The coordinator keeps its working set in memory and writes every change
+ * through to the persistence layer. On startup the working set is rebuilt
+ * from `loadAll()`.
+ */
+export interface WorkItemPersistence {
+  /** Store the current state of a work item */
+  save(workItem: CoordinatedWorkItem): Promise<void>;
+  /** Remove a work item */
+  remove(workItemId: string): Promise<void>;
+  /** Load all stored work items */
+  loadAll(): Promise<CoordinatedWorkItem[]>;
 }
 
 /**
  * Base coordinator configuration
  */
 export interface BaseCoordinatorConfig {
-  /** How long before unassigned work is considered stale (ms) */
+  /** Finished work is removed once it is twice this old (ms) */
   staleThresholdMs?: number;
   /** How often to clean up stale work (ms) */
   cleanupIntervalMs?: number;
+  /** How long a claim or renewal keeps work assigned to an agent (ms) */
+  leaseDurationMs?: number;
+  /** Default retry policy for recoverable failures */
+  retryPolicy?: RetryPolicy;
+  /** Raise the priority of pending work as it waits (default: no aging) */
+  aging?: AgingPolicy;
+  /** Optional persistence for work items (default: in-memory only) */
+  persistence?: WorkItemPersistence;
+  /** Called after cleanup drops a finished work item */
+  onRemove?: (workItem: CoordinatedWorkItem) => void;
+  /** Called after a work item changes status */
+  onTransition?: (workItem: CoordinatedWorkItem, transition: WorkStatusTransition) => void;
 }
 
+/** Statuses in which work can still be updated */
+const UPDATABLE_STATUSES: WorkItemStatus[] = ['blocked', 'pending', 'paused'];
+
 /**
  * Assignment filter for querying work items
  */
-export interface AssignmentFilter {
-  status?: WorkItemStatus;
-  capability?: string;
-  assignedTo?: string;
-}
+export type AssignmentFilter = WorkFilter;
 
 /**
  * Coordinator statistics
  */
 export interface CoordinatorStats {
+  blocked: number;
   pending: number;
+  paused: number;
   active: number;
   completed: number;
   failed: number;
+  expired: number;
   total: number;
 }
 
@@ -59,46 +108,110 @@ export interface CoordinatorStats {
  */
 export class BaseCoordinator {
   private workItems: Map<string, CoordinatedWorkItem> = new Map();
-  private config: Required<BaseCoordinatorConfig>;
+  private config: Required<Omit<BaseCoordinatorConfig, 'persistence' | 'onRemove' | 'onTransition' | 'aging'>>;
+  private aging?: AgingPolicy;
+  private persistence?: WorkItemPersistence;
+  private onRemove?: (workItem: CoordinatedWorkItem) => void;
+  private onTransition?: (workItem: CoordinatedWorkItem, transition: WorkStatusTransition) => void;
+  private pendingWrites: Set<Promise<void>> = new Set();
   private cleanupInterval?: NodeJS.Timeout;
+  private agingInterval?: NodeJS.Timeout;
 
   constructor(config: BaseCoordinatorConfig = {}) {
     this.config = {
       staleThresholdMs: config.staleThresholdMs ?? 300000, // 5 minutes
       cleanupIntervalMs: config.cleanupIntervalMs ?? 60000, // 1 minute
+      leaseDurationMs: config.leaseDurationMs ?? 300000, // 5 minutes
+      retryPolicy: config.retryPolicy ?? DEFAULT_RETRY_POLICY,
     };
+    this.persistence = config.persistence;
+    this.onRemove = config.onRemove;
+    this.onTransition = config.onTransition;
 
     // Start cleanup interval
     this.cleanupInterval = setInterval(
       () => this.cleanupStaleWork(),
       this.config.cleanupIntervalMs
     );
+
+    // Age pending work at least once a minute
+    this.aging = config.aging;
+    if (this.aging) {
+      this.agingInterval = setInterval(
+        () => this.applyAging(),
+        Math.min(this.aging.intervalMs, 60000)
+      );
+    }
+  }
+
+  /**
+   * Rebuild in-memory state from persistence
+   * @returns Number of work items restored
+   */
+  async restore(): Promise<number> {
+    if (!this.persistence) {
+      return 0;
+    }
+
+    const workItems = await this.persistence.loadAll();
+    for (const workItem of workItems) {
+      // Items assigned before leases existed get one from their claim time
+      if ((workItem.status === 'assigned' || workItem.status === 'in-progress') && !workItem.leaseExpiresAt) {
+        const assignedAt = workItem.assignedAt ? new Date(workItem.assignedAt).getTime() : Date.now();
+        workItem.leaseExpiresAt = new Date(assignedAt + this.config.leaseDurationMs).toISOString();
+      }
+      this.workItems.set(workItem.id, workItem);
+    }
+
+    return workItems.length;
   }
 
   /**
    * Submit new work
+   * @param request Work request
+   * @param overrides Additional fields to set on the new item (e.g. boundary)
    * @returns Work item ID
    */
-  submitWork(request: WorkRequest): string {
+  submitWork(request: WorkRequest, overrides: Partial<CoordinatedWorkItem> = {}): string {
     const id = uuidv4();
     const now = new Date().toISOString();
 
+    // Hold the item until every dependency has completed
+    const dependsOn = request.dependsOn?.length ? request.dependsOn : undefined;
+    const blocked = dependsOn?.some(dependencyId => this.workItems.get(dependencyId)?.status !== 'completed');
+
     const workItem: CoordinatedWorkItem = {
       id,
       taskId: request.taskId,
       description: request.description,
       capability: request.capability,
+      requiredCapabilities: request.requiredCapabilities?.length ? request.requiredCapabilities : undefined,
+      preferredCapabilities: request.preferredCapabilities?.length ? request.preferredCapabilities : undefined,
       priority: request.priority ?? 5,
       deadline: request.deadline,
+      notBefore: request.notBefore,
       contextData: request.contextData,
       boundary: 'personal', // Default, will be overridden by ExtendedCoordinator
       status: 'pending',
-      offeredBy: 'coordinator',
+      offeredBy: request.submittedBy ?? 'coordinator',
       offeredAt: now,
       attempts: 0,
+      retryPolicy: resolveRetryPolicy(request.retry, this.config.retryPolicy),
+      dependsOn,
+      dependencyFailurePolicy: request.dependencyFailurePolicy,
+      ...overrides,
     };
+    const transition = applyTransition(
+      workItem,
+      blocked ? 'blocked' : 'pending',
+      COORDINATOR_ACTOR,
+      blocked ? 'Submitted; waiting for dependencies' : 'Submitted',
+      null
+    );
 
     this.workItems.set(id, workItem);
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
     return id;
   }
 
@@ -124,10 +237,18 @@ export class BaseCoordinator {
       return false;
     }
 
-    workItem.status = 'assigned';
+    // Not claimable until retry backoff has elapsed
+    if (workItem.notBefore && new Date(workItem.notBefore).getTime() > Date.now()) {
+      return false;
+    }
+
+    const transition = applyTransition(workItem, 'assigned', workerGuid, 'Claimed');
     workItem.assignedTo = workerGuid;
     workItem.assignedAt = new Date().toISOString();
+    workItem.leaseExpiresAt = this.nextLeaseExpiry();
     workItem.attempts += 1;
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
 
     return true;
   }
@@ -141,7 +262,10 @@ export class BaseCoordinator {
       return false;
     }
 
-    workItem.status = 'in-progress';
+    const transition = applyTransition(workItem, 'in-progress', workItem.assignedTo ?? COORDINATOR_ACTOR, 'Started');
+    workItem.leaseExpiresAt = this.nextLeaseExpiry();
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
     return true;
   }
 
@@ -155,11 +279,63 @@ export class BaseCoordinator {
     }
 
     workItem.progress = Math.min(100, Math.max(0, progress));
+    workItem.leaseExpiresAt = this.nextLeaseExpiry();
+    this.persist(workItem);
+    return true;
+  }
+
+  /**
+   * Renew the lease on assigned or in-progress work
+   * @returns The new lease expiry, or undefined if the item isn't assigned
+   */
+  renewLease(workItemId: string): string | undefined {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || (workItem.status !== 'assigned' && workItem.status !== 'in-progress')) {
+      return undefined;
+    }
+
+    workItem.leaseExpiresAt = this.nextLeaseExpiry();
+    this.persist(workItem);
+    return workItem.leaseExpiresAt;
+  }
+
+  /**
+   * Get assigned and in-progress work whose lease has run out
+   */
+  getExpiredLeases(now: number = Date.now()): CoordinatedWorkItem[] {
+    return Array.from(this.workItems.values()).filter(workItem =>
+      (workItem.status === 'assigned' || workItem.status === 'in-progress') &&
+      workItem.leaseExpiresAt !== undefined &&
+      new Date(workItem.leaseExpiresAt).getTime() <= now
+    );
+  }
+
+  private nextLeaseExpiry(): string {
+    return new Date(Date.now() + this.config.leaseDurationMs).toISOString();
+  }
+
+  /**
+   * Record a stored artifact on a work item, replacing one with the same name
+   */
+  recordArtifact(workItemId: string, artifact: WorkArtifact): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem) {
+      return false;
+    }
+
+    workItem.storedArtifacts = [
+      ...(workItem.storedArtifacts ?? []).filter(a => a.name !== artifact.name),
+      artifact,
+    ];
+    this.persist(workItem);
     return true;
   }
 
   /**
    * Record work completion
+   *
+   * Only assigned or in-progress work can complete; late reports for work
+   * that was cancelled or reclaimed in the meantime are rejected.
    */
   recordCompletion(
     workItemId: string,
@@ -167,61 +343,228 @@ export class BaseCoordinator {
     summary?: string
   ): boolean {
     const workItem = this.workItems.get(workItemId);
-    if (!workItem) {
+    if (!workItem || (workItem.status !== 'assigned' && workItem.status !== 'in-progress')) {
       return false;
     }
 
-    workItem.status = 'completed';
+    const transition = applyTransition(workItem, 'completed', workItem.assignedTo ?? COORDINATOR_ACTOR, summary);
     workItem.progress = 100;
+    workItem.leaseExpiresAt = undefined;
     workItem.result = {
       summary,
       output: result,
       completedAt: new Date().toISOString(),
     };
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
 
     return true;
   }
 
   /**
    * Record work error
+   *
+   * Recoverable errors return the item to `pending` with `notBefore` set to
+   * the backoff delay, until the retry policy's attempts are exhausted.
+   * Everything else marks the item `failed`. Work that has already
+   * finished can't fail.
+   *
+   * @param actor Who reported the error (default: the assigned agent, else the coordinator)
    */
   async recordError(
     workItemId: string,
     errorMessage: string,
-    recoverable: boolean
+    recoverable: boolean,
+    code?: string,
+    actor?: string
   ): Promise<boolean> {
     const workItem = this.workItems.get(workItemId);
-    if (!workItem) {
+    if (!workItem || FINISHED_STATUSES.includes(workItem.status)) {
       return false;
     }
 
-    workItem.status = 'failed';
-    workItem.error = {
+    const error: WorkItemError = {
       message: errorMessage,
+      ...(code && { code }),
       recoverable,
       occurredAt: new Date().toISOString(),
     };
+    workItem.error = error;
+    workItem.leaseExpiresAt = undefined;
+    workItem.errorHistory = [...(workItem.errorHistory ?? []), error];
+
+    const reporter = actor ?? workItem.assignedTo ?? COORDINATOR_ACTOR;
+    const policy = workItem.retryPolicy ?? this.config.retryPolicy;
+    let transition: WorkStatusTransition;
+    if (recoverable && workItem.attempts < policy.maxAttempts) {
+      const delayMs = computeRetryDelay(policy, workItem.attempts);
+      transition = applyTransition(workItem, 'pending', reporter, `${errorMessage} (retrying)`);
+      workItem.assignedTo = undefined;
+      workItem.assignedAt = undefined;
+      workItem.progress = undefined;
+      workItem.notBefore = new Date(Date.now() + delayMs).toISOString();
+    } else {
+      transition = applyTransition(workItem, 'failed', reporter, errorMessage);
+    }
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
+
+    return true;
+  }
+
+  /**
+   * Release blocked work once its dependencies have completed
+   */
+  releaseWork(workItemId: string): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || workItem.status !== 'blocked') {
+      return false;
+    }
+
+    const transition = applyTransition(workItem, 'pending', COORDINATOR_ACTOR, 'Dependencies completed');
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
+    return true;
+  }
+
+  /**
+   * Change the priority, deadline or context data of work that hasn't been claimed
+   *
+   * Only blocked, pending and paused work can be updated. Changing the
+   * priority or deadline drops any deadline escalation, so the effective
+   * priority is recomputed from the new values.
+   */
+  updateWork(workItemId: string, changes: WorkUpdateRequest): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || !UPDATABLE_STATUSES.includes(workItem.status)) {
+      return false;
+    }
+
+    if (changes.priority !== undefined) {
+      workItem.priority = changes.priority;
+      workItem.effectivePriority = undefined;
+    }
+    if (changes.deadline !== undefined) {
+      workItem.deadline = changes.deadline ?? undefined;
+      workItem.effectivePriority = undefined;
+    }
+    if (changes.contextData !== undefined) {
+      workItem.contextData = changes.contextData;
+    }
+    this.persist(workItem);
+    return true;
+  }
+
+  /**
+   * Hold pending work so it isn't dispatched or claimed until resumed
+   */
+  pauseWork(workItemId: string, reason?: string, actor: string = COORDINATOR_ACTOR): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || workItem.status !== 'pending') {
+      return false;
+    }
 
+    const transition = applyTransition(workItem, 'paused', actor, reason ?? 'Paused');
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
+    return true;
+  }
+
+  /**
+   * Return paused work to pending
+   */
+  resumeWork(workItemId: string, actor: string = COORDINATOR_ACTOR): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || workItem.status !== 'paused') {
+      return false;
+    }
+
+    const transition = applyTransition(workItem, 'pending', actor, 'Resumed');
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
     return true;
   }
 
   /**
    * Cancel work
    */
-  cancelWork(workItemId: string): boolean {
+  cancelWork(workItemId: string, reason?: string, actor: string = COORDINATOR_ACTOR): boolean {
     const workItem = this.workItems.get(workItemId);
     if (!workItem) {
       return false;
     }
 
-    if (workItem.status === 'completed' || workItem.status === 'failed') {
+    if (FINISHED_STATUSES.includes(workItem.status)) {
       return false;
     }
 
-    workItem.status = 'cancelled';
+    const transition = applyTransition(workItem, 'cancelled', actor, reason);
+    workItem.leaseExpiresAt = undefined;
+    if (reason) {
+      workItem.statusReason = reason;
+    }
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
     return true;
   }
 
+  /**
+   * Record that the assigned agent acknowledged cancellation of its work
+   */
+  recordCancelAcknowledged(workItemId: string): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || workItem.status !== 'cancelled') {
+      return false;
+    }
+
+    workItem.cancelAcknowledgedAt = new Date().toISOString();
+    this.persist(workItem);
+    return true;
+  }
+
+  /**
+   * Expire pending work whose deadline has passed
+   */
+  expireWork(workItemId: string, reason: string): boolean {
+    const workItem = this.workItems.get(workItemId);
+    if (!workItem || workItem.status !== 'pending') {
+      return false;
+    }
+
+    const transition = applyTransition(workItem, 'expired', COORDINATOR_ACTOR, reason);
+    workItem.statusReason = reason;
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
+    return true;
+  }
+
+  /**
+   * Return a work item to `pending` with its attempts reset
+   *
+   * Used to replay dead-lettered work. The item is re-created from the
+   * snapshot if it is no longer tracked; its error history is kept.
+   */
+  resetWork(snapshot: CoordinatedWorkItem): CoordinatedWorkItem {
+    const current = this.workItems.get(snapshot.id) ?? snapshot;
+    const workItem: CoordinatedWorkItem = {
+      ...current,
+      attempts: 0,
+      assignedTo: undefined,
+      assignedAt: undefined,
+      leaseExpiresAt: undefined,
+      progress: undefined,
+      error: undefined,
+      result: undefined,
+      notBefore: undefined,
+    };
+    const transition = applyTransition(workItem, 'pending', COORDINATOR_ACTOR, 'Replayed');
+
+    this.workItems.set(workItem.id, workItem);
+    this.persist(workItem);
+    this.onTransition?.(workItem, transition);
+    return workItem;
+  }
+
   /**
    * Get assignment status
    */
@@ -236,25 +579,14 @@ export class BaseCoordinator {
     const results: CoordinatedWorkItem[] = [];
 
     for (const workItem of this.workItems.values()) {
-      if (filter?.status && workItem.status !== filter.status) {
-        continue;
-      }
-      if (filter?.capability && workItem.capability !== filter.capability) {
-        continue;
-      }
-      if (filter?.assignedTo && workItem.assignedTo !== filter.assignedTo) {
+      if (filter && !matchesWorkFilter(workItem, filter)) {
         continue;
       }
       results.push(workItem);
     }
 
-    // Sort by priority (higher first), then by offered time (older first)
-    return results.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return b.priority - a.priority;
-      }
-      return new Date(a.offeredAt).getTime() - new Date(b.offeredAt).getTime();
-    });
+    // Sort by effective priority (higher first), then by offered time (older first)
+    return results.sort((a, b) => compareWorkItems(a, b));
   }
 
   /**
@@ -264,20 +596,73 @@ export class BaseCoordinator {
     return this.getAssignments({ status: 'pending', capability });
   }
 
+  /**
+   * Priority a work item has earned by waiting under the aging policy
+   *
+   * Work gains a level for every `intervalMs` it has been claimable (since
+   * it last became pending, or its `notBefore` if later), up to
+   * `maxPriority`. Work already above the cap keeps its priority.
+   */
+  agedPriority(workItem: CoordinatedWorkItem, now: number = Date.now()): Priority {
+    if (!this.aging || workItem.status !== 'pending' || this.aging.intervalMs <= 0) {
+      return workItem.priority;
+    }
+
+    const lastPending = [...(workItem.history ?? [])].reverse().find(t => t.to === 'pending');
+    const pendingSince = Math.max(
+      new Date(lastPending?.at ?? workItem.offeredAt).getTime(),
+      workItem.notBefore ? new Date(workItem.notBefore).getTime() : 0
+    );
+    const levels = Math.floor(Math.max(0, now - pendingSince) / this.aging.intervalMs);
+    const aged = Math.min(workItem.priority + levels, this.aging.maxPriority);
+    return Math.max(workItem.priority, aged) as Priority;
+  }
+
+  /**
+   * Raise the effective priority of pending work that has aged
+   *
+   * Aging never lowers an effective priority, e.g. one escalated for a deadline.
+   * @returns Number of work items raised
+   */
+  applyAging(now: number = Date.now()): number {
+    let raised = 0;
+    for (const workItem of this.workItems.values()) {
+      if (workItem.status !== 'pending') {
+        continue;
+      }
+      const aged = this.agedPriority(workItem, now);
+      if (aged > (workItem.effectivePriority ?? workItem.priority)) {
+        workItem.effectivePriority = aged;
+        this.persist(workItem);
+        raised++;
+      }
+    }
+    return raised;
+  }
+
   /**
    * Get statistics
    */
   getStats(): CoordinatorStats {
+    let blocked = 0;
     let pending = 0;
+    let paused = 0;
     let active = 0;
     let completed = 0;
     let failed = 0;
+    let expired = 0;
 
     for (const workItem of this.workItems.values()) {
       switch (workItem.status) {
+        case 'blocked':
+          blocked++;
+          break;
         case 'pending':
           pending++;
           break;
+        case 'paused':
+          paused++;
+          break;
         case 'assigned':
         case 'in-progress':
           active++;
@@ -289,55 +674,92 @@ export class BaseCoordinator {
         case 'cancelled':
           failed++;
           break;
+        case 'expired':
+          expired++;
+          break;
       }
     }
 
     return {
+      blocked,
       pending,
+      paused,
       active,
       completed,
       failed,
+      expired,
       total: this.workItems.size,
     };
   }
 
   /**
    * Clean up stale work items
+   *
+   * Assigned and in-progress work is not reclaimed here; that happens when
+   * its lease expires.
    */
   private cleanupStaleWork(): void {
     const now = Date.now();
     const staleThreshold = this.config.staleThresholdMs;
 
     for (const [id, workItem] of this.workItems) {
-      // Remove completed/failed work older than stale threshold
-      if (
-        workItem.status === 'completed' ||
-        workItem.status === 'failed' ||
-        workItem.status === 'cancelled'
-      ) {
-        const completedAt = workItem.result?.completedAt || workItem.error?.occurredAt;
-        if (completedAt) {
-          const age = now - new Date(completedAt).getTime();
-          if (age > staleThreshold * 2) {
-            // Keep completed work twice as long
-            this.workItems.delete(id);
-          }
-        }
+      // Remove finished work older than stale threshold (items without a history count from submission)
+      if (!FINISHED_STATUSES.includes(workItem.status)) {
+        continue;
       }
-
-      // Reset assigned work that's been stuck too long
-      if (workItem.status === 'assigned' && workItem.assignedAt) {
-        const age = now - new Date(workItem.assignedAt).getTime();
-        if (age > staleThreshold) {
-          // Reset to pending for re-assignment
-          workItem.status = 'pending';
-          workItem.assignedTo = undefined;
-          workItem.assignedAt = undefined;
-        }
+      const finished = finishedAt(workItem) ?? new Date(workItem.offeredAt).getTime();
+      if (now - finished > staleThreshold * 2) {
+        // Keep completed work twice as long
+        this.workItems.delete(id);
+        this.track(this.persistence?.remove(id));
+        this.onRemove?.(workItem);
       }
     }
   }
 
+  /**
+   * Persist the current state of a work item
+   *
+   * Call after modifying a work item obtained from `getWorkItem()`.
+   */
+  saveWorkItem(workItem: CoordinatedWorkItem): void {
+    this.workItems.set(workItem.id, workItem);
+    this.persist(workItem);
+  }
+
+  /**
+   * Wait for all outstanding persistence writes to settle
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pendingWrites));
+  }
+
+  /**
+   * Write a work item through to persistence (fire-and-forget)
+   */
+  private persist(workItem: CoordinatedWorkItem): void {
+    this.track(this.persistence?.save(workItem));
+  }
+
+  /**
+   * Track an outstanding persistence write so failures are logged and
+   * shutdown can wait for it
+   */
+  private track(write: Promise<void> | undefined): void {
+    if (!write) {
+      return;
+    }
+
+    const tracked = write
+      .catch((error) => {
+        console.error('Work item persistence error:', error);
+      })
+      .finally(() => {
+        this.pendingWrites.delete(tracked);
+      });
+    this.pendingWrites.add(tracked);
+  }
+
   /**
    * Shutdown the coordinator
    */
@@ -346,5 +768,9 @@ export class BaseCoordinator {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = undefined;
     }
+    if (this.agingInterval) {
+      clearInterval(this.agingInterval);
+      this.agingInterval = undefined;
+    }
   }
 }
@@ -9,20 +9,53 @@
  */
 
 import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
 import type {
   Boundary,
   AgentType,
+  CoordinatedWorkItem,
   RegisteredAgent,
+  EligibilityResult,
+  WorkGraph,
   WorkSubmitResponse,
+  WorkBatchItemResult,
+  WorkBatchSubmitResponse,
+  WorkBatchStatus,
+  WorkArtifact,
+  WorkHistory,
+  WorkUpdateRequest,
+  WorkQuery,
+  WorkQueryResult,
+  RoutingCandidate,
+  RoutingDecision,
+  RoutingExplanation,
 } from '@loom/shared';
 import { BaseCoordinator, type BaseCoordinatorConfig, type WorkRequest } from './base-coordinator.js';
 import {
   listRegistryEntries,
+  getRegistryEntry,
   isVisibleTo,
   toRegisteredAgent,
   type Requester,
 } from './registry.js';
+import { evaluateDependencies, buildWorkGraph } from './dependencies.js';
+import { DeadlineSupervisor, type DeadlineSupervisorConfig, type DeadlineEvent } from './deadlines.js';
+import { IdempotencyCache, type IdempotencyCacheConfig } from './idempotency.js';
+import { buildWorkHistory, COORDINATOR_ACTOR } from './history.js';
+import { paginateWork } from './work-query.js';
+import { FairShareScheduler, type FairShareSchedulerConfig, type FairShareStats } from './fair-share.js';
+import type { AgentInbox } from './agent-inbox.js';
 import { RoutingEngine, type RoutingEngineConfig } from '../routing/engine.js';
+import type { RoutedWork } from '../routing/policy.js';
+import {
+  meetsRequirements,
+  missingCapability,
+  requirementsKey,
+  sortByPreference,
+  validateCapabilityRequirements,
+  type CapabilityRequirements,
+} from '../routing/capabilities.js';
+import type { AgentTypeRegistry } from '../agent-types/index.js';
 
 export interface ExtendedCoordinatorConfig extends BaseCoordinatorConfig {
   /** Coordinator's own GUID for visibility checks */
@@ -36,6 +69,33 @@ export interface ExtendedCoordinatorConfig extends BaseCoordinatorConfig {
 
   /** Routing engine configuration */
   routing?: RoutingEngineConfig;
+
+  /** Deadline enforcement configuration */
+  deadlines?: DeadlineSupervisorConfig;
+
+  /** Duplicate submission handling */
+  idempotency?: IdempotencyCacheConfig;
+
+  /** How often to check for expired leases in milliseconds (default: 15000 = 15 seconds) */
+  leaseCheckIntervalMs?: number;
+
+  /** Agent inbox for push dispatch and cancellation notices (required by dispatchWork) */
+  inbox?: AgentInbox;
+
+  /** How long an agent has to answer a work offer or cancellation notice in milliseconds (default: 10000 = 10 seconds) */
+  offerTimeoutMs?: number;
+
+  /** How long to wait before re-offering work no agent accepted in milliseconds (default: 30000 = 30 seconds) */
+  redispatchDelayMs?: number;
+
+  /** Most work items per capability queued or on offer but not yet claimed; more wait their fair-share turn (default: 10, 0 = no limit) */
+  dispatchWindow?: number;
+
+  /** Weights for sharing pending work across boundaries and submitters */
+  fairShare?: FairShareSchedulerConfig;
+
+  /** Agent types submissions may name and workers must have (default: any) */
+  agentTypes?: Pick<AgentTypeRegistry, 'assertKnown' | 'has'>;
 }
 
 export interface ClassifiedWorkRequest extends WorkRequest {
@@ -47,6 +107,38 @@ export interface ClassifiedWorkRequest extends WorkRequest {
 
   /** Required agent type (overrides all routing logic) */
   requiredAgentType?: AgentType;
+
+  /** Key identifying retries of the same submission */
+  idempotencyKey?: string;
+}
+
+/** Most submissions accepted in one batch */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Thrown when a routing rule refuses a submission
+ */
+export class WorkRejectedError extends Error {
+  constructor(
+    message: string,
+    public ruleId?: string,
+  ) {
+    super(message);
+    this.name = 'WorkRejectedError';
+  }
+}
+
+/**
+ * Routing state shared by the submissions in a batch
+ */
+interface BatchContext {
+  batchId: string;
+
+  /** Workers found per set of capability requirements and boundary */
+  workers: Map<string, RegisteredAgent[]>;
+
+  /** Spin-ups already triggered per agent type, capability requirements and boundary */
+  spinUps: Set<string>;
 }
 
 /**
@@ -59,9 +151,18 @@ export interface SpinUpTriggerEvent {
   /** Required capability */
   capability: string;
 
+  /** Further capabilities the target must have */
+  requiredCapabilities?: string[];
+
+  /** Capabilities that rank targets having them first */
+  preferredCapabilities?: string[];
+
   /** Work classification */
   boundary: Boundary;
 
+  /** Tags the target must carry (set by a routing rule) */
+  targetTags?: string[];
+
   /** Work item ID that triggered the spin-up */
   workItemId: string;
 
@@ -76,32 +177,104 @@ export interface WorkStateChangeEvent {
   /** Work item ID */
   workItemId: string;
 
-  /** Previous status */
-  previousStatus: string;
+  /** Previous status (null when the item was submitted) */
+  previousStatus: string | null;
 
   /** New status */
   newStatus: string;
 
+  /** Who made the change: an agent GUID, or 'coordinator' */
+  actor: string;
+
+  /** Why the status changed */
+  reason?: string;
+
   /** Timestamp */
   timestamp: string;
 }
 
+/**
+ * Say why an agent type may not take a work item
+ *
+ * Work may require one agent type itself, and a routing rule may permit
+ * only some types.
+ *
+ * @returns The reason, or undefined if the agent type may take the work
+ */
+function agentTypeRestriction(
+  workItem: Pick<CoordinatedWorkItem, 'requiredAgentType' | 'permittedAgentTypes'>,
+  agentType: AgentType
+): string | undefined {
+  if (workItem.requiredAgentType && agentType !== workItem.requiredAgentType) {
+    return `Work requires agent type '${workItem.requiredAgentType}'`;
+  }
+  if (workItem.permittedAgentTypes?.length && !workItem.permittedAgentTypes.includes(agentType)) {
+    return `Routing rule only permits agent types ${workItem.permittedAgentTypes.map(t => `'${t}'`).join(', ')}`;
+  }
+  return undefined;
+}
+
+/**
+ * The parts of a submission routing rules match on
+ */
+function toRoutedWork(
+  request: Pick<ClassifiedWorkRequest, 'capability' | 'priority' | 'contextData' | 'submittedBy' | 'requiredAgentType'>
+): RoutedWork {
+  return {
+    capability: request.capability,
+    priority: request.priority,
+    contextData: request.contextData,
+    submittedBy: request.submittedBy,
+    requiredAgentType: request.requiredAgentType,
+  };
+}
+
 /**
  * Extended coordinator with classification-aware routing
  *
  * Events:
  * - 'spin-up-trigger': Emitted when no agents available (SpinUpTriggerEvent)
  * - 'work-submitted': Emitted when work is submitted (workItemId: string)
+ * - 'work-state-changed': Emitted on every status change (WorkStateChangeEvent)
+ * - 'work-released': Emitted when blocked work's dependencies have completed (workItemId: string)
+ * - 'work-ready': Emitted when claimable work should be dispatched, in fair-share order once the dispatch window is full (workItemId: string)
+ * - 'work-offered': Emitted when work is offered to an agent's inbox (workItemId: string, agentGuid: string)
+ * - 'work-offer-rejected': Emitted when an agent rejects or doesn't answer an offer (workItemId: string, agentGuid: string, reason: string)
+ * - 'work-undispatched': Emitted when no agent accepted offered work; it is offered again later (workItemId: string)
  * - 'work-assigned': Emitted when work is assigned (workItemId: string, agentGuid: string)
+ * - 'work-started': Emitted when the assigned agent starts work (workItemId: string)
+ * - 'work-progress': Emitted when the assigned agent reports progress (workItemId: string, progress: number)
+ * - 'work-artifact': Emitted when an artifact is stored for a work item (workItemId: string, artifact: WorkArtifact)
  * - 'work-completed': Emitted when work completes (workItemId: string)
- * - 'work-failed': Emitted when work fails (workItemId: string, error: string)
+ * - 'work-lease-expired': Emitted when an agent's lease on assigned work runs out (workItemId: string, agentGuid: string)
+ * - 'work-retry-scheduled': Emitted when a recoverable failure will be retried (workItemId: string, notBefore: string)
+ * - 'work-failed': Emitted when work fails for good (workItemId: string, error: string)
+ * - 'work-updated': Emitted when unclaimed work's priority, deadline or context data changes (workItemId: string)
+ * - 'work-paused': Emitted when pending work is paused (workItemId: string)
+ * - 'work-resumed': Emitted when paused work is resumed (workItemId: string)
  * - 'work-cancelled': Emitted when work is cancelled (workItemId: string)
- * - 'routing-decision': Emitted after routing decision (RoutingDecision)
+ * - 'work-cancel-acknowledged': Emitted when the assigned agent acknowledges cancellation (workItemId: string, agentGuid: string)
+ * - 'work-cancel-unacknowledged': Emitted when the assigned agent doesn't acknowledge cancellation (workItemId: string, agentGuid: string, reason: string)
+ * - 'work-replayed': Emitted when dead-lettered work is replayed (workItemId: string)
+ * - 'work-deadline-approaching': Emitted when pending work nears its deadline and gains priority (DeadlineEvent)
+ * - 'work-deadline-missed': Emitted when assigned or in-progress work passes its deadline (DeadlineEvent)
+ * - 'work-expired': Emitted when pending work expires because its deadline passed (DeadlineEvent)
+ * - 'work-removed': Emitted when cleanup drops a finished work item (workItemId: string)
+ * - 'routing-decision': Emitted after routing decision, including rejections by a routing rule (RoutingDecision)
  */
 export class ExtendedCoordinator extends EventEmitter {
   private baseCoordinator: BaseCoordinator;
   private routingEngine: RoutingEngine;
+  private deadlineSupervisor: DeadlineSupervisor;
+  private idempotencyCache: IdempotencyCache;
+  private fairShare: FairShareScheduler;
   private config: ExtendedCoordinatorConfig;
+  private readyTimers: Map<string, NodeJS.Timeout> = new Map();
+  private leaseCheckInterval: NodeJS.Timeout | null = null;
+  private dispatching: Set<string> = new Set();
+  private held: Set<string> = new Set();
+  private released: Map<string, number> = new Map();
+  private unknownAgentTypes: Set<AgentType> = new Set();
 
   constructor(config: ExtendedCoordinatorConfig) {
     super();
@@ -109,8 +282,92 @@ export class ExtendedCoordinator extends EventEmitter {
     this.baseCoordinator = new BaseCoordinator({
       staleThresholdMs: config.staleThresholdMs,
       cleanupIntervalMs: config.cleanupIntervalMs,
+      persistence: config.persistence,
+      retryPolicy: config.retryPolicy,
+      leaseDurationMs: config.leaseDurationMs,
+      aging: config.aging,
+      onRemove: (workItem) => this.emit('work-removed', workItem.id),
+      onTransition: (workItem, transition) => {
+        const event: WorkStateChangeEvent = {
+          workItemId: workItem.id,
+          previousStatus: transition.from,
+          newStatus: transition.to,
+          actor: transition.actor,
+          reason: transition.reason,
+          timestamp: transition.at,
+        };
+        this.emit('work-state-changed', event);
+
+        if (transition.from === 'pending' && transition.to !== 'pending') {
+          if (transition.to === 'assigned') {
+            this.fairShare.recordDispatch(workItem);
+          }
+          this.held.delete(workItem.id);
+          if (this.released.delete(workItem.id)) {
+            this.releaseReady(workItem.capability);
+          }
+        }
+      },
     });
     this.routingEngine = new RoutingEngine(config.routing);
+    this.idempotencyCache = new IdempotencyCache(config.idempotency);
+    this.fairShare = new FairShareScheduler(config.fairShare);
+
+    this.deadlineSupervisor = new DeadlineSupervisor(this.baseCoordinator, config.deadlines);
+    this.deadlineSupervisor.on('approaching', (event: DeadlineEvent) => {
+      this.emit('work-deadline-approaching', event);
+    });
+    this.deadlineSupervisor.on('missed', (event: DeadlineEvent) => {
+      this.emit('work-deadline-missed', event);
+    });
+    this.deadlineSupervisor.on('expired', (event: DeadlineEvent) => {
+      this.clearReadyTimer(event.workItemId);
+      this.emit('work-expired', event);
+      this.settleDependents(event.workItemId);
+    });
+  }
+
+  /**
+   * Restore persisted work items
+   *
+   * Settling restored work emits events (`work-ready`, `spin-up-trigger`,
+   * `work-failed`, deadline events), so attach listeners before calling this.
+   *
+   * @returns Number of work items restored
+   */
+  async initialize(): Promise<number> {
+    const restored = await this.baseCoordinator.restore();
+
+    // Re-arm dispatch for work that was waiting out a delay when we stopped
+    for (const workItem of this.baseCoordinator.getAssignments({ status: 'pending' })) {
+      if (workItem.notBefore) {
+        // Delayed submissions (no attempts yet) still owe their spin-up
+        this.scheduleReady(workItem.id, workItem.notBefore, workItem.attempts === 0);
+      }
+    }
+
+    // Dispatch the rest of the pending work again (some may not have been queued before we stopped)
+    for (const workItem of this.baseCoordinator.getAssignments({ status: 'pending' })) {
+      if (!workItem.notBefore || new Date(workItem.notBefore).getTime() <= Date.now()) {
+        this.markReady(workItem.id);
+      }
+    }
+
+    // Settle blocked work whose dependencies finished or disappeared while we were down
+    for (const workItem of this.baseCoordinator.getAssignments({ status: 'blocked' })) {
+      this.resolveDependencies(workItem.id);
+    }
+
+    this.deadlineSupervisor.start();
+
+    this.leaseCheckInterval = setInterval(() => {
+      this.checkLeases().catch((error) => {
+        console.error('Lease check error:', error);
+      });
+      this.releaseAllReady();
+    }, this.config.leaseCheckIntervalMs ?? 15000);
+
+    return restored;
   }
 
   /**
@@ -137,19 +394,24 @@ export class ExtendedCoordinator extends EventEmitter {
   }
 
   /**
-   * Find workers for a capability with classification filtering
+   * Find workers for a capability (or set of capability requirements) with classification filtering
+   *
+   * With a classification, only eligible agents the routing engine's scorer
+   * ranks (by default, those with a free task slot) are returned, best first.
+   * Agents having more of the preferred capabilities come before the others.
    */
   async findWorkers(
-    capability: string,
+    capability: string | CapabilityRequirements,
     classification?: Boundary
   ): Promise<RegisteredAgent[]> {
+    const requirements = typeof capability === 'string' ? { capability } : capability;
     const requester = this.getRequester();
     const allEntries = await listRegistryEntries();
 
     const workers = allEntries
       .filter(entry => {
-        // Must have the required capability
-        if (!entry.capabilities.includes(capability)) {
+        // Must have every required capability
+        if (!meetsRequirements(entry.capabilities, requirements)) {
           return false;
         }
 
@@ -163,6 +425,11 @@ export class ExtendedCoordinator extends EventEmitter {
           return false;
         }
 
+        // Must be of an agent type the project defines
+        if (!this.isKnownAgentType(toRegisteredAgent(entry).agentType)) {
+          return false;
+        }
+
         // Don't assign to self
         if (entry.guid === this.config.coordinatorGuid) {
           return false;
@@ -172,76 +439,408 @@ export class ExtendedCoordinator extends EventEmitter {
       })
       .map(entry => toRegisteredAgent(entry));
 
-    // Apply classification filtering if specified
+    // Apply classification filtering and ranking if specified
     if (classification) {
-      return this.routingEngine.filterEligible(workers, classification);
+      const eligible = this.routingEngine.filterEligible(workers, classification);
+      const byGuid = new Map(eligible.map(agent => [agent.guid, agent]));
+      const ranked = this.routingEngine.rankAgents(eligible).map(score => byGuid.get(score.agentGuid)!);
+      return sortByPreference(ranked, requirements);
     }
 
-    return workers;
+    return sortByPreference(workers, requirements);
   }
 
   /**
    * Submit classified work with routing
    *
+   * Resubmissions with the same idempotency key (or taskId, if configured)
+   * within the idempotency window return the original response marked as a
+   * duplicate instead of creating another work item.
+   *
    * @param request Classified work request
    * @returns Work submission response
    */
   async submitClassifiedWork(request: ClassifiedWorkRequest): Promise<WorkSubmitResponse> {
-    const now = new Date().toISOString();
+    return this.submitOnce(request);
+  }
 
-    // Determine target agent type
-    let targetAgentType: AgentType;
-    let routingDecision;
+  /**
+   * Submit a batch of classified work
+   *
+   * Every submission is checked before any is submitted, so an invalid
+   * batch creates no work. Worker lookups are shared across the batch and
+   * at most one spin-up is triggered per agent type, capability and boundary.
+   *
+   * @param requests Classified work requests
+   * @returns Batch ID and per-submission results, in request order
+   * @throws Error naming the first invalid submission
+   */
+  async submitBatch(requests: ClassifiedWorkRequest[]): Promise<WorkBatchSubmitResponse> {
+    if (requests.length === 0) {
+      throw new Error('Batch must contain at least one submission');
+    }
+    if (requests.length > MAX_BATCH_SIZE) {
+      throw new Error(`Batch exceeds ${MAX_BATCH_SIZE} submissions`);
+    }
+    requests.forEach((request, index) => {
+      if (!request.taskId || !request.description || !request.capability || !request.boundary) {
+        throw new Error(`Item ${index}: taskId, description, capability and boundary are required`);
+      }
+      try {
+        validateCapabilityRequirements(request);
+        this.checkAgentTypes(request);
+      } catch (error) {
+        throw new Error(`Item ${index}: ${(error as Error).message}`);
+      }
+      for (const dependencyId of request.dependsOn ?? []) {
+        if (!this.baseCoordinator.getWorkItem(dependencyId)) {
+          throw new Error(`Item ${index}: Unknown dependency: ${dependencyId}`);
+        }
+      }
+    });
 
-    if (request.requiredAgentType) {
-      // Required type overrides all routing
-      targetAgentType = request.requiredAgentType;
-      routingDecision = {
-        boundary: request.boundary,
-        targetAgentType,
-        isFallback: false,
-        consideredTypes: [targetAgentType],
-        reason: 'Required agent type specified',
+    const batch: BatchContext = { batchId: uuidv4(), workers: new Map(), spinUps: new Set() };
+    const results: WorkBatchItemResult[] = [];
+
+    for (const [index, request] of requests.entries()) {
+      try {
+        const result = await this.submitOnce(request, batch);
+        results.push({ index, taskId: request.taskId, result });
+      } catch (error) {
+        results.push({ index, taskId: request.taskId, error: (error as Error).message });
+      }
+    }
+
+    const failed = results.filter(r => r.error !== undefined).length;
+    return {
+      batchId: batch.batchId,
+      submitted: results.length - failed,
+      failed,
+      results,
+    };
+  }
+
+  /**
+   * Get counts by status for the work items in a batch
+   * @returns The batch status, or undefined if no work items belong to the batch
+   */
+  getBatchStatus(batchId: string): WorkBatchStatus | undefined {
+    const workItems = this.baseCoordinator.getAssignments({ batchId });
+    if (workItems.length === 0) {
+      return undefined;
+    }
+
+    const counts: WorkBatchStatus['counts'] = {};
+    for (const workItem of workItems) {
+      counts[workItem.status] = (counts[workItem.status] ?? 0) + 1;
+    }
+
+    return {
+      batchId,
+      total: workItems.length,
+      counts,
+      workItemIds: workItems.map(w => w.id),
+    };
+  }
+
+  /**
+   * Cancel every open work item in a batch
+   * @returns IDs of the cancelled work items, or undefined if no work items belong to the batch
+   */
+  cancelBatch(batchId: string, reason?: string): string[] | undefined {
+    const workItems = this.baseCoordinator.getAssignments({ batchId });
+    if (workItems.length === 0) {
+      return undefined;
+    }
+
+    const cancelled: string[] = [];
+    for (const workItem of workItems) {
+      // Dependents may already have been cancelled by an earlier cascade
+      if (this.cancelWork(workItem.id, reason)) {
+        cancelled.push(workItem.id);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Submit work unless it repeats an earlier submission's idempotency key
+   */
+  private async submitOnce(request: ClassifiedWorkRequest, batch?: BatchContext): Promise<WorkSubmitResponse> {
+    const key = this.idempotencyCache.keyFor(request);
+    if (!key) {
+      return this.submitNewWork(request, batch);
+    }
+
+    const original = this.idempotencyCache.get(key);
+    if (original) {
+      return { ...(await original), duplicate: true };
+    }
+
+    const response = this.submitNewWork(request, batch);
+    this.idempotencyCache.set(key, response);
+    return response;
+  }
+
+  /**
+   * Check whether workers of an agent type may get work, warning once about each unknown type
+   */
+  private isKnownAgentType(agentType: AgentType): boolean {
+    if (!this.config.agentTypes || this.config.agentTypes.has(agentType)) {
+      return true;
+    }
+    if (!this.unknownAgentTypes.has(agentType)) {
+      this.unknownAgentTypes.add(agentType);
+      console.warn(`Ignoring agents of unknown type '${agentType}' in project ${this.config.projectId}`);
+    }
+    return false;
+  }
+
+  /**
+   * Make sure the agent types a submission names are defined
+   * @throws Error naming the unknown agent type
+   */
+  private checkAgentTypes(request: ClassifiedWorkRequest): void {
+    if (request.preferredAgentType !== undefined) {
+      this.config.agentTypes?.assertKnown(request.preferredAgentType, 'preferredAgentType');
+    }
+    if (request.requiredAgentType !== undefined) {
+      this.config.agentTypes?.assertKnown(request.requiredAgentType, 'requiredAgentType');
+    }
+  }
+
+  /**
+   * Find workers for a submission, reusing lookups made earlier in the batch
+   */
+  private async findWorkersFor(request: ClassifiedWorkRequest, batch?: BatchContext): Promise<RegisteredAgent[]> {
+    if (!batch) {
+      return this.findWorkers(request, request.boundary);
+    }
+
+    const key = `${requirementsKey(request)}|${request.boundary}`;
+    let workers = batch.workers.get(key);
+    if (!workers) {
+      workers = await this.findWorkers(request, request.boundary);
+      batch.workers.set(key, workers);
+    }
+    return workers;
+  }
+
+  /**
+   * Choose the agent type for a submission
+   *
+   * Routing rules come first, then a required type, then boundary
+   * preferences; a preferred type wins if one of its agents is available.
+   *
+   * @param eligibleWorkers Agents that could take the work (see findWorkers)
+   * @returns The routing decision, and the workers of the chosen type
+   */
+  private routeWork(
+    request: ClassifiedWorkRequest,
+    eligibleWorkers: RegisteredAgent[]
+  ): { routingDecision: RoutingDecision; targetWorkers: RegisteredAgent[] } {
+    const availableTypes = Array.from(new Set(eligibleWorkers.map(w => w.agentType)));
+
+    const routingDecision = this.routingEngine.resolveAgentType(
+      request.boundary,
+      availableTypes.length > 0 ? availableTypes : undefined,
+      toRoutedWork(request)
+    );
+    if (routingDecision.rejected) {
+      return { routingDecision, targetWorkers: [] };
+    }
+
+    // Apply preferred type if specified and available
+    if (
+      !request.requiredAgentType &&
+      request.preferredAgentType &&
+      routingDecision.consideredTypes.includes(request.preferredAgentType)
+    ) {
+      routingDecision.targetAgentType = request.preferredAgentType;
+      routingDecision.reason = 'User-specified preferred type (available)';
+    }
+
+    // Find eligible workers for the target agent type
+    const targetWorkers = eligibleWorkers.filter(w => w.agentType === routingDecision.targetAgentType);
+    routingDecision.rankedAgents = this.routingEngine.rankAgents(targetWorkers);
+
+    return { routingDecision, targetWorkers };
+  }
+
+  /**
+   * Work out how a submission would be routed, without submitting it
+   *
+   * Lists every registered agent with the reason it could or couldn't take
+   * the work, and whether a spin-up would be triggered. The spin-up target
+   * itself is left to the caller, which owns the target registry.
+   *
+   * @throws Error if the submission names unknown agent types, invalid capabilities or unknown dependencies
+   */
+  async explainRouting(request: ClassifiedWorkRequest): Promise<RoutingExplanation> {
+    validateCapabilityRequirements(request);
+    this.checkAgentTypes(request);
+    for (const dependencyId of request.dependsOn ?? []) {
+      if (!this.baseCoordinator.getWorkItem(dependencyId)) {
+        throw new Error(`Unknown dependency: ${dependencyId}`);
+      }
+    }
+
+    const eligibleWorkers = await this.findWorkers(request, request.boundary);
+    const { routingDecision, targetWorkers } = this.routeWork(request, eligibleWorkers);
+
+    const requester = this.getRequester();
+    const entries = (await listRegistryEntries()).filter(
+      entry => isVisibleTo(entry, requester) && entry.guid !== this.config.coordinatorGuid
+    );
+    const scores = new Map((routingDecision.rankedAgents ?? []).map(score => [score.agentGuid, score]));
+    const candidates: RoutingCandidate[] = entries.map(entry => {
+      const agent = toRegisteredAgent(entry);
+      const score = scores.get(agent.guid);
+      const reason = score ? undefined : this.explainIneligibility(agent, request, routingDecision);
+      return {
+        guid: agent.guid,
+        handle: agent.handle,
+        agentType: agent.agentType,
+        status: agent.status,
+        eligible: reason === undefined,
+        reason,
+        score,
       };
-    } else {
-      // Find available workers
-      const workers = await this.findWorkers(request.capability, request.boundary);
-      const availableTypes = Array.from(new Set(workers.map(w => w.agentType)));
-
-      // Use routing engine
-      routingDecision = this.routingEngine.resolveAgentType(
-        request.boundary,
-        availableTypes.length > 0 ? availableTypes : undefined
-      );
-
-      // Apply preferred type if specified and available
-      if (request.preferredAgentType && routingDecision.consideredTypes.includes(request.preferredAgentType)) {
-        targetAgentType = request.preferredAgentType;
-        routingDecision.targetAgentType = targetAgentType;
-        routingDecision.reason = 'User-specified preferred type (available)';
-      } else {
-        targetAgentType = routingDecision.targetAgentType;
+    });
+    candidates.sort(
+      (a, b) => Number(b.eligible) - Number(a.eligible) || (b.score?.score ?? 0) - (a.score?.score ?? 0)
+    );
+
+    return {
+      decision: routingDecision,
+      candidates,
+      spinUp: this.explainSpinUp(request, routingDecision, targetWorkers),
+    };
+  }
+
+  /**
+   * Say why an agent would not be handed a submission
+   */
+  private explainIneligibility(
+    agent: RegisteredAgent,
+    request: ClassifiedWorkRequest,
+    routingDecision: RoutingDecision
+  ): string {
+    if (!this.isKnownAgentType(agent.agentType)) {
+      return `Agent type '${agent.agentType}' is not defined for this project`;
+    }
+    const missing = missingCapability(agent.capabilities, request);
+    if (missing) {
+      return `Agent lacks capability '${missing}'`;
+    }
+    const restriction = agentTypeRestriction(
+      { requiredAgentType: request.requiredAgentType, permittedAgentTypes: routingDecision.permittedAgentTypes },
+      agent.agentType
+    );
+    if (restriction) {
+      return restriction;
+    }
+    const eligibility = this.routingEngine.isEligible(agent, request.boundary);
+    if (!eligibility.eligible) {
+      return eligibility.reason ?? 'Agent is not eligible';
+    }
+    if (routingDecision.rejected) {
+      return 'Work is rejected';
+    }
+    if (agent.agentType !== routingDecision.targetAgentType) {
+      return `Routing chose agent type '${routingDecision.targetAgentType}'`;
+    }
+    return 'Agent has no free task slot';
+  }
+
+  /**
+   * Say whether submitting work would trigger a spin-up, and why
+   */
+  private explainSpinUp(
+    request: ClassifiedWorkRequest,
+    routingDecision: RoutingDecision,
+    targetWorkers: RegisteredAgent[]
+  ): RoutingExplanation['spinUp'] {
+    const work = toRoutedWork(request);
+
+    if (routingDecision.rejected) {
+      return { triggered: false, reason: 'Work is rejected' };
+    }
+    if (targetWorkers.length > 0) {
+      return {
+        triggered: false,
+        reason: `${targetWorkers.length} eligible ${routingDecision.targetAgentType} agent(s) available`,
+      };
+    }
+    if ((request.dependsOn ?? []).some(id => this.baseCoordinator.getWorkItem(id)?.status !== 'completed')) {
+      return { triggered: false, reason: 'Spin-up waits until the dependencies complete' };
+    }
+    if (request.notBefore !== undefined && new Date(request.notBefore).getTime() > Date.now()) {
+      return { triggered: false, reason: `Spin-up waits until ${request.notBefore}` };
+    }
+    if (!this.routingEngine.shouldTriggerSpinUp(request.boundary, work)) {
+      const rule = this.routingEngine.matchRule(request.boundary, work);
+      return {
+        triggered: false,
+        reason: rule?.action.forbidSpinUp
+          ? `Routing rule '${rule.name}' forbids spin-up`
+          : `Boundary '${request.boundary}' does not trigger spin-up`,
+      };
+    }
+    return { triggered: true, reason: `No eligible ${routingDecision.targetAgentType} agents available` };
+  }
+
+  /**
+   * Route and submit a new work item
+   */
+  private async submitNewWork(request: ClassifiedWorkRequest, batch?: BatchContext): Promise<WorkSubmitResponse> {
+    const now = new Date().toISOString();
+
+    validateCapabilityRequirements(request);
+    this.checkAgentTypes(request);
+
+    // Dependencies must already be known to this coordinator
+    for (const dependencyId of request.dependsOn ?? []) {
+      if (!this.baseCoordinator.getWorkItem(dependencyId)) {
+        throw new Error(`Unknown dependency: ${dependencyId}`);
       }
     }
+    const blocked = (request.dependsOn ?? []).some(
+      dependencyId => this.baseCoordinator.getWorkItem(dependencyId)?.status !== 'completed'
+    );
+    const delayed = request.notBefore !== undefined && new Date(request.notBefore).getTime() > Date.now();
+
+    // Find available workers and choose an agent type
+    const eligibleWorkers = await this.findWorkersFor(request, batch);
+    const work = toRoutedWork(request);
+    const { routingDecision, targetWorkers } = this.routeWork(request, eligibleWorkers);
+    if (routingDecision.rejected) {
+      this.emit('routing-decision', routingDecision);
+      throw new WorkRejectedError(routingDecision.reason, routingDecision.ruleId);
+    }
+    const targetAgentType = routingDecision.targetAgentType;
 
     // Emit routing decision
     this.emit('routing-decision', routingDecision);
 
-    // Find eligible workers for the target agent type
-    const eligibleWorkers = await this.findWorkers(request.capability, request.boundary);
-    const targetWorkers = eligibleWorkers.filter(w => w.agentType === targetAgentType);
-
     let spinUpTriggered = false;
 
-    // Trigger spin-up if no eligible workers
-    if (targetWorkers.length === 0) {
-      const shouldSpinUp = this.routingEngine.shouldTriggerSpinUp(request.boundary);
+    // An earlier submission in the batch may already have spun up a matching agent
+    const spinUpKey = `${targetAgentType}|${requirementsKey(request)}|${request.boundary}`;
+    const spinUpPending = batch?.spinUps.has(spinUpKey) ?? false;
+
+    // Trigger spin-up if no eligible workers (blocked and delayed work spins up when dispatched)
+    if (targetWorkers.length === 0 && !blocked && !delayed && !spinUpPending) {
+      const shouldSpinUp = this.routingEngine.shouldTriggerSpinUp(request.boundary, work);
 
       if (shouldSpinUp) {
         const spinUpEvent: SpinUpTriggerEvent = {
           agentType: targetAgentType,
           capability: request.capability,
+          requiredCapabilities: request.requiredCapabilities,
+          preferredCapabilities: request.preferredCapabilities,
           boundary: request.boundary,
+          targetTags: routingDecision.targetTags,
           workItemId: '', // Will be set after work is submitted
           timestamp: now,
         };
@@ -249,29 +848,40 @@ export class ExtendedCoordinator extends EventEmitter {
         // Emit spin-up trigger event (don't implement spin-up here)
         this.emit('spin-up-trigger', spinUpEvent);
         spinUpTriggered = true;
+        batch?.spinUps.add(spinUpKey);
       }
     }
 
-    // Submit work via base coordinator
-    const workItemId = this.baseCoordinator.submitWork(request);
-
-    // Update the work item with classification
-    const workItem = this.baseCoordinator.getWorkItem(workItemId);
-    if (workItem) {
-      workItem.boundary = request.boundary;
-      workItem.preferredAgentType = request.preferredAgentType;
-      workItem.requiredAgentType = request.requiredAgentType;
-    }
+    // Submit work via base coordinator with classification
+    const workItemId = this.baseCoordinator.submitWork(request, {
+      boundary: request.boundary,
+      preferredAgentType: request.preferredAgentType,
+      requiredAgentType: request.requiredAgentType,
+      permittedAgentTypes: routingDecision.permittedAgentTypes,
+      targetAgentType,
+      ...(batch && { batchId: batch.batchId }),
+    });
 
     // Emit work submitted event
     this.emit('work-submitted', workItemId);
+    if (blocked) {
+      // A dependency may already have failed
+      this.resolveDependencies(workItemId);
+    } else if (delayed) {
+      this.scheduleReady(workItemId, request.notBefore!, true);
+    } else {
+      this.markReady(workItemId);
+    }
 
     // Update spin-up event with work item ID if triggered
     if (spinUpTriggered) {
       const spinUpEvent: SpinUpTriggerEvent = {
         agentType: targetAgentType,
         capability: request.capability,
+        requiredCapabilities: request.requiredCapabilities,
+        preferredCapabilities: request.preferredCapabilities,
         boundary: request.boundary,
+        targetTags: routingDecision.targetTags,
         workItemId,
         timestamp: now,
       };
@@ -280,8 +890,12 @@ export class ExtendedCoordinator extends EventEmitter {
 
     // Estimate wait time based on available workers
     let estimatedWaitSeconds: number | undefined;
-    if (targetWorkers.length === 0) {
-      estimatedWaitSeconds = spinUpTriggered ? 30 : undefined; // Estimate 30s for spin-up
+    if (blocked) {
+      estimatedWaitSeconds = undefined; // Depends on upstream work
+    } else if (delayed) {
+      estimatedWaitSeconds = Math.ceil((new Date(request.notBefore!).getTime() - Date.now()) / 1000);
+    } else if (targetWorkers.length === 0) {
+      estimatedWaitSeconds = spinUpTriggered || spinUpPending ? 30 : undefined; // Estimate 30s for spin-up
     } else {
       estimatedWaitSeconds = 5; // Estimate 5s if workers available
     }
@@ -291,9 +905,180 @@ export class ExtendedCoordinator extends EventEmitter {
       targetAgentType,
       spinUpTriggered,
       estimatedWaitSeconds,
+      blocked,
     };
   }
 
+  /**
+   * Offer pending work to eligible agents' inboxes until one accepts (push dispatch)
+   *
+   * Candidates are eligible workers in the order the routing engine ranks
+   * them, the routed agent type first. Each gets `offerTimeoutMs`
+   * to reply; a rejection or timeout moves on to the next candidate. The
+   * first agent to accept is assigned the work. If nobody accepts, the work
+   * stays pending and is offered again after `redispatchDelayMs`.
+   *
+   * @returns GUID of the agent the work was assigned to, or undefined
+   * @throws Error if no agent inbox is configured
+   */
+  async dispatchWork(workItemId: string): Promise<string | undefined> {
+    const inbox = this.config.inbox;
+    if (!inbox) {
+      throw new Error('Push dispatch requires an agent inbox');
+    }
+
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem || workItem.status !== 'pending' || this.dispatching.has(workItemId)) {
+      return undefined;
+    }
+    if (workItem.notBefore && new Date(workItem.notBefore).getTime() > Date.now()) {
+      return undefined;
+    }
+
+    this.dispatching.add(workItemId);
+    try {
+      const candidates = await this.findCandidates(workItem);
+
+      for (const agent of candidates) {
+        // The work may have been claimed, cancelled or expired while we waited on a reply
+        const current = this.baseCoordinator.getWorkItem(workItemId);
+        if (!current || current.status !== 'pending') {
+          return undefined;
+        }
+
+        this.emit('work-offered', workItemId, agent.guid);
+        let reason: string;
+        try {
+          const reply = await inbox.offer(agent.guid, current, this.config.offerTimeoutMs ?? 10000);
+          if (reply.accepted) {
+            return (await this.recordClaim(workItemId, agent.guid)) ? agent.guid : undefined;
+          }
+          reason = reply.reason ?? 'Rejected';
+        } catch (error) {
+          reason = (error as Error).message;
+        }
+        this.emit('work-offer-rejected', workItemId, agent.guid, reason);
+      }
+
+      if (this.baseCoordinator.getWorkItem(workItemId)?.status === 'pending') {
+        this.released.delete(workItemId);
+        this.releaseReady(workItem.capability);
+        this.emit('work-undispatched', workItemId);
+        const redispatchAt = new Date(Date.now() + (this.config.redispatchDelayMs ?? 30000)).toISOString();
+        this.scheduleReady(workItemId, redispatchAt);
+      }
+      return undefined;
+    } finally {
+      this.dispatching.delete(workItemId);
+    }
+  }
+
+  /**
+   * Rank the agents that could take a work item for push dispatch
+   */
+  private async findCandidates(workItem: CoordinatedWorkItem): Promise<RegisteredAgent[]> {
+    const workers = await this.findWorkers(workItem, workItem.boundary);
+    const rank = (agent: RegisteredAgent) => (agent.agentType === workItem.targetAgentType ? 0 : 1);
+
+    return workers
+      .filter(agent => !agentTypeRestriction(workItem, agent.agentType))
+      .sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Check whether an agent may claim a work item
+   *
+   * The agent must be registered, visible, and match the item's boundary,
+   * required capabilities and the agent types it and its routing rule allow.
+   */
+  async validateClaim(workItemId: string, agentGuid: string): Promise<EligibilityResult> {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem) {
+      return { eligible: false, reason: `Work item ${workItemId} not found` };
+    }
+
+    if (workItem.status !== 'pending') {
+      return { eligible: false, reason: `Work item is ${workItem.status}, not pending` };
+    }
+
+    const entry = await getRegistryEntry(agentGuid);
+    if (!entry || !isVisibleTo(entry, this.getRequester())) {
+      return { eligible: false, reason: `Agent ${agentGuid} is not registered` };
+    }
+
+    const missing = missingCapability(entry.capabilities, workItem);
+    if (missing) {
+      return { eligible: false, reason: `Agent lacks capability '${missing}'` };
+    }
+
+    const agent = toRegisteredAgent(entry);
+    const restriction = agentTypeRestriction(workItem, agent.agentType);
+    if (restriction) {
+      return { eligible: false, reason: restriction };
+    }
+
+    return this.routingEngine.isEligible(agent, workItem.boundary);
+  }
+
+  /**
+   * Choose the pending item an agent should take next
+   *
+   * Among the items the agent may claim now, the fair-share scheduler picks
+   * the one from the least-served boundary and submitter.
+   */
+  nextWorkFor(agent: RegisteredAgent): CoordinatedWorkItem | undefined {
+    const now = Date.now();
+    const claimable = this.baseCoordinator.getAssignments({ status: 'pending' }).filter(workItem =>
+      meetsRequirements(agent.capabilities, workItem) &&
+      !agentTypeRestriction(workItem, agent.agentType) &&
+      !(workItem.notBefore && new Date(workItem.notBefore).getTime() > now) &&
+      !this.dispatching.has(workItem.id) &&
+      this.routingEngine.isEligible(agent, workItem.boundary).eligible
+    );
+    return this.fairShare.select(claimable, now);
+  }
+
+  /**
+   * Claim the next fair-share item for a registered agent
+   * @returns The claimed work item, or undefined if there is nothing the agent can take
+   * @throws Error if the agent isn't registered
+   */
+  async claimNextWork(agentGuid: string): Promise<CoordinatedWorkItem | undefined> {
+    const entry = await getRegistryEntry(agentGuid);
+    if (!entry || !isVisibleTo(entry, this.getRequester())) {
+      throw new Error(`Agent ${agentGuid} is not registered`);
+    }
+
+    const next = this.nextWorkFor(toRegisteredAgent(entry));
+    if (!next || !(await this.recordClaim(next.id, agentGuid))) {
+      return undefined;
+    }
+    return next;
+  }
+
+  /**
+   * Current fair shares of boundaries and submitters
+   */
+  getFairShareStats(): FairShareStats {
+    return this.fairShare.getStats(this.baseCoordinator.getAssignments({ status: 'pending' }));
+  }
+
+  /**
+   * Check that a work item is assigned to the given agent
+   */
+  checkAssignment(workItemId: string, agentGuid: string): EligibilityResult {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem) {
+      return { eligible: false, reason: `Work item ${workItemId} not found` };
+    }
+
+    if (workItem.assignedTo !== agentGuid) {
+      return { eligible: false, reason: `Work item is not assigned to agent ${agentGuid}` };
+    }
+
+    return { eligible: true };
+  }
+
   /**
    * Record that a worker has claimed work
    */
@@ -305,6 +1090,67 @@ export class ExtendedCoordinator extends EventEmitter {
     return result;
   }
 
+  /**
+   * Record that the assigned worker has started work
+   */
+  startWork(workItemId: string): boolean {
+    const started = this.baseCoordinator.startWork(workItemId);
+    if (started) {
+      this.emit('work-started', workItemId);
+    }
+    return started;
+  }
+
+  /**
+   * Renew the assigned agent's lease on a work item (heartbeat)
+   * @returns The new lease expiry, or undefined if the item isn't assigned
+   */
+  renewLease(workItemId: string): string | undefined {
+    return this.baseCoordinator.renewLease(workItemId);
+  }
+
+  /**
+   * Return work whose lease ran out to the queue
+   *
+   * The expiry is recorded as a recoverable LEASE_EXPIRED error, so the item
+   * is retried with backoff, or fails once its attempts are used up.
+   *
+   * @returns IDs of the work items whose lease expired
+   */
+  async checkLeases(): Promise<string[]> {
+    const expired = this.baseCoordinator.getExpiredLeases();
+
+    for (const workItem of expired) {
+      const agentGuid = workItem.assignedTo;
+      this.emit('work-lease-expired', workItem.id, agentGuid);
+      await this.recordError(workItem.id, `Lease expired for agent ${agentGuid}`, true, 'LEASE_EXPIRED', COORDINATOR_ACTOR);
+    }
+
+    return expired.map(w => w.id);
+  }
+
+  /**
+   * Record an artifact stored for a work item
+   */
+  recordArtifact(workItemId: string, artifact: WorkArtifact): boolean {
+    const recorded = this.baseCoordinator.recordArtifact(workItemId, artifact);
+    if (recorded) {
+      this.emit('work-artifact', workItemId, artifact);
+    }
+    return recorded;
+  }
+
+  /**
+   * Record work progress (0-100)
+   */
+  updateProgress(workItemId: string, progress: number): boolean {
+    const updated = this.baseCoordinator.updateProgress(workItemId, progress);
+    if (updated) {
+      this.emit('work-progress', workItemId, progress);
+    }
+    return updated;
+  }
+
   /**
    * Record work completion
    */
@@ -313,39 +1159,180 @@ export class ExtendedCoordinator extends EventEmitter {
     result?: Record<string, unknown>,
     summary?: string
   ): boolean {
+    const agentGuid = this.baseCoordinator.getWorkItem(workItemId)?.assignedTo;
     const completed = this.baseCoordinator.recordCompletion(workItemId, result, summary);
     if (completed) {
+      if (agentGuid) {
+        this.routingEngine.recordOutcome(agentGuid, true);
+      }
       this.emit('work-completed', workItemId);
+      this.settleDependents(workItemId);
     }
     return completed;
   }
 
   /**
    * Record work error
+   *
+   * @param actor Who reported the error (default: the assigned agent, else the coordinator)
    */
   async recordError(
     workItemId: string,
     error: string,
-    recoverable: boolean
+    recoverable: boolean,
+    code?: string,
+    actor?: string
   ): Promise<boolean> {
-    const result = await this.baseCoordinator.recordError(workItemId, error, recoverable);
+    const agentGuid = this.baseCoordinator.getWorkItem(workItemId)?.assignedTo;
+    const result = await this.baseCoordinator.recordError(workItemId, error, recoverable, code, actor);
     if (result) {
-      this.emit('work-failed', workItemId, error);
+      if (agentGuid) {
+        this.routingEngine.recordOutcome(agentGuid, false);
+      }
+      const workItem = this.baseCoordinator.getWorkItem(workItemId);
+      if (workItem?.status === 'pending' && workItem.notBefore) {
+        this.emit('work-retry-scheduled', workItemId, workItem.notBefore);
+        this.scheduleReady(workItemId, workItem.notBefore);
+      } else {
+        this.emit('work-failed', workItemId, error);
+        this.settleDependents(workItemId);
+      }
     }
     return result;
   }
 
+  /**
+   * Change the priority, deadline or context data of work that hasn't been claimed
+   */
+  updateWork(workItemId: string, changes: WorkUpdateRequest): boolean {
+    const updated = this.baseCoordinator.updateWork(workItemId, changes);
+    if (updated) {
+      // Apply escalation (or expiry) for the new deadline right away
+      this.deadlineSupervisor.check();
+      this.emit('work-updated', workItemId);
+    }
+    return updated;
+  }
+
+  /**
+   * Pause pending work
+   *
+   * Paused work isn't dispatched, claimed, escalated or expired, and
+   * triggers no spin-up, until it is resumed.
+   */
+  pauseWork(workItemId: string, reason?: string, actor?: string): boolean {
+    const paused = this.baseCoordinator.pauseWork(workItemId, reason, actor);
+    if (paused) {
+      this.clearReadyTimer(workItemId);
+      this.emit('work-paused', workItemId);
+    }
+    return paused;
+  }
+
+  /**
+   * Resume paused work and dispatch it again
+   */
+  resumeWork(workItemId: string, actor?: string): boolean {
+    const resumed = this.baseCoordinator.resumeWork(workItemId, actor);
+    if (resumed) {
+      this.emit('work-resumed', workItemId);
+      const workItem = this.baseCoordinator.getWorkItem(workItemId)!;
+      if (workItem.notBefore && new Date(workItem.notBefore).getTime() > Date.now()) {
+        this.scheduleReady(workItemId, workItem.notBefore, true);
+      } else {
+        this.markReady(workItemId);
+        void this.triggerDeferredSpinUp(workItemId);
+      }
+    }
+    return resumed;
+  }
+
   /**
    * Cancel work item
+   *
+   * If an agent is working on the item, it is told through its inbox.
+   *
+   * @param actor Who cancelled the work (default: 'coordinator')
    */
-  cancelWork(workItemId: string): boolean {
-    const result = this.baseCoordinator.cancelWork(workItemId);
+  cancelWork(workItemId: string, reason?: string, actor?: string): boolean {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    const agentGuid = workItem?.status === 'assigned' || workItem?.status === 'in-progress'
+      ? workItem.assignedTo
+      : undefined;
+
+    const result = this.baseCoordinator.cancelWork(workItemId, reason, actor);
     if (result) {
+      this.clearReadyTimer(workItemId);
       this.emit('work-cancelled', workItemId);
+      if (agentGuid) {
+        void this.notifyCancellation(workItemId, agentGuid, reason);
+      }
+      this.settleDependents(workItemId);
     }
     return result;
   }
 
+  /**
+   * Tell the assigned agent its work was cancelled and wait for acknowledgement
+   */
+  private async notifyCancellation(workItemId: string, agentGuid: string, reason?: string): Promise<void> {
+    const inbox = this.config.inbox;
+    if (!inbox) {
+      return;
+    }
+
+    try {
+      const ack = await inbox.cancel(agentGuid, workItemId, reason, this.config.offerTimeoutMs ?? 10000);
+      if (ack.acknowledged) {
+        this.baseCoordinator.recordCancelAcknowledged(workItemId);
+        this.emit('work-cancel-acknowledged', workItemId, agentGuid);
+      } else {
+        this.emit('work-cancel-unacknowledged', workItemId, agentGuid, 'Agent did not acknowledge');
+      }
+    } catch (error) {
+      this.emit('work-cancel-unacknowledged', workItemId, agentGuid, (error as Error).message);
+    }
+  }
+
+  /**
+   * Get the status timeline of a work item
+   */
+  getWorkHistory(workItemId: string): WorkHistory | undefined {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    return workItem ? buildWorkHistory(workItem) : undefined;
+  }
+
+  /**
+   * Get the dependency graph connected to a work item
+   */
+  getWorkGraph(workItemId: string): WorkGraph | undefined {
+    if (!this.baseCoordinator.getWorkItem(workItemId)) {
+      return undefined;
+    }
+    return buildWorkGraph(workItemId, this.baseCoordinator.getAssignments());
+  }
+
+  /**
+   * Replay dead-lettered work
+   *
+   * Returns the item to `pending` with attempts reset and dispatches it
+   * again. Only failed items (or items no longer tracked) can be replayed.
+   *
+   * @param snapshot Work item as stored in the dead-letter queue
+   * @returns The replayed work item, or undefined if the item is not failed
+   */
+  replayWork(snapshot: CoordinatedWorkItem): CoordinatedWorkItem | undefined {
+    const current = this.baseCoordinator.getWorkItem(snapshot.id);
+    if (current && current.status !== 'failed') {
+      return undefined;
+    }
+
+    const workItem = this.baseCoordinator.resetWork(snapshot);
+    this.emit('work-replayed', workItem.id);
+    this.markReady(workItem.id);
+    return workItem;
+  }
+
   /**
    * Get assignment status (delegate to base coordinator)
    */
@@ -360,6 +1347,16 @@ export class ExtendedCoordinator extends EventEmitter {
     return this.baseCoordinator.getAssignments(filter);
   }
 
+  /**
+   * Get one page of the work items matching a query
+   * @throws If the query's cursor is invalid
+   */
+  queryWork(query: WorkQuery = {}): WorkQueryResult {
+    // Bring aged priorities up to date so the page reflects them
+    this.baseCoordinator.applyAging();
+    return paginateWork(this.baseCoordinator.getAssignments(query), query);
+  }
+
   /**
    * Get statistics (delegate to base coordinator)
    */
@@ -374,10 +1371,215 @@ export class ExtendedCoordinator extends EventEmitter {
     return this.routingEngine;
   }
 
+  /**
+   * Re-evaluate blocked work that depends on a work item that just settled
+   */
+  private settleDependents(workItemId: string): void {
+    for (const workItem of this.baseCoordinator.getAssignments({ status: 'blocked' })) {
+      if (workItem.dependsOn?.includes(workItemId)) {
+        this.resolveDependencies(workItem.id);
+      }
+    }
+  }
+
+  /**
+   * Release, cancel or fail blocked work according to its dependencies
+   */
+  private resolveDependencies(workItemId: string): void {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem || workItem.status !== 'blocked') {
+      return;
+    }
+
+    const dependencies = evaluateDependencies(workItem, id => this.baseCoordinator.getWorkItem(id));
+    switch (dependencies.state) {
+      case 'waiting':
+        return;
+
+      case 'satisfied':
+        this.baseCoordinator.releaseWork(workItemId);
+        this.emit('work-released', workItemId);
+        if (workItem.notBefore && new Date(workItem.notBefore).getTime() > Date.now()) {
+          this.scheduleReady(workItemId, workItem.notBefore, true);
+        } else {
+          this.markReady(workItemId);
+          void this.triggerDeferredSpinUp(workItemId);
+        }
+        return;
+
+      case 'failed':
+        if (workItem.dependencyFailurePolicy === 'fail') {
+          void this.recordError(workItemId, dependencies.reason, false);
+        } else {
+          this.cancelWork(workItemId, dependencies.reason);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Trigger the spin-up that was skipped while work was blocked or delayed
+   */
+  private async triggerDeferredSpinUp(workItemId: string): Promise<void> {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem?.targetAgentType || workItem.status !== 'pending') {
+      return;
+    }
+
+    try {
+      const workers = await this.findWorkers(workItem, workItem.boundary);
+      if (workers.some(w => w.agentType === workItem.targetAgentType)) {
+        return;
+      }
+    } catch (error) {
+      console.error(`Failed to look up workers for released work item ${workItemId}:`, error);
+      return;
+    }
+
+    const work = toRoutedWork({ ...workItem, submittedBy: workItem.offeredBy });
+    if (this.routingEngine.shouldTriggerSpinUp(workItem.boundary, work)) {
+      const spinUpEvent: SpinUpTriggerEvent = {
+        agentType: workItem.targetAgentType,
+        capability: workItem.capability,
+        requiredCapabilities: workItem.requiredCapabilities,
+        preferredCapabilities: workItem.preferredCapabilities,
+        boundary: workItem.boundary,
+        targetTags: this.routingEngine.matchRule(workItem.boundary, work)?.action.targetTags,
+        workItemId,
+        timestamp: new Date().toISOString(),
+      };
+      this.emit('spin-up-trigger', spinUpEvent);
+    }
+  }
+
+  /**
+   * Hand claimable work to dispatch, or hold it until its capability has a free slot
+   */
+  private markReady(workItemId: string): void {
+    const workItem = this.baseCoordinator.getWorkItem(workItemId);
+    if (!workItem || workItem.status !== 'pending' || this.released.has(workItemId)) {
+      return;
+    }
+
+    this.held.add(workItemId);
+    this.releaseReady(workItem.capability);
+  }
+
+  /**
+   * Emit 'work-ready' for held work of a capability, in fair-share order, while the dispatch window has room
+   *
+   * Work counts against the window from its 'work-ready' until it is
+   * claimed or leaves `pending`, or for at most `redispatchDelayMs`, so work
+   * queued for agents that never claim it doesn't block the window.
+   */
+  private releaseReady(capability: string): void {
+    const window = this.config.dispatchWindow ?? 10;
+    const now = Date.now();
+    const staleBefore = now - (this.config.redispatchDelayMs ?? 30000);
+
+    const candidates: CoordinatedWorkItem[] = [];
+    for (const id of this.held) {
+      const workItem = this.baseCoordinator.getWorkItem(id);
+      if (!workItem || workItem.status !== 'pending') {
+        this.held.delete(id);
+      } else if (workItem.capability === capability) {
+        candidates.push(workItem);
+      }
+    }
+
+    let outstanding = 0;
+    for (const [id, releasedAt] of this.released) {
+      const workItem = this.baseCoordinator.getWorkItem(id);
+      if (!workItem || workItem.status !== 'pending' || releasedAt < staleBefore) {
+        this.released.delete(id);
+      } else if (workItem.capability === capability) {
+        outstanding++;
+      }
+    }
+
+    while (window <= 0 || outstanding < window) {
+      const next = this.fairShare.select(candidates, now);
+      if (!next) {
+        return;
+      }
+      candidates.splice(candidates.indexOf(next), 1);
+      this.held.delete(next.id);
+      this.released.set(next.id, now);
+      outstanding++;
+      this.emit('work-ready', next.id);
+    }
+  }
+
+  /**
+   * Release held work of every capability whose dispatch window has room
+   */
+  private releaseAllReady(): void {
+    const capabilities = new Set<string>();
+    for (const id of this.held) {
+      const workItem = this.baseCoordinator.getWorkItem(id);
+      if (workItem) {
+        capabilities.add(workItem.capability);
+      }
+    }
+    for (const capability of capabilities) {
+      this.releaseReady(capability);
+    }
+  }
+
+  /**
+   * Emit 'work-ready' for a work item once a point in time is reached
+   *
+   * @param spinUp Also trigger the spin-up that was deferred until then
+   */
+  private scheduleReady(workItemId: string, at: string, spinUp = false): void {
+    this.clearReadyTimer(workItemId);
+
+    const delayMs = Math.max(0, new Date(at).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.readyTimers.delete(workItemId);
+      this.markReady(workItemId);
+      if (spinUp) {
+        void this.triggerDeferredSpinUp(workItemId);
+      }
+    }, delayMs);
+    this.readyTimers.set(workItemId, timer);
+  }
+
+  /**
+   * Cancel a pending 'work-ready' emission
+   */
+  private clearReadyTimer(workItemId: string): void {
+    const timer = this.readyTimers.get(workItemId);
+    if (timer) {
+      clearTimeout(timer);
+      this.readyTimers.delete(workItemId);
+    }
+  }
+
+  /**
+   * Wait for outstanding work item persistence writes
+   */
+  async flush(): Promise<void> {
+    await this.baseCoordinator.flush();
+  }
+
   /**
    * Clean up all resources
    */
   shutdown(): void {
+    for (const timer of this.readyTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.readyTimers.clear();
+    this.dispatching.clear();
+    this.held.clear();
+    this.released.clear();
+    if (this.leaseCheckInterval) {
+      clearInterval(this.leaseCheckInterval);
+      this.leaseCheckInterval = null;
+    }
+    this.deadlineSupervisor.shutdown();
+    this.idempotencyCache.clear();
     this.baseCoordinator.shutdown();
     this.removeAllListeners();
   }
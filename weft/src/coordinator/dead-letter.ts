@@ -0,0 +1,153 @@
+/**
+ * Dead-Letter Queue
+ *
+ * Stores work items that exhausted their attempts or failed unrecoverably
+ * in the per-project `LOOM_DLQ_{projectId}` JetStream stream, one subject
+ * per work item, so operators can inspect, replay or purge them.
+ */
+
+import type { NatsConnection, JetStreamManager } from 'nats';
+import { RetentionPolicy, StorageType } from 'nats';
+import type { CoordinatedWorkItem, DeadLetterEntry } from '@loom/shared';
+import { StreamNames, WorkSubjects } from '@loom/shared';
+
+/**
+ * Describe why a failed work item was dead-lettered
+ */
+export function describeFailure(workItem: CoordinatedWorkItem): string {
+  if (workItem.error?.recoverable) {
+    const maxAttempts = workItem.retryPolicy?.maxAttempts ?? workItem.attempts;
+    return `Retry attempts exhausted (${workItem.attempts}/${maxAttempts})`;
+  }
+  return 'Unrecoverable error';
+}
+
+/**
+ * JetStream-backed dead-letter queue
+ */
+export class DeadLetterQueue {
+  private jsm: JetStreamManager | null = null;
+  private streamName: string;
+
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {
+    this.streamName = StreamNames.deadLetter(projectId);
+  }
+
+  /**
+   * Initialize the queue (create the stream if needed)
+   */
+  async initialize(): Promise<void> {
+    this.jsm = await this.nc.jetstreamManager();
+
+    try {
+      await this.jsm.streams.info(this.streamName);
+    } catch {
+      // Stream doesn't exist, create it
+      await this.jsm.streams.add({
+        name: this.streamName,
+        subjects: [WorkSubjects.deadLetter(this.projectId, '*')],
+        retention: RetentionPolicy.Limits,
+        storage: StorageType.File,
+        max_msgs_per_subject: 1, // Only the latest entry per work item
+      });
+    }
+  }
+
+  /**
+   * Dead-letter a failed work item
+   */
+  async add(workItem: CoordinatedWorkItem, reason?: string): Promise<DeadLetterEntry> {
+    const entry: DeadLetterEntry = {
+      workItem,
+      reason: reason ?? describeFailure(workItem),
+      deadLetteredAt: new Date().toISOString(),
+    };
+
+    const js = this.nc.jetstream();
+    await js.publish(WorkSubjects.deadLetter(this.projectId, workItem.id), JSON.stringify(entry));
+
+    return entry;
+  }
+
+  /**
+   * List all dead-letter entries, newest first
+   */
+  async list(): Promise<DeadLetterEntry[]> {
+    const jsm = this.getManager();
+    const info = await jsm.streams.info(this.streamName, {
+      subjects_filter: WorkSubjects.deadLetter(this.projectId, '*'),
+    });
+
+    const entries: DeadLetterEntry[] = [];
+    for (const subject of Object.keys(info.state.subjects ?? {})) {
+      const entry = await this.getBySubject(subject);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort(
+      (a, b) => new Date(b.deadLetteredAt).getTime() - new Date(a.deadLetteredAt).getTime()
+    );
+  }
+
+  /**
+   * Get the dead-letter entry for a work item
+   */
+  async get(workItemId: string): Promise<DeadLetterEntry | null> {
+    return this.getBySubject(WorkSubjects.deadLetter(this.projectId, workItemId));
+  }
+
+  /**
+   * Remove the entry for a work item
+   * @returns true if an entry was removed
+   */
+  async remove(workItemId: string): Promise<boolean> {
+    const jsm = this.getManager();
+    const response = await jsm.streams.purge(this.streamName, {
+      filter: WorkSubjects.deadLetter(this.projectId, workItemId),
+    });
+    return response.purged > 0;
+  }
+
+  /**
+   * Remove all entries
+   * @returns Number of entries removed
+   */
+  async purge(): Promise<number> {
+    const jsm = this.getManager();
+    const response = await jsm.streams.purge(this.streamName);
+    return response.purged;
+  }
+
+  /**
+   * Close the queue
+   */
+  async close(): Promise<void> {
+    this.jsm = null;
+  }
+
+  /**
+   * Read the latest entry on a subject
+   */
+  private async getBySubject(subject: string): Promise<DeadLetterEntry | null> {
+    const jsm = this.getManager();
+    try {
+      const msg = await jsm.streams.getMessage(this.streamName, { last_by_subj: subject });
+      return JSON.parse(new TextDecoder().decode(msg.data)) as DeadLetterEntry;
+    } catch {
+      // No entry for this subject
+      return null;
+    }
+  }
+
+  private getManager(): JetStreamManager {
+    if (!this.jsm) {
+      throw new Error('DeadLetterQueue not initialized');
+    }
+    return this.jsm;
+  }
+}
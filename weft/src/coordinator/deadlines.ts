@@ -0,0 +1,186 @@
+/**
+ * Deadline supervisor
+ *
+ * Periodically checks work item deadlines: raises the effective priority of
+ * pending work as its deadline nears, expires pending work once the deadline
+ * has passed, and reports in-flight work that missed its deadline.
+ */
+
+import { EventEmitter } from 'events';
+import type { Priority } from '@loom/shared';
+import type { BaseCoordinator } from './base-coordinator.js';
+
+export interface DeadlineSupervisorConfig {
+  /** How often to check deadlines in milliseconds (default: 30000 = 30 seconds) */
+  checkIntervalMs?: number;
+
+  /** How long before a deadline pending work starts gaining priority (default: 3600000 = 1 hour) */
+  escalationWindowMs?: number;
+}
+
+export interface DeadlineEvent {
+  /** Work item ID */
+  workItemId: string;
+
+  /** Task ID the work item belongs to */
+  taskId: string;
+
+  /** Work item deadline */
+  deadline: string;
+
+  /** Time left until the deadline (ms, negative once passed) */
+  remainingMs: number;
+
+  /** Timestamp when the condition was detected */
+  detectedAt: string;
+}
+
+const MAX_PRIORITY = 10;
+
+/**
+ * Compute the priority of pending work given the time left to its deadline
+ *
+ * Priority rises linearly from the submitted value at the start of the
+ * escalation window to the maximum at the deadline.
+ */
+export function escalatePriority(
+  priority: Priority,
+  remainingMs: number,
+  escalationWindowMs: number
+): Priority {
+  if (remainingMs >= escalationWindowMs) {
+    return priority;
+  }
+
+  const elapsed = 1 - Math.max(0, remainingMs) / escalationWindowMs;
+  const escalated = Math.ceil(priority + (MAX_PRIORITY - priority) * elapsed);
+  return Math.min(MAX_PRIORITY, escalated) as Priority;
+}
+
+/**
+ * Deadline supervisor for coordinated work
+ *
+ * Events:
+ * - 'approaching': Emitted once when pending work enters the escalation window (DeadlineEvent)
+ * - 'missed': Emitted once when assigned or in-progress work passes its deadline (DeadlineEvent)
+ * - 'expired': Emitted when pending work is expired because its deadline passed (DeadlineEvent)
+ */
+export class DeadlineSupervisor extends EventEmitter {
+  private config: Required<DeadlineSupervisorConfig>;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private approaching: Set<string> = new Set();
+  private missed: Set<string> = new Set();
+
+  constructor(
+    private coordinator: BaseCoordinator,
+    config?: DeadlineSupervisorConfig
+  ) {
+    super();
+    this.config = {
+      checkIntervalMs: config?.checkIntervalMs ?? 30000, // 30 seconds
+      escalationWindowMs: config?.escalationWindowMs ?? 3600000, // 1 hour
+    };
+  }
+
+  /**
+   * Start checking deadlines
+   */
+  start(): void {
+    if (this.checkInterval) {
+      return; // Already started
+    }
+
+    this.check();
+    this.checkInterval = setInterval(() => {
+      this.check();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop checking deadlines
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Check all work item deadlines once
+   */
+  check(): void {
+    const now = new Date();
+    const seen = new Set<string>();
+
+    for (const workItem of this.coordinator.getAssignments()) {
+      if (!workItem.deadline) {
+        continue;
+      }
+
+      const remainingMs = new Date(workItem.deadline).getTime() - now.getTime();
+      if (Number.isNaN(remainingMs)) {
+        continue;
+      }
+
+      const event: DeadlineEvent = {
+        workItemId: workItem.id,
+        taskId: workItem.taskId,
+        deadline: workItem.deadline,
+        remainingMs,
+        detectedAt: now.toISOString(),
+      };
+
+      if (workItem.status === 'pending') {
+        if (remainingMs <= 0) {
+          const reason = `Deadline ${workItem.deadline} passed before the work was claimed`;
+          if (this.coordinator.expireWork(workItem.id, reason)) {
+            this.emit('expired', event);
+          }
+          continue;
+        }
+
+        seen.add(workItem.id);
+        // Escalate from the aged priority so a deadline never undoes aging
+        const effectivePriority = escalatePriority(
+          this.coordinator.agedPriority(workItem, now.getTime()),
+          remainingMs,
+          this.config.escalationWindowMs
+        );
+        if (effectivePriority !== (workItem.effectivePriority ?? workItem.priority)) {
+          workItem.effectivePriority = effectivePriority;
+          this.coordinator.saveWorkItem(workItem);
+        }
+
+        if (remainingMs < this.config.escalationWindowMs && !this.approaching.has(workItem.id)) {
+          this.approaching.add(workItem.id);
+          this.emit('approaching', event);
+        }
+      } else if (workItem.status === 'assigned' || workItem.status === 'in-progress') {
+        seen.add(workItem.id);
+        if (remainingMs <= 0 && !this.missed.has(workItem.id)) {
+          this.missed.add(workItem.id);
+          this.emit('missed', event);
+        }
+      }
+    }
+
+    // Forget items that are no longer open
+    for (const id of this.approaching) {
+      if (!seen.has(id)) this.approaching.delete(id);
+    }
+    for (const id of this.missed) {
+      if (!seen.has(id)) this.missed.delete(id);
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  shutdown(): void {
+    this.stop();
+    this.approaching.clear();
+    this.missed.clear();
+    this.removeAllListeners();
+  }
+}
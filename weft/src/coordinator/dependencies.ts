@@ -0,0 +1,102 @@
+/**
+ * Work dependency helpers
+ *
+ * Evaluates whether a blocked work item can be released and builds the
+ * dependency graph around a work item.
+ */
+
+import type { CoordinatedWorkItem, WorkGraph, WorkGraphNode } from '@loom/shared';
+
+/**
+ * Result of evaluating a blocked item's dependencies
+ */
+export type DependencyState =
+  | { state: 'satisfied' }
+  | { state: 'waiting' }
+  | { state: 'failed'; dependencyId: string; reason: string };
+
+/**
+ * Evaluate a work item's dependencies
+ *
+ * Dependencies that failed, were cancelled or expired count as satisfied
+ * when the item's failure policy is 'ignore'.
+ *
+ * @param workItem Work item to evaluate
+ * @param lookup Resolves a work item by ID
+ */
+export function evaluateDependencies(
+  workItem: CoordinatedWorkItem,
+  lookup: (workItemId: string) => CoordinatedWorkItem | undefined
+): DependencyState {
+  const ignoreFailures = workItem.dependencyFailurePolicy === 'ignore';
+  let waiting = false;
+
+  for (const dependencyId of workItem.dependsOn ?? []) {
+    const dependency = lookup(dependencyId);
+    if (!dependency) {
+      if (ignoreFailures) continue;
+      return { state: 'failed', dependencyId, reason: `Dependency ${dependencyId} no longer exists` };
+    }
+
+    switch (dependency.status) {
+      case 'completed':
+        break;
+      case 'failed':
+      case 'cancelled':
+      case 'expired':
+        if (!ignoreFailures) {
+          return { state: 'failed', dependencyId, reason: `Dependency ${dependencyId} ${dependency.status}` };
+        }
+        break;
+      default:
+        waiting = true;
+    }
+  }
+
+  return waiting ? { state: 'waiting' } : { state: 'satisfied' };
+}
+
+/**
+ * Build the dependency graph connected to a work item
+ *
+ * Follows both dependencies and dependents, so the graph shows everything
+ * upstream and downstream of the root.
+ *
+ * @param rootId Work item to start from
+ * @param workItems All known work items
+ */
+export function buildWorkGraph(rootId: string, workItems: CoordinatedWorkItem[]): WorkGraph {
+  const byId = new Map(workItems.map(w => [w.id, w]));
+  const dependents = new Map<string, string[]>();
+  for (const workItem of workItems) {
+    for (const dependencyId of workItem.dependsOn ?? []) {
+      dependents.set(dependencyId, [...(dependents.get(dependencyId) ?? []), workItem.id]);
+    }
+  }
+
+  const nodes: WorkGraphNode[] = [];
+  const visited = new Set<string>();
+  const queue = [rootId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const workItem = byId.get(id);
+    if (visited.has(id) || !workItem) {
+      continue;
+    }
+    visited.add(id);
+
+    const node: WorkGraphNode = {
+      id,
+      taskId: workItem.taskId,
+      description: workItem.description,
+      status: workItem.status,
+      dependsOn: workItem.dependsOn ?? [],
+      dependents: dependents.get(id) ?? [],
+    };
+    nodes.push(node);
+    queue.push(...node.dependsOn, ...node.dependents);
+  }
+
+  return { rootId, nodes };
+}
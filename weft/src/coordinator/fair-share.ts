@@ -0,0 +1,196 @@
+/**
+ * Weighted fair sharing of pending work
+ *
+ * Decides which pending item goes out next. Every dispatch adds to the
+ * usage of the item's boundary and submitter, and usage decays with a
+ * half-life so old bursts stop counting. The next item comes from the
+ * boundary with the least usage per unit of weight, then from that
+ * boundary's submitter with the least usage per unit of weight; within a
+ * submitter, the highest effective priority goes first, oldest first.
+ */
+
+import type { CoordinatedWorkItem, FairShareConfiguration } from '@loom/shared';
+import { compareWorkItems } from './work-query.js';
+
+export type FairShareSchedulerConfig = Partial<FairShareConfiguration>;
+
+/**
+ * Standing of one boundary or submitter
+ */
+export interface FairShareEntry {
+  name: string;
+  weight: number;
+
+  /** Dispatches counted against the share (decayed) */
+  usage: number;
+
+  /** Fraction of recent dispatches it received */
+  share: number;
+
+  /** Fraction it is entitled to, among the entries listed */
+  targetShare: number;
+
+  /** Pending items waiting */
+  pending: number;
+}
+
+/**
+ * Current shares, listing everything with pending work or recent dispatches
+ */
+export interface FairShareStats {
+  boundaries: FairShareEntry[];
+  submitters: FairShareEntry[];
+}
+
+interface Usage {
+  value: number;
+  at: number;
+}
+
+/** Usage below this is forgotten */
+const NEGLIGIBLE_USAGE = 0.001;
+
+/**
+ * Picks the next pending item so boundaries and submitters get their weighted share
+ */
+export class FairShareScheduler {
+  private boundaryWeights: Record<string, number>;
+  private submitterWeights: Record<string, number>;
+  private halfLifeMs: number;
+  private boundaryUsage: Map<string, Usage> = new Map();
+  private submitterUsage: Map<string, Usage> = new Map();
+
+  constructor(config: FairShareSchedulerConfig = {}) {
+    this.boundaryWeights = config.boundaryWeights ?? {};
+    this.submitterWeights = config.submitterWeights ?? {};
+    this.halfLifeMs = config.halfLifeMs ?? 600000;
+  }
+
+  /**
+   * Choose the item to dispatch next
+   * @param workItems Items that could be dispatched
+   */
+  select(workItems: CoordinatedWorkItem[], now: number = Date.now()): CoordinatedWorkItem | undefined {
+    const boundary = this.leastServed(workItems, w => w.boundary, this.boundaryUsage, this.boundaryWeights, now);
+    if (boundary === undefined) {
+      return undefined;
+    }
+
+    const inBoundary = workItems.filter(w => w.boundary === boundary);
+    const submitter = this.leastServed(inBoundary, w => w.offeredBy, this.submitterUsage, this.submitterWeights, now);
+    return inBoundary.filter(w => w.offeredBy === submitter).sort((a, b) => compareWorkItems(a, b))[0];
+  }
+
+  /**
+   * Count a dispatch against the item's boundary and submitter
+   */
+  recordDispatch(workItem: CoordinatedWorkItem, now: number = Date.now()): void {
+    this.addUsage(this.boundaryUsage, workItem.boundary, now);
+    this.addUsage(this.submitterUsage, workItem.offeredBy, now);
+  }
+
+  /**
+   * Current shares
+   * @param pending Pending items, counted per boundary and submitter
+   */
+  getStats(pending: CoordinatedWorkItem[], now: number = Date.now()): FairShareStats {
+    return {
+      boundaries: this.entries(pending, w => w.boundary, this.boundaryUsage, this.boundaryWeights, now),
+      submitters: this.entries(pending, w => w.offeredBy, this.submitterUsage, this.submitterWeights, now),
+    };
+  }
+
+  /**
+   * Name of the group with the least usage per unit of weight
+   *
+   * Ties go to the group whose best item would come first anyway.
+   */
+  private leastServed(
+    workItems: CoordinatedWorkItem[],
+    groupOf: (workItem: CoordinatedWorkItem) => string,
+    usage: Map<string, Usage>,
+    weights: Record<string, number>,
+    now: number
+  ): string | undefined {
+    const best = new Map<string, CoordinatedWorkItem>();
+    for (const workItem of workItems) {
+      const name = groupOf(workItem);
+      const current = best.get(name);
+      if (!current || compareWorkItems(workItem, current) < 0) {
+        best.set(name, workItem);
+      }
+    }
+
+    let chosen: { name: string; load: number; item: CoordinatedWorkItem } | undefined;
+    for (const [name, item] of best) {
+      const load = this.usageOf(usage, name, now) / this.weightOf(weights, name);
+      if (!chosen || load < chosen.load || (load === chosen.load && compareWorkItems(item, chosen.item) < 0)) {
+        chosen = { name, load, item };
+      }
+    }
+    return chosen?.name;
+  }
+
+  private entries(
+    pending: CoordinatedWorkItem[],
+    groupOf: (workItem: CoordinatedWorkItem) => string,
+    usage: Map<string, Usage>,
+    weights: Record<string, number>,
+    now: number
+  ): FairShareEntry[] {
+    const pendingCounts = new Map<string, number>();
+    for (const workItem of pending) {
+      const name = groupOf(workItem);
+      pendingCounts.set(name, (pendingCounts.get(name) ?? 0) + 1);
+    }
+
+    const names = new Set([...pendingCounts.keys()]);
+    for (const name of [...usage.keys()]) {
+      if (this.usageOf(usage, name, now) > 0) {
+        names.add(name);
+      }
+    }
+
+    const totalUsage = [...names].reduce((sum, name) => sum + this.usageOf(usage, name, now), 0);
+    const totalWeight = [...names].reduce((sum, name) => sum + this.weightOf(weights, name), 0);
+
+    return [...names].sort().map(name => {
+      const value = this.usageOf(usage, name, now);
+      const weight = this.weightOf(weights, name);
+      return {
+        name,
+        weight,
+        usage: value,
+        share: totalUsage > 0 ? value / totalUsage : 0,
+        targetShare: totalWeight > 0 ? weight / totalWeight : 0,
+        pending: pendingCounts.get(name) ?? 0,
+      };
+    });
+  }
+
+  private weightOf(weights: Record<string, number>, name: string): number {
+    const weight = weights[name];
+    return weight !== undefined && weight > 0 ? weight : 1;
+  }
+
+  /**
+   * Usage decayed to `now`; negligible usage is forgotten
+   */
+  private usageOf(usage: Map<string, Usage>, name: string, now: number): number {
+    const entry = usage.get(name);
+    if (!entry) {
+      return 0;
+    }
+    const elapsed = Math.max(0, now - entry.at);
+    const value = this.halfLifeMs > 0 ? entry.value * Math.pow(0.5, elapsed / this.halfLifeMs) : entry.value;
+    if (value < NEGLIGIBLE_USAGE) {
+      usage.delete(name);
+      return 0;
+    }
+    return value;
+  }
+
+  private addUsage(usage: Map<string, Usage>, name: string, now: number): void {
+    usage.set(name, { value: this.usageOf(usage, name, now) + 1, at: now });
+  }
+}
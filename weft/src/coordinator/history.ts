@@ -0,0 +1,66 @@
+/**
+ * Work history helpers
+ *
+ * Records status changes on a work item's `history` and summarizes where
+ * the time went.
+ */
+
+import type { CoordinatedWorkItem, WorkHistory, WorkItemStatus, WorkStatusTransition } from '@loom/shared';
+
+/** Actor recorded for changes made by the coordinator itself */
+export const COORDINATOR_ACTOR = 'coordinator';
+
+/** Statuses work can't leave */
+export const FINISHED_STATUSES: WorkItemStatus[] = ['completed', 'failed', 'cancelled', 'expired'];
+
+/**
+ * Change a work item's status and append the change to its history
+ *
+ * @param from Status before the change (defaults to the item's current status)
+ * @returns The recorded transition
+ */
+export function applyTransition(
+  workItem: CoordinatedWorkItem,
+  to: WorkItemStatus,
+  actor: string,
+  reason?: string,
+  from: WorkItemStatus | null = workItem.status
+): WorkStatusTransition {
+  const transition: WorkStatusTransition = {
+    from,
+    to,
+    at: new Date().toISOString(),
+    actor,
+    ...(reason && { reason }),
+  };
+  workItem.status = to;
+  workItem.history = [...(workItem.history ?? []), transition];
+  return transition;
+}
+
+/**
+ * Build a work item's status timeline
+ *
+ * Time in the current status runs until `now`, unless the item is finished.
+ */
+export function buildWorkHistory(workItem: CoordinatedWorkItem, now: number = Date.now()): WorkHistory {
+  const transitions = workItem.history ?? [];
+  const timeInStatus: WorkHistory['timeInStatus'] = {};
+
+  transitions.forEach((transition, index) => {
+    const start = new Date(transition.at).getTime();
+    const next = transitions[index + 1];
+    if (!next && FINISHED_STATUSES.includes(transition.to)) {
+      return;
+    }
+    const end = next ? new Date(next.at).getTime() : now;
+    timeInStatus[transition.to] = (timeInStatus[transition.to] ?? 0) + Math.max(0, end - start);
+  });
+
+  return {
+    workItemId: workItem.id,
+    status: workItem.status,
+    transitions,
+    timeInStatus,
+  };
+}
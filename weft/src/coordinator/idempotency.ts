@@ -0,0 +1,94 @@
+/**
+ * Idempotent submissions
+ *
+ * Remembers submission responses by idempotency key for a window so a client
+ * retrying a submission gets the original response instead of a duplicate
+ * work item. Submissions still in flight are shared, so concurrent retries
+ * resolve to the same work item.
+ */
+
+import type { WorkSubmitResponse } from '@loom/shared';
+
+export interface IdempotencyCacheConfig {
+  /** How long a response is remembered in milliseconds (default: 600000 = 10 minutes) */
+  windowMs?: number;
+
+  /** Treat the taskId as the idempotency key when no explicit key is given (default: false) */
+  keyOnTaskId?: boolean;
+}
+
+interface CacheEntry {
+  response: Promise<WorkSubmitResponse>;
+  expiresAt: number;
+}
+
+/**
+ * Cache of submission responses keyed by idempotency key
+ */
+export class IdempotencyCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private windowMs: number;
+  private keyOnTaskId: boolean;
+
+  constructor(config: IdempotencyCacheConfig = {}) {
+    this.windowMs = config.windowMs ?? 600000;
+    this.keyOnTaskId = config.keyOnTaskId ?? false;
+  }
+
+  /**
+   * Resolve the idempotency key for a submission
+   * @returns The key, or undefined if the submission isn't deduplicated
+   */
+  keyFor(request: { taskId: string; idempotencyKey?: string }): string | undefined {
+    if (this.windowMs <= 0) {
+      return undefined;
+    }
+    if (request.idempotencyKey) {
+      return `key:${request.idempotencyKey}`;
+    }
+    return this.keyOnTaskId ? `task:${request.taskId}` : undefined;
+  }
+
+  /**
+   * Get the remembered response for a key
+   */
+  get(key: string): Promise<WorkSubmitResponse> | undefined {
+    this.prune();
+    return this.entries.get(key)?.response;
+  }
+
+  /**
+   * Remember a submission's response
+   *
+   * Failed submissions are forgotten so the client can retry them.
+   */
+  set(key: string, response: Promise<WorkSubmitResponse>): void {
+    const entry: CacheEntry = { response, expiresAt: Date.now() + this.windowMs };
+    this.entries.set(key, entry);
+
+    response.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Drop expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Forget all remembered responses
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
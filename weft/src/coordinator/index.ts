@@ -3,11 +3,29 @@
  * Extends the base coordinator with classification-aware routing and spin-up triggers
  */
 
-export { ExtendedCoordinator, createExtendedCoordinator } from './coordinator.js';
+export { ExtendedCoordinator, createExtendedCoordinator, MAX_BATCH_SIZE, WorkRejectedError } from './coordinator.js';
 export type { ExtendedCoordinatorConfig, ClassifiedWorkRequest, SpinUpTriggerEvent, WorkStateChangeEvent } from './coordinator.js';
 
 export { BaseCoordinator } from './base-coordinator.js';
-export type { BaseCoordinatorConfig, WorkRequest, AssignmentFilter, CoordinatorStats } from './base-coordinator.js';
+export type { BaseCoordinatorConfig, WorkRequest, AssignmentFilter, CoordinatorStats, WorkItemPersistence } from './base-coordinator.js';
+
+export { paginateWork, matchesWorkFilter, isValidWorkCursor, WORK_SORT_FIELDS, MAX_WORK_PAGE_SIZE } from './work-query.js';
+
+export { FairShareScheduler } from './fair-share.js';
+export type { FairShareSchedulerConfig, FairShareStats, FairShareEntry } from './fair-share.js';
+
+export { DeadlineSupervisor, escalatePriority } from './deadlines.js';
+export type { DeadlineSupervisorConfig, DeadlineEvent } from './deadlines.js';
+
+export { IdempotencyCache } from './idempotency.js';
+export type { IdempotencyCacheConfig } from './idempotency.js';
+
+export { KVWorkStore } from './work-store.js';
+export { WorkQueue } from './work-queue.js';
+export { DeadLetterQueue, describeFailure } from './dead-letter.js';
+export { ArtifactStore, isValidArtifactName } from './artifact-store.js';
+export { NatsAgentInbox } from './agent-inbox.js';
+export type { AgentInbox } from './agent-inbox.js';
 
 export { initializeRegistry, listRegistryEntries, getRegistryEntry, isVisibleTo, toRegisteredAgent, filterByBoundary, getRegistryKV } from './registry.js';
 export type { RegistryEntry, Requester } from './registry.js';
@@ -13,6 +13,7 @@ import type {
   AgentStatus,
   AgentVisibility,
 } from '@loom/shared';
+import { DEFAULT_AGENT_TYPE } from '@loom/shared';
 
 /**
  * Registry entry as stored in NATS KV
@@ -183,12 +184,17 @@ export function isVisibleTo(entry: RegistryEntry, requester: Requester): boolean
 
 /**
  * Convert a registry entry to a RegisteredAgent
+ *
+ * The agent type is kept as the agent reported it, even if no project
+ * defines it; only agents that report none get the default type.
  */
 export function toRegisteredAgent(entry: RegistryEntry): RegisteredAgent {
   return {
     guid: entry.guid,
     handle: entry.handle,
-    agentType: (entry.metadata?.agentType as AgentType) ?? 'claude-code',
+    agentType: typeof entry.metadata?.agentType === 'string' && entry.metadata.agentType
+      ? entry.metadata.agentType
+      : DEFAULT_AGENT_TYPE,
     status: entry.status,
     capabilities: entry.capabilities,
     boundaries: (entry.metadata?.boundaries as Boundary[]) ?? ['default'],
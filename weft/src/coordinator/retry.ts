@@ -0,0 +1,49 @@
+/**
+ * Retry policy helpers
+ *
+ * Resolves per-submission retry settings against project defaults and
+ * computes exponential backoff delays with jitter.
+ */
+
+import type { RetryPolicy } from '@loom/shared';
+import { DEFAULT_RETRY_POLICY } from '@loom/shared';
+
+/**
+ * Merge a partial retry policy over defaults
+ */
+export function resolveRetryPolicy(
+  override?: Partial<RetryPolicy>,
+  defaults: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy {
+  return {
+    maxAttempts: override?.maxAttempts ?? defaults.maxAttempts,
+    initialDelayMs: override?.initialDelayMs ?? defaults.initialDelayMs,
+    backoffMultiplier: override?.backoffMultiplier ?? defaults.backoffMultiplier,
+    maxDelayMs: override?.maxDelayMs ?? defaults.maxDelayMs,
+    jitter: override?.jitter ?? defaults.jitter,
+  };
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param policy Retry policy
+ * @param attempts Attempts made so far (1 after the first failure)
+ * @param random Random source in [0, 1) (injectable for tests)
+ * @returns Delay in ms
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempts: number,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  const baseDelay = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, exponent)
+  );
+
+  // Spread retries by +/- jitter so failed batches don't retry in lockstep
+  const jitterFactor = 1 + policy.jitter * (2 * random() - 1);
+  return Math.max(0, Math.round(baseDelay * jitterFactor));
+}
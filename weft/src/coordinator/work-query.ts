@@ -0,0 +1,214 @@
+/**
+ * Work item queries
+ *
+ * Filters, sorts and pages work item listings. A page cursor holds the
+ * sort position of the last item returned, so work submitted or removed
+ * between requests doesn't shift later pages.
+ */
+
+import type { CoordinatedWorkItem, WorkFilter, WorkQuery, WorkQueryResult, WorkSortField } from '@loom/shared';
+import { FINISHED_STATUSES } from './history.js';
+
+/** Page size when a query doesn't set a limit */
+export const DEFAULT_WORK_PAGE_SIZE = 100;
+
+/** Largest page a query may ask for */
+export const MAX_WORK_PAGE_SIZE = 500;
+
+/** Fields listings can be sorted by */
+export const WORK_SORT_FIELDS: WorkSortField[] = ['priority', 'submittedAt', 'completedAt'];
+
+/**
+ * Position of an item in a sorted listing
+ */
+interface WorkCursor {
+  sortBy: WorkSortField;
+  sortOrder: 'asc' | 'desc';
+  key: number[];
+  id: string;
+}
+
+/**
+ * When a work item reached its final status
+ * @returns Milliseconds since the epoch, or undefined if the item hasn't finished
+ */
+export function finishedAt(workItem: CoordinatedWorkItem): number | undefined {
+  if (!FINISHED_STATUSES.includes(workItem.status)) {
+    return undefined;
+  }
+  const at =
+    workItem.history?.at(-1)?.at ??
+    workItem.result?.completedAt ??
+    workItem.error?.occurredAt ??
+    (workItem.status === 'expired' ? workItem.deadline : undefined);
+  return at ? new Date(at).getTime() : undefined;
+}
+
+/**
+ * Check whether a work item matches every filter that is set
+ */
+export function matchesWorkFilter(workItem: CoordinatedWorkItem, filter: WorkFilter): boolean {
+  if (filter.status && workItem.status !== filter.status) {
+    return false;
+  }
+  if (filter.boundary && workItem.boundary !== filter.boundary) {
+    return false;
+  }
+  if (filter.capability && workItem.capability !== filter.capability) {
+    return false;
+  }
+  if (filter.batchId && workItem.batchId !== filter.batchId) {
+    return false;
+  }
+  if (filter.taskId && workItem.taskId !== filter.taskId) {
+    return false;
+  }
+  if (filter.assignedTo && workItem.assignedTo !== filter.assignedTo) {
+    return false;
+  }
+  if (filter.agentType && workItem.targetAgentType !== filter.agentType) {
+    return false;
+  }
+
+  const priority = workItem.effectivePriority ?? workItem.priority;
+  if (filter.minPriority !== undefined && priority < filter.minPriority) {
+    return false;
+  }
+  if (filter.maxPriority !== undefined && priority > filter.maxPriority) {
+    return false;
+  }
+
+  if (!inWindow(new Date(workItem.offeredAt).getTime(), filter.submittedAfter, filter.submittedBefore)) {
+    return false;
+  }
+  if (filter.completedAfter || filter.completedBefore) {
+    const finished = finishedAt(workItem);
+    if (finished === undefined || !inWindow(finished, filter.completedAfter, filter.completedBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Order two work items for a listing (negative if `a` comes first)
+ */
+export function compareWorkItems(
+  a: CoordinatedWorkItem,
+  b: CoordinatedWorkItem,
+  sortBy: WorkSortField = 'priority',
+  sortOrder: 'asc' | 'desc' = 'desc'
+): number {
+  return comparePositions(sortKey(a, sortBy), a.id, sortKey(b, sortBy), b.id, sortOrder);
+}
+
+/**
+ * Check that a cursor was issued for a listing with the given sort
+ */
+export function isValidWorkCursor(cursor: string, query: Pick<WorkQuery, 'sortBy' | 'sortOrder'> = {}): boolean {
+  const decoded = decodeCursor(cursor);
+  return (
+    decoded !== undefined &&
+    decoded.sortBy === (query.sortBy ?? 'priority') &&
+    decoded.sortOrder === (query.sortOrder ?? 'desc')
+  );
+}
+
+/**
+ * Sort matching work items and return the page a query asks for
+ *
+ * @param workItems Items that already match the query's filters
+ * @throws If the cursor is malformed or was issued for a different sort
+ */
+export function paginateWork(workItems: CoordinatedWorkItem[], query: WorkQuery = {}): WorkQueryResult {
+  const sortBy = query.sortBy ?? 'priority';
+  const sortOrder = query.sortOrder ?? 'desc';
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_WORK_PAGE_SIZE), 1), MAX_WORK_PAGE_SIZE);
+
+  if (query.cursor && !isValidWorkCursor(query.cursor, { sortBy, sortOrder })) {
+    throw new Error('Invalid cursor for this sort order');
+  }
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+  const sorted = workItems
+    .map(workItem => ({ workItem, key: sortKey(workItem, sortBy) }))
+    .sort((a, b) => comparePositions(a.key, a.workItem.id, b.key, b.workItem.id, sortOrder));
+  const remaining = after
+    ? sorted.filter(entry => comparePositions(entry.key, entry.workItem.id, after.key, after.id, sortOrder) > 0)
+    : sorted;
+  const page = remaining.slice(0, limit);
+  const last = page.at(-1);
+
+  return {
+    workItems: page.map(entry => entry.workItem),
+    count: page.length,
+    total: sorted.length,
+    ...(remaining.length > limit && last && {
+      nextCursor: encodeCursor({ sortBy, sortOrder, key: last.key, id: last.workItem.id }),
+    }),
+  };
+}
+
+function inWindow(at: number, after?: string, before?: string): boolean {
+  if (after && at < new Date(after).getTime()) {
+    return false;
+  }
+  if (before && at >= new Date(before).getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Sort key of a work item; the listing orders keys element by element
+ *
+ * Priority sorts by effective priority, then oldest submission first.
+ * Unfinished items sort as the oldest when sorting by completion time.
+ */
+function sortKey(workItem: CoordinatedWorkItem, sortBy: WorkSortField): number[] {
+  const submitted = new Date(workItem.offeredAt).getTime();
+  switch (sortBy) {
+    case 'priority':
+      return [workItem.effectivePriority ?? workItem.priority, -submitted];
+    case 'submittedAt':
+      return [submitted];
+    case 'completedAt':
+      return [finishedAt(workItem) ?? 0];
+  }
+}
+
+function comparePositions(aKey: number[], aId: string, bKey: number[], bId: string, sortOrder: 'asc' | 'desc'): number {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  for (let i = 0; i < aKey.length; i++) {
+    const difference = (aKey[i] ?? 0) - (bKey[i] ?? 0);
+    if (difference !== 0) {
+      return difference * direction;
+    }
+  }
+  // Break ties by ID so every item has a stable position
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+function encodeCursor(cursor: WorkCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): WorkCursor | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as WorkCursor;
+    if (
+      !WORK_SORT_FIELDS.includes(decoded.sortBy) ||
+      !['asc', 'desc'].includes(decoded.sortOrder) ||
+      !Array.isArray(decoded.key) ||
+      !decoded.key.every(value => typeof value === 'number') ||
+      decoded.key.length !== (decoded.sortBy === 'priority' ? 2 : 1) ||
+      typeof decoded.id !== 'string'
+    ) {
+      return undefined;
+    }
+    return decoded;
+  } catch {
+    return undefined;
+  }
+}
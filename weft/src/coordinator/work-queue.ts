@@ -0,0 +1,74 @@
+/**
+ * Work Queue
+ *
+ * Publishes routed work items onto the per-project JetStream work queue
+ * stream (`LOOM_WORK_{projectId}`), one subject per capability, so agents
+ * consuming from JetStream get durable delivery and redelivery.
+ */
+
+import type { NatsConnection, JetStreamClient } from 'nats';
+import { RetentionPolicy, StorageType } from 'nats';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { StreamNames, WorkSubjects } from '@loom/shared';
+
+/**
+ * JetStream work queue publisher
+ */
+export class WorkQueue {
+  private js: JetStreamClient | null = null;
+
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {}
+
+  /**
+   * Initialize the queue (create the stream if needed)
+   */
+  async initialize(): Promise<void> {
+    const jsm = await this.nc.jetstreamManager();
+    const streamName = StreamNames.workQueue(this.projectId);
+
+    try {
+      await jsm.streams.info(streamName);
+    } catch {
+      // Stream doesn't exist, create it
+      try {
+        await jsm.streams.add({
+          name: streamName,
+          subjects: [WorkSubjects.queue(this.projectId, '>')],
+          retention: RetentionPolicy.Workqueue,
+          storage: StorageType.File,
+        });
+      } catch (error) {
+        // Another stream may already cover the queue subjects (e.g. created by Warp)
+        console.warn(`Could not create work queue stream ${streamName}:`, (error as Error).message);
+      }
+    }
+
+    this.js = this.nc.jetstream();
+  }
+
+  /**
+   * Publish a work item onto its capability queue
+   *
+   * The message ID is the item's ID and attempt, so JetStream drops a
+   * second publish of the same attempt within its duplicate window
+   * (e.g. when restored work is dispatched again after a restart).
+   */
+  async publish(workItem: CoordinatedWorkItem): Promise<void> {
+    if (!this.js) {
+      throw new Error('WorkQueue not initialized');
+    }
+
+    const subject = WorkSubjects.queue(this.projectId, workItem.capability);
+    await this.js.publish(subject, JSON.stringify(workItem), { msgID: `${workItem.id}:${workItem.attempts}` });
+  }
+
+  /**
+   * Close the queue
+   */
+  async close(): Promise<void> {
+    this.js = null;
+  }
+}
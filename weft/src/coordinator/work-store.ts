@@ -0,0 +1,103 @@
+/**
+ * Work Item Store
+ *
+ * Persists coordinated work items to the per-project `loom-work-{projectId}`
+ * NATS KV bucket so pending, assigned and completed work survives a restart.
+ */
+
+import type { NatsConnection, KV } from 'nats';
+import type { CoordinatedWorkItem } from '@loom/shared';
+import { KVBuckets } from '@loom/shared';
+import type { WorkItemPersistence } from './base-coordinator.js';
+
+/**
+ * KV-backed work item persistence
+ *
+ * Each work item is stored as JSON under its ID.
+ */
+export class KVWorkStore implements WorkItemPersistence {
+  private kv: KV | null = null;
+
+  constructor(
+    private nc: NatsConnection,
+    private projectId: string
+  ) {}
+
+  /**
+   * Initialize the store (create KV bucket if needed)
+   */
+  async initialize(): Promise<void> {
+    const js = this.nc.jetstream();
+    const bucketName = KVBuckets.workState(this.projectId);
+
+    try {
+      this.kv = await js.views.kv(bucketName);
+    } catch {
+      // Bucket doesn't exist, create it
+      this.kv = await js.views.kv(bucketName, {
+        history: 1,
+        ttl: 0, // No TTL - the coordinator removes finished work itself
+      });
+    }
+  }
+
+  /**
+   * Store the current state of a work item
+   */
+  async save(workItem: CoordinatedWorkItem): Promise<void> {
+    if (!this.kv) {
+      throw new Error('KVWorkStore not initialized');
+    }
+
+    await this.kv.put(workItem.id, JSON.stringify(workItem));
+  }
+
+  /**
+   * Remove a work item
+   */
+  async remove(workItemId: string): Promise<void> {
+    if (!this.kv) {
+      throw new Error('KVWorkStore not initialized');
+    }
+
+    await this.kv.delete(workItemId);
+  }
+
+  /**
+   * Load all stored work items
+   */
+  async loadAll(): Promise<CoordinatedWorkItem[]> {
+    if (!this.kv) {
+      throw new Error('KVWorkStore not initialized');
+    }
+
+    // Collect all keys first to ensure iterator is fully consumed
+    const keys: string[] = [];
+    const iter = await this.kv.keys();
+    for await (const key of iter) {
+      keys.push(key);
+    }
+
+    const workItems: CoordinatedWorkItem[] = [];
+    for (const key of keys) {
+      const entry = await this.kv.get(key);
+      if (entry?.value && entry.value.length > 0) {
+        try {
+          workItems.push(JSON.parse(entry.string()) as CoordinatedWorkItem);
+        } catch {
+          // Skip invalid entries
+        }
+      }
+    }
+
+    return workItems;
+  }
+
+  /**
+   * Close the store
+   */
+  async close(): Promise<void> {
+    // KV doesn't need explicit closing
+    this.kv = null;
+  }
+}
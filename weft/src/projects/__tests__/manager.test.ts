@@ -0,0 +1,63 @@
+/**
+ * Project Manager Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { NatsConnection } from 'nats';
+import { DEFAULT_COORDINATOR_CONFIG } from '@loom/shared';
+import { ProjectManager } from '../manager.js';
+import type { ProjectContext } from '../context.js';
+
+/**
+ * Connection whose JetStream lists the given stream names
+ */
+function connection(streams: string[]): NatsConnection {
+  return {
+    jetstreamManager: async () => ({
+      streams: {
+        names: () =>
+          (async function* () {
+            yield* streams;
+          })(),
+      },
+    }),
+  } as unknown as NatsConnection;
+}
+
+describe('ProjectManager', () => {
+  const streams = [
+    'KV_loom-work-alpha',
+    'KV_loom-config-alpha',
+    'KV_loom-config-beta',
+    'KV_loom-agents-gamma',
+    'KV_loom-config-global',
+    'LOOM_WORK_delta',
+  ];
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should find projects with stored work or configuration', async () => {
+    const manager = new ProjectManager(connection(streams), DEFAULT_COORDINATOR_CONFIG);
+
+    expect(await manager.findStoredProjects()).toEqual(['alpha', 'beta']);
+  });
+
+  it('should restore stored projects, skipping those that fail to load', async () => {
+    const manager = new ProjectManager(connection(streams), DEFAULT_COORDINATOR_CONFIG);
+    const createProject = vi
+      .spyOn(manager as unknown as { createProject: (id: string) => Promise<ProjectContext> }, 'createProject')
+      .mockImplementation(async (projectId: string) => {
+        if (projectId === 'beta') {
+          throw new Error('KV unavailable');
+        }
+        return { projectId } as ProjectContext;
+      });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await manager.restoreStoredProjects()).toEqual(['alpha']);
+    expect(createProject).toHaveBeenCalledTimes(2);
+    expect(manager.listProjects()).toEqual(['alpha']);
+  });
+});
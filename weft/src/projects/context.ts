@@ -8,10 +8,15 @@
 
 import type { NatsConnection } from 'nats';
 import type { CoordinatorConfiguration } from '@loom/shared';
-import { ExtendedCoordinator, type ExtendedCoordinatorConfig, initializeRegistry } from '../coordinator/index.js';
+import { WorkSubjects } from '@loom/shared';
+import { ExtendedCoordinator, type ExtendedCoordinatorConfig, type DeadlineEvent, type SpinUpTriggerEvent, initializeRegistry, KVWorkStore, WorkQueue, DeadLetterQueue, ArtifactStore, NatsAgentInbox } from '../coordinator/index.js';
 import { TargetRegistry, HealthCheckRunner } from '../targets/index.js';
 import { SpinUpManager } from '../spin-up/index.js';
 import { IdleTracker } from '../idle/index.js';
+import { ConfigStore } from '../config/index.js';
+import { WorkScheduler } from '../scheduling/index.js';
+import { RoutingRuleManager, BoundaryConfigManager } from '../routing/index.js';
+import { AgentTypeRegistry, findAgentTypeReferences } from '../agent-types/index.js';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -20,6 +25,15 @@ import { v4 as uuidv4 } from 'uuid';
 export interface ProjectContext {
   projectId: string;
   coordinator: ExtendedCoordinator;
+  workStore: KVWorkStore;
+  workQueue: WorkQueue;
+  deadLetterQueue: DeadLetterQueue;
+  artifactStore: ArtifactStore;
+  configStore: ConfigStore;
+  agentTypes: AgentTypeRegistry;
+  scheduler: WorkScheduler;
+  routingRules: RoutingRuleManager;
+  boundaries: BoundaryConfigManager;
   targetRegistry: TargetRegistry;
   spinUpManager: SpinUpManager;
   idleTracker: IdleTracker;
@@ -52,6 +66,31 @@ export async function createProjectContext(
   await initializeRegistry(nc, projectId);
   console.log(`  Agent registry initialized for project: ${projectId}`);
 
+  // Initialize Work Store (persists work items across restarts)
+  const workStore = new KVWorkStore(nc, projectId);
+  await workStore.initialize();
+
+  // Initialize Work Queue (JetStream dispatch to agents)
+  const workQueue = new WorkQueue(nc, projectId);
+  await workQueue.initialize();
+
+  // Initialize Dead-Letter Queue (work that failed for good)
+  const deadLetterQueue = new DeadLetterQueue(nc, projectId);
+  await deadLetterQueue.initialize();
+
+  // Initialize Artifact Store (result files uploaded by agents)
+  const artifactStore = new ArtifactStore(nc, projectId);
+  await artifactStore.initialize();
+
+  // Initialize Config Store (runtime configuration such as schedules)
+  const configStore = new ConfigStore(nc, projectId);
+  await configStore.initialize();
+
+  // Initialize Agent Types (built-in, configured and runtime types)
+  const agentTypes = new AgentTypeRegistry(configStore, config.agentTypes);
+  const agentTypeCount = await agentTypes.initialize();
+  console.log(`  Loaded ${agentTypeCount} runtime agent types for project: ${projectId}`);
+
   // Initialize Target Registry
   const targetRegistry = new TargetRegistry(nc, projectId);
   await targetRegistry.initialize();
@@ -83,25 +122,55 @@ export async function createProjectContext(
     username: process.env.USER || 'coordinator',
     staleThresholdMs: 300000,
     cleanupIntervalMs: 60000,
+    persistence: workStore,
+    inbox: new NatsAgentInbox(nc, projectId),
+    leaseDurationMs: config.work.leases.durationMs,
+    leaseCheckIntervalMs: config.work.leases.checkIntervalMs,
+    offerTimeoutMs: config.work.dispatch.offerTimeoutMs,
+    redispatchDelayMs: config.work.dispatch.redispatchDelayMs,
+    dispatchWindow: config.work.dispatch.window,
+    fairShare: config.work.fairShare,
+    retryPolicy: config.work.retry,
+    aging: config.work.aging,
+    deadlines: config.work.deadlines,
+    idempotency: config.work.idempotency,
+    agentTypes,
     routing: {
       boundaryConfigs: config.boundaryConfigs,
     },
   };
+  const pushDispatch = config.work.dispatch.mode === 'push';
   const coordinator = new ExtendedCoordinator(coordinatorConfig);
 
+  // Load routing rules before restored work is dispatched
+  const routingRules = new RoutingRuleManager(configStore, coordinator.getRoutingEngine(), agentTypes);
+  const ruleCount = await routingRules.initialize();
+  console.log(`  Loaded ${ruleCount} routing rules for project: ${projectId}`);
+
+  // Load boundary configurations and keep following changes to them
+  const boundaries = new BoundaryConfigManager(
+    configStore,
+    coordinator.getRoutingEngine(),
+    config.boundaryConfigs,
+    agentTypes
+  );
+  const boundaryCount = await boundaries.initialize();
+  console.log(`  Loaded ${boundaryCount} stored boundary configurations for project: ${projectId}`);
+
   // Wire up spin-up triggers
-  coordinator.on('spin-up-trigger', async (event) => {
+  coordinator.on('spin-up-trigger', async (event: SpinUpTriggerEvent) => {
     console.log(`[${projectId}] Spin-up trigger: ${event.agentType} for capability ${event.capability}`);
 
-    const targets = await targetRegistry.queryTargets({
+    const target = await targetRegistry.selectTarget({
       agentType: event.agentType,
       capability: event.capability,
+      requiredCapabilities: event.requiredCapabilities,
+      preferredCapabilities: event.preferredCapabilities,
       boundary: event.boundary,
-      status: 'available',
+      tags: event.targetTags,
     });
 
-    if (targets.length > 0) {
-      const target = targets[0]!;
+    if (target) {
       console.log(`[${projectId}] Starting spin-up for target: ${target.name}`);
       await spinUpManager.requestSpinUp(target, event.workItemId, event.capability);
     } else {
@@ -109,6 +178,89 @@ export async function createProjectContext(
     }
   });
 
+  // Wire up dispatch for claimable work (JetStream queue, or offers to agent inboxes)
+  coordinator.on('work-ready', async (workItemId: string) => {
+    const workItem = coordinator.getAssignment(workItemId);
+    if (!workItem || workItem.status !== 'pending') {
+      return;
+    }
+
+    try {
+      if (pushDispatch) {
+        await coordinator.dispatchWork(workItemId);
+      } else {
+        await workQueue.publish(workItem);
+      }
+    } catch (error) {
+      console.error(`[${projectId}] Failed to dispatch work item ${workItemId}:`, error);
+    }
+  });
+
+  coordinator.on('work-undispatched', (workItemId: string) => {
+    console.log(`[${projectId}] No agent accepted work item ${workItemId}; offering again later`);
+  });
+
+  coordinator.on('work-cancel-unacknowledged', (workItemId: string, agentGuid: string, reason: string) => {
+    console.warn(`[${projectId}] Agent ${agentGuid} did not acknowledge cancellation of work item ${workItemId}: ${reason}`);
+  });
+
+  // Wire up dead-lettering for work that failed for good
+  coordinator.on('work-failed', async (workItemId: string) => {
+    const workItem = coordinator.getAssignment(workItemId);
+    if (!workItem) {
+      return;
+    }
+
+    try {
+      await deadLetterQueue.add(workItem);
+    } catch (error) {
+      console.error(`[${projectId}] Failed to dead-letter work item ${workItemId}:`, error);
+    }
+  });
+
+  // Wire up artifact retention (artifacts live as long as their work item)
+  coordinator.on('work-removed', async (workItemId: string) => {
+    try {
+      await artifactStore.removeAll(workItemId);
+    } catch (error) {
+      console.error(`[${projectId}] Failed to remove artifacts for work item ${workItemId}:`, error);
+    }
+  });
+
+  // Wire up deadline notifications so submitters learn about missed deadlines
+  const publishDeadline = (type: 'approaching' | 'missed' | 'expired') => (event: DeadlineEvent) => {
+    console.log(`[${projectId}] Deadline ${type} for work item ${event.workItemId} (${event.deadline})`);
+    nc.publish(WorkSubjects.deadline(projectId), JSON.stringify({ type, ...event }));
+  };
+  coordinator.on('work-deadline-approaching', publishDeadline('approaching'));
+  coordinator.on('work-deadline-missed', publishDeadline('missed'));
+  coordinator.on('work-expired', publishDeadline('expired'));
+
+  // Restore work only now: settling restored work emits the events wired up above
+  const restoredCount = await coordinator.initialize();
+  console.log(`  Restored ${restoredCount} work items for project: ${projectId}`);
+
+  // Drop artifacts of work items removed while we were down
+  const trackedIds = new Set(coordinator.getAssignments().map(w => w.id));
+  const prunedCount = await artifactStore.prune(trackedIds);
+  if (prunedCount > 0) {
+    console.log(`  Pruned ${prunedCount} orphaned artifacts for project: ${projectId}`);
+  }
+
+  // Initialize Work Scheduler (recurring submissions)
+  const scheduler = new WorkScheduler(configStore, (request) => coordinator.submitClassifiedWork(request));
+  const scheduleCount = await scheduler.initialize();
+  console.log(`  Loaded ${scheduleCount} schedules for project: ${projectId}`);
+
+  scheduler.on('schedule-error', (schedule, error) => {
+    console.error(`[${projectId}] Schedule ${schedule.name} failed to submit work:`, error);
+  });
+
+  // Keep agent types in use from being removed
+  agentTypes.setReferenceFinder(name =>
+    findAgentTypeReferences({ boundaries, routingRules, targetRegistry, coordinator, scheduler }, name)
+  );
+
   // Wire up idle shutdown signals
   idleTracker.on('shutdown-signal', async (agentGuid: string) => {
     console.log(`[${projectId}] Idle shutdown signal for agent: ${agentGuid}`);
@@ -123,6 +275,15 @@ export async function createProjectContext(
   return {
     projectId,
     coordinator,
+    workStore,
+    workQueue,
+    deadLetterQueue,
+    artifactStore,
+    configStore,
+    agentTypes,
+    scheduler,
+    routingRules,
+    boundaries,
     targetRegistry,
     spinUpManager,
     idleTracker,
@@ -141,7 +302,15 @@ export async function shutdownProjectContext(context: ProjectContext): Promise<v
   context.healthCheckRunner.stop();
   context.idleTracker.shutdown();
   context.spinUpManager.destroy();
+  context.scheduler.shutdown();
+  context.boundaries.shutdown();
+  await context.coordinator.flush();
   context.coordinator.shutdown();
+  await context.workStore.close();
+  await context.workQueue.close();
+  await context.deadLetterQueue.close();
+  await context.artifactStore.close();
+  await context.configStore.close();
   await context.targetRegistry.close();
 
   console.log(`Project context shutdown complete: ${context.projectId}`);
@@ -2,11 +2,14 @@
  * Project Manager
  *
  * Manages multiple project contexts for multi-tenant operation.
- * Projects are auto-discovered and created on first request.
+ * Projects are auto-discovered and created on first request; projects with
+ * work or configuration stored by an earlier run are restored at startup.
  */
 
 import type { NatsConnection } from 'nats';
 import type { CoordinatorConfiguration } from '@loom/shared';
+import { KVBuckets } from '@loom/shared';
+import type { FairShareStats } from '../coordinator/index.js';
 import {
   type ProjectContext,
   createProjectContext,
@@ -105,15 +108,19 @@ export class ProjectManager {
     totals: {
       agents: number;
       pendingWork: number;
+      pausedWork: number;
       activeWork: number;
       completedWork: number;
       failedWork: number;
+      expiredWork: number;
+      blockedWork: number;
       targets: number;
     };
     byProject: Record<string, {
       agents: number;
       pendingWork: number;
       activeWork: number;
+      fairShare: FairShareStats;
       targets: number;
       lastActivity: string;
     }>;
@@ -122,9 +129,12 @@ export class ProjectManager {
     const totals = {
       agents: 0,
       pendingWork: 0,
+      pausedWork: 0,
       activeWork: 0,
       completedWork: 0,
       failedWork: 0,
+      expiredWork: 0,
+      blockedWork: 0,
       targets: 0,
     };
 
@@ -137,6 +147,7 @@ export class ProjectManager {
         agents: workers.length,
         pendingWork: coordStats.pending,
         activeWork: coordStats.active,
+        fairShare: context.coordinator.getFairShareStats(),
         targets: targets.length,
         lastActivity: context.lastActivityAt.toISOString(),
       };
@@ -145,9 +156,12 @@ export class ProjectManager {
 
       totals.agents += projectStats.agents;
       totals.pendingWork += coordStats.pending;
+      totals.pausedWork += coordStats.paused;
       totals.activeWork += coordStats.active;
       totals.completedWork += coordStats.completed;
       totals.failedWork += coordStats.failed;
+      totals.expiredWork += coordStats.expired;
+      totals.blockedWork += coordStats.blocked;
       totals.targets += targets.length;
     }
 
@@ -158,6 +172,48 @@ export class ProjectManager {
     };
   }
 
+  /**
+   * Find projects with a work or config KV bucket (stored by an earlier run)
+   */
+  async findStoredProjects(): Promise<string[]> {
+    // KV buckets are backed by streams named KV_{bucket}
+    const prefixes = [KVBuckets.workState(''), KVBuckets.config('')].map(bucket => `KV_${bucket}`);
+    const projectIds = new Set<string>();
+
+    const jsm = await this.nc.jetstreamManager();
+    for await (const name of jsm.streams.names()) {
+      const prefix = prefixes.find(p => name.startsWith(p));
+      const projectId = prefix ? name.slice(prefix.length) : '';
+      // 'global' is reserved for cross-project requests
+      if (projectId && projectId !== 'global') {
+        projectIds.add(projectId);
+      }
+    }
+
+    return Array.from(projectIds).sort();
+  }
+
+  /**
+   * Create the contexts of every project with stored work or configuration
+   *
+   * Restored work is only dispatched, leased and deadline-checked, and
+   * schedules only fire, once a project's context exists.
+   *
+   * @returns IDs of the projects restored (a project that fails to load is logged and skipped)
+   */
+  async restoreStoredProjects(): Promise<string[]> {
+    const restored: string[] = [];
+    for (const projectId of await this.findStoredProjects()) {
+      try {
+        await this.getOrCreateProject(projectId);
+        restored.push(projectId);
+      } catch (error) {
+        console.error(`Failed to restore project ${projectId}:`, error);
+      }
+    }
+    return restored;
+  }
+
   /**
    * Shutdown a specific project
    */
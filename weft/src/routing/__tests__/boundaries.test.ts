@@ -0,0 +1,178 @@
+/**
+ * Boundary Configuration Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RoutingEngine } from '../engine.js';
+import {
+  BoundaryConfigManager,
+  applyBoundaryUpdates,
+  validateBoundaryConfig,
+  type BoundaryConfigStore,
+} from '../boundaries.js';
+
+/**
+ * In-memory store whose watchers see every change, like a shared KV bucket
+ */
+function memoryStore(): BoundaryConfigStore & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  const watchers = new Set<{ prefix: string; onChange: (key: string, value: unknown) => void }>();
+  const notify = (key: string, value: unknown) => {
+    for (const watcher of watchers) {
+      if (key.startsWith(`${watcher.prefix}.`)) {
+        watcher.onChange(key, value);
+      }
+    }
+  };
+
+  return {
+    entries,
+    async put(key: string, value: unknown) {
+      entries.set(key, value);
+      notify(key, value);
+    },
+    async delete(key: string) {
+      entries.delete(key);
+      notify(key, null);
+    },
+    async list<T>(prefix: string) {
+      return Array.from(entries.entries())
+        .filter(([key]) => key.startsWith(`${prefix}.`))
+        .map(([, value]) => value as T);
+    },
+    async watch<T>(prefix: string, onChange: (key: string, value: T | null) => void) {
+      const watcher = { prefix, onChange: onChange as (key: string, value: unknown) => void };
+      watchers.add(watcher);
+      return () => {
+        watchers.delete(watcher);
+      };
+    },
+  };
+}
+
+describe('validateBoundaryConfig', () => {
+  it('should require a name usable as a key', () => {
+    expect(() => validateBoundaryConfig({ name: 'team a' })).toThrow('name must');
+    expect(() => validateBoundaryConfig({ name: 'team-a' })).not.toThrow();
+  });
+
+  it('should reject unknown agent types', () => {
+    const isKnown = (agentType: string) => agentType === 'claude-code';
+
+    expect(() => validateBoundaryConfig({ name: 'prod', fallbackAgentType: 'aider' }, isKnown)).toThrow(
+      'Unknown fallbackAgentType'
+    );
+  });
+});
+
+describe('applyBoundaryUpdates', () => {
+  it('should replace given fields, remove null ones and keep the rest', () => {
+    const existing = {
+      name: 'prod',
+      description: 'Production',
+      preferredAgentType: 'claude-code',
+      fallbackAgentType: 'aider',
+    };
+
+    expect(applyBoundaryUpdates(existing, { description: 'Live', fallbackAgentType: null })).toEqual({
+      name: 'prod',
+      description: 'Live',
+      preferredAgentType: 'claude-code',
+    });
+  });
+});
+
+describe('BoundaryConfigManager', () => {
+  let store: ReturnType<typeof memoryStore>;
+  let engine: RoutingEngine;
+  let manager: BoundaryConfigManager;
+
+  beforeEach(async () => {
+    store = memoryStore();
+    engine = new RoutingEngine({ boundaryConfigs: [{ name: 'production', preferredAgentType: 'claude-code' }] });
+    manager = new BoundaryConfigManager(store, engine, engine.getAllBoundaryConfigs());
+    await manager.initialize();
+  });
+
+  it('should persist new configurations and apply them to the engine', async () => {
+    const created = await manager.createConfig({ name: 'staging', triggerSpinUpOnEmpty: false });
+
+    expect(store.entries.get('boundaries.staging')).toEqual(created);
+    expect(engine.shouldTriggerSpinUp('staging')).toBe(false);
+    expect(manager.listConfigs().map(config => config.name)).toEqual(['production', 'staging']);
+  });
+
+  it('should refuse to configure a boundary twice', async () => {
+    await expect(manager.createConfig({ name: 'production' })).rejects.toThrow('already configured');
+  });
+
+  it('should override a configured boundary and return to it when the override is removed', async () => {
+    await manager.updateConfig('production', { preferredAgentType: 'copilot-cli' });
+    expect(engine.resolveAgentType('production').targetAgentType).toBe('copilot-cli');
+
+    expect(await manager.removeConfig('production')).toBe(true);
+    expect(engine.resolveAgentType('production').targetAgentType).toBe('claude-code');
+    expect(await manager.removeConfig('production')).toBe(false);
+  });
+
+  it('should apply changes made by another instance', async () => {
+    const otherEngine = new RoutingEngine();
+    const other = new BoundaryConfigManager(store, otherEngine);
+    await other.initialize();
+
+    await manager.createConfig({ name: 'staging', preferredAgentType: 'copilot-cli' });
+    expect(otherEngine.getBoundaryConfig('staging')?.preferredAgentType).toBe('copilot-cli');
+
+    await other.removeConfig('staging');
+    expect(engine.getBoundaryConfig('staging')).toBeUndefined();
+    expect(manager.isStored('staging')).toBe(false);
+  });
+
+  it('should load stored configurations on initialize', async () => {
+    const created = await manager.createConfig({ name: 'staging' });
+
+    const restoredEngine = new RoutingEngine();
+    const restored = new BoundaryConfigManager(store, restoredEngine);
+
+    expect(await restored.initialize()).toBe(1);
+    expect(restoredEngine.getBoundaryConfig('staging')).toEqual(created);
+  });
+
+  it('should clear optional fields set to null', async () => {
+    await manager.createConfig({ name: 'staging', description: 'Staging', preferredAgentType: 'copilot-cli' });
+
+    const updated = await manager.updateConfig('staging', { description: null, preferredAgentType: null });
+
+    expect(updated.description).toBeUndefined();
+    expect(updated.preferredAgentType).toBeUndefined();
+    expect(store.entries.get('boundaries.staging')).toEqual(updated);
+    expect(engine.getBoundaryConfig('staging')?.preferredAgentType).toBeUndefined();
+  });
+
+  it('should leave the configuration unchanged when the store write fails', async () => {
+    store.put = async () => {
+      throw new Error('KV unavailable');
+    };
+
+    await expect(manager.updateConfig('production', { preferredAgentType: 'copilot-cli' })).rejects.toThrow(
+      'KV unavailable'
+    );
+    expect(engine.resolveAgentType('production').targetAgentType).toBe('claude-code');
+    expect(manager.isStored('production')).toBe(false);
+  });
+
+  it('should skip invalid configurations stored by another instance', async () => {
+    await store.put('boundaries.staging', { name: 'staging', triggerSpinUpOnEmpty: 'yes' });
+
+    expect(engine.getBoundaryConfig('staging')).toBeUndefined();
+    expect(manager.isStored('staging')).toBe(false);
+  });
+
+  it('should stop following changes after shutdown', async () => {
+    manager.shutdown();
+
+    await store.put('boundaries.staging', { name: 'staging' });
+
+    expect(engine.getBoundaryConfig('staging')).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Capability Matching Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { RegisteredAgent } from '@loom/shared';
+import {
+  capabilitySatisfies,
+  missingCapability,
+  sortByPreference,
+  validateCapabilityRequirements,
+} from '../capabilities.js';
+import { ExtendedCoordinator } from '../../coordinator/coordinator.js';
+
+describe('capabilitySatisfies', () => {
+  it('should match identical capabilities', () => {
+    expect(capabilitySatisfies('typescript', 'typescript')).toBe(true);
+    expect(capabilitySatisfies('python', 'typescript')).toBe(false);
+  });
+
+  it('should let a more specific capability satisfy a general one', () => {
+    expect(capabilitySatisfies('lang:typescript', 'lang')).toBe(true);
+    expect(capabilitySatisfies('lang', 'lang:typescript')).toBe(false);
+  });
+
+  it('should match wildcard segments', () => {
+    expect(capabilitySatisfies('lang:typescript', 'lang:*')).toBe(true);
+    expect(capabilitySatisfies('lang:typescript:react', 'lang:*')).toBe(true);
+    expect(capabilitySatisfies('lang', 'lang:*')).toBe(false);
+    expect(capabilitySatisfies('cloud:aws:lambda', 'cloud:*:lambda')).toBe(true);
+    expect(capabilitySatisfies('cloud:aws:s3', 'cloud:*:lambda')).toBe(false);
+  });
+
+  it('should compare versions', () => {
+    expect(capabilitySatisfies('typescript@5.4', 'typescript>=5')).toBe(true);
+    expect(capabilitySatisfies('typescript@4.9', 'typescript>=5')).toBe(false);
+    expect(capabilitySatisfies('typescript@5.4.2', 'typescript<5.5')).toBe(true);
+    expect(capabilitySatisfies('typescript@5.4', 'typescript=5')).toBe(true);
+    expect(capabilitySatisfies('typescript@6.0', 'typescript=5')).toBe(false);
+    expect(capabilitySatisfies('lang:typescript@5.4', 'lang:*>=5')).toBe(true);
+  });
+
+  it('should require a version for a version constraint', () => {
+    expect(capabilitySatisfies('typescript', 'typescript>=5')).toBe(false);
+    expect(capabilitySatisfies('typescript@5.4', 'typescript')).toBe(true);
+  });
+});
+
+describe('capability requirements', () => {
+  it('should report the first required capability that is missing', () => {
+    const requirements = { capability: 'typescript', requiredCapabilities: ['lang:*', 'node>=20'] };
+
+    expect(missingCapability(['typescript', 'lang:go', 'node@18'], requirements)).toBe('node>=20');
+    expect(missingCapability(['typescript', 'lang:go', 'node@20.1'], requirements)).toBeUndefined();
+  });
+
+  it('should put candidates with more preferred capabilities first, keeping their order otherwise', () => {
+    const candidates = [
+      { name: 'a', capabilities: ['typescript'] },
+      { name: 'b', capabilities: ['typescript', 'gpu'] },
+      { name: 'c', capabilities: ['typescript', 'gpu', 'docker'] },
+      { name: 'd', capabilities: ['typescript', 'docker'] },
+    ];
+
+    const sorted = sortByPreference(candidates, { preferredCapabilities: ['gpu', 'docker'] });
+
+    expect(sorted.map(c => c.name)).toEqual(['c', 'b', 'd', 'a']);
+  });
+
+  it('should keep wildcards and versions out of the primary capability', () => {
+    expect(() => validateCapabilityRequirements({ capability: 'lang:*' })).toThrow('plain capability');
+    expect(() => validateCapabilityRequirements({ capability: 'typescript', requiredCapabilities: ['>=5'] })).toThrow(
+      'Invalid capability in requiredCapabilities'
+    );
+    expect(() =>
+      validateCapabilityRequirements({ capability: 'typescript', requiredCapabilities: ['lang:*', 'node>=20'] })
+    ).not.toThrow();
+  });
+});
+
+describe('ExtendedCoordinator with capability requirements', () => {
+  let coordinator: ExtendedCoordinator;
+
+  const agent = (capabilities: string[]): RegisteredAgent => {
+    const now = new Date().toISOString();
+    return {
+      guid: 'agent-1',
+      handle: 'agent-1',
+      agentType: 'claude-code',
+      status: 'online',
+      capabilities,
+      boundaries: ['personal'],
+      hostname: 'localhost',
+      projectId: 'test',
+      visibility: 'project-only',
+      currentTaskCount: 0,
+      maxConcurrentTasks: 1,
+      spindownAfterIdleMs: 0,
+      lastHeartbeat: now,
+      lastActivity: now,
+      registeredAt: now,
+    };
+  };
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  it('should only hand work to agents meeting every requirement', async () => {
+    await coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      requiredCapabilities: ['typescript>=5'],
+      boundary: 'personal',
+    });
+
+    expect(coordinator.nextWorkFor(agent(['typescript@4.9']))).toBeUndefined();
+    expect(coordinator.nextWorkFor(agent(['typescript@5.4']))?.taskId).toBe('task-1');
+  });
+
+  it('should refuse invalid requirements', async () => {
+    await expect(
+      coordinator.submitClassifiedWork({
+        taskId: 'task-2',
+        description: 'Test',
+        capability: 'typescript',
+        preferredCapabilities: ['gpu>='],
+        boundary: 'personal',
+      })
+    ).rejects.toThrow('Invalid capability in preferredCapabilities');
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Routing Policy Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AgentType, RoutingRule, RoutingRuleAction, RoutingRuleMatch } from '@loom/shared';
+import { RoutingEngine } from '../engine.js';
+import { RoutingRuleManager, ruleMatches, validateRoutingRule, type RoutingRuleStore } from '../policy.js';
+import { ExtendedCoordinator, WorkRejectedError, type SpinUpTriggerEvent } from '../../coordinator/coordinator.js';
+import { toRegisteredAgent, type RegistryEntry } from '../../coordinator/registry.js';
+
+const registry = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../../coordinator/registry.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../coordinator/registry.js')>()),
+  getRegistryEntry: async (guid: string) => registry.get(guid) ?? null,
+}));
+
+function memoryStore(): RoutingRuleStore & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    async put(key: string, value: unknown) {
+      entries.set(key, value);
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list<T>(prefix: string) {
+      return Array.from(entries.entries())
+        .filter(([key]) => key.startsWith(`${prefix}.`))
+        .map(([, value]) => value as T);
+    },
+  };
+}
+
+function rule(match: RoutingRuleMatch, action: RoutingRuleAction, overrides: Partial<RoutingRule> = {}): RoutingRule {
+  return {
+    id: 'rule-1',
+    name: 'test rule',
+    order: 0,
+    enabled: true,
+    match,
+    action,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ruleMatches', () => {
+  const work = {
+    capability: 'python',
+    priority: 7 as const,
+    contextData: { repo: { name: 'billing' }, env: 'prod' },
+    submittedBy: 'team-a',
+  };
+
+  it('should match work meeting every condition', () => {
+    const matching = rule(
+      {
+        capabilities: ['python', 'go'],
+        boundaries: ['production'],
+        minPriority: 5,
+        maxPriority: 8,
+        contextData: { 'repo.name': 'billing', env: 'prod' },
+        submittedBy: ['team-a'],
+      },
+      { forbidSpinUp: true }
+    );
+
+    expect(ruleMatches(matching, 'production', work)).toBe(true);
+  });
+
+  it('should not match when any condition fails', () => {
+    expect(ruleMatches(rule({ capabilities: ['go'] }, { reject: true }), 'production', work)).toBe(false);
+    expect(ruleMatches(rule({ boundaries: ['staging'] }, { reject: true }), 'production', work)).toBe(false);
+    expect(ruleMatches(rule({ maxPriority: 6 }, { reject: true }), 'production', work)).toBe(false);
+    expect(ruleMatches(rule({ contextData: { 'repo.name': 'web' } }, { reject: true }), 'production', work)).toBe(false);
+    expect(ruleMatches(rule({ submittedBy: ['team-b'] }, { reject: true }), 'production', work)).toBe(false);
+  });
+
+  it('should treat missing priority and submitter as the defaults', () => {
+    const work = { capability: 'python' };
+
+    expect(ruleMatches(rule({ minPriority: 5, maxPriority: 5 }, { reject: true }), 'dev', work)).toBe(true);
+    expect(ruleMatches(rule({ submittedBy: ['coordinator'] }, { reject: true }), 'dev', work)).toBe(true);
+  });
+});
+
+describe('validateRoutingRule', () => {
+  it('should require an action that does something', () => {
+    expect(() => validateRoutingRule(rule({}, {}))).toThrow('action must');
+  });
+
+  it('should reject unknown agent types', () => {
+    const isKnown = (agentType: string) => agentType === 'claude-code';
+
+    expect(() => validateRoutingRule(rule({}, { requireAgentTypes: ['aider'] }), isKnown)).toThrow('Unknown agent type');
+    expect(() => validateRoutingRule(rule({}, { requireAgentTypes: ['claude-code'] }), isKnown)).not.toThrow();
+  });
+
+  it('should reject an inverted priority range', () => {
+    expect(() => validateRoutingRule(rule({ minPriority: 8, maxPriority: 3 }, { reject: true }))).toThrow('minPriority');
+  });
+});
+
+describe('RoutingEngine with routing rules', () => {
+  const work = { capability: 'python', priority: 5 as const };
+
+  it('should apply the first enabled matching rule', () => {
+    const engine = new RoutingEngine({
+      rules: [
+        rule({}, { preferAgentTypes: ['claude-code'] }, { id: 'later', order: 2 }),
+        rule({ capabilities: ['python'] }, { preferAgentTypes: ['copilot-cli'] }, { id: 'disabled', order: 0, enabled: false }),
+        rule({ capabilities: ['python'] }, { preferAgentTypes: ['copilot-cli'] }, { id: 'first', order: 1 }),
+      ],
+    });
+
+    const decision = engine.resolveAgentType('production', ['claude-code', 'copilot-cli'], work);
+
+    expect(decision.ruleId).toBe('first');
+    expect(decision.targetAgentType).toBe('copilot-cli');
+    expect(decision.isFallback).toBe(false);
+  });
+
+  it('should put preferred types ahead of the boundary preference', () => {
+    const engine = new RoutingEngine({
+      boundaryConfigs: [{ name: 'production', preferredAgentType: 'claude-code' }],
+      rules: [rule({}, { preferAgentTypes: ['copilot-cli'] })],
+    });
+
+    expect(engine.resolveAgentType('production', ['claude-code', 'copilot-cli'], work).targetAgentType).toBe('copilot-cli');
+    expect(engine.resolveAgentType('production', ['claude-code'], work)).toMatchObject({
+      targetAgentType: 'claude-code',
+      isFallback: true,
+    });
+  });
+
+  it('should only route to required types, even when none are available', () => {
+    const engine = new RoutingEngine({
+      boundaryConfigs: [{ name: 'production', preferredAgentType: 'claude-code' }],
+      rules: [rule({}, { requireAgentTypes: ['copilot-cli'] })],
+    });
+
+    const decision = engine.resolveAgentType('production', ['claude-code'], work);
+
+    expect(decision.targetAgentType).toBe('copilot-cli');
+    expect(decision.consideredTypes).toEqual(['copilot-cli']);
+  });
+
+  it('should reject work matched by a rejecting rule', () => {
+    const engine = new RoutingEngine({
+      rules: [rule({ maxPriority: 2 }, { reject: true, rejectReason: 'Low-priority work is paused' })],
+    });
+
+    expect(engine.resolveAgentType('production', undefined, { capability: 'python', priority: 1 })).toMatchObject({
+      rejected: true,
+      reason: 'Low-priority work is paused',
+    });
+    expect(engine.resolveAgentType('production', undefined, work).rejected).toBeUndefined();
+  });
+
+  it('should reject a required type the rule does not allow', () => {
+    const engine = new RoutingEngine({ rules: [rule({}, { requireAgentTypes: ['copilot-cli'] })] });
+
+    const decision = engine.resolveAgentType('production', undefined, { ...work, requiredAgentType: 'claude-code' });
+
+    expect(decision.rejected).toBe(true);
+  });
+
+  it('should let a rule forbid spin-up and pin target tags', () => {
+    const engine = new RoutingEngine({ rules: [rule({}, { forbidSpinUp: true, targetTags: ['gpu'] })] });
+
+    expect(engine.shouldTriggerSpinUp('production', work)).toBe(false);
+    expect(engine.shouldTriggerSpinUp('production')).toBe(true);
+    expect(engine.resolveAgentType('production', undefined, work).targetTags).toEqual(['gpu']);
+  });
+});
+
+describe('RoutingRuleManager', () => {
+  let store: ReturnType<typeof memoryStore>;
+  let engine: RoutingEngine;
+  let manager: RoutingRuleManager;
+
+  beforeEach(() => {
+    store = memoryStore();
+    engine = new RoutingEngine();
+    manager = new RoutingRuleManager(store, engine);
+  });
+
+  it('should persist rules and apply them to the engine', async () => {
+    const created = await manager.createRule({ name: 'no spin-up', action: { forbidSpinUp: true } });
+
+    expect(store.entries.get(`routing-rules.${created.id}`)).toEqual(created);
+    expect(engine.getRules()).toEqual([created]);
+    expect(engine.shouldTriggerSpinUp('production', { capability: 'python' })).toBe(false);
+  });
+
+  it('should append new rules after existing ones', async () => {
+    const first = await manager.createRule({ name: 'first', action: { reject: true } });
+    const second = await manager.createRule({ name: 'second', action: { reject: true } });
+
+    expect(second.order).toBe(first.order + 1);
+  });
+
+  it('should reorder rules on update', async () => {
+    const first = await manager.createRule({ name: 'first', action: { reject: true } });
+    const second = await manager.createRule({ name: 'second', action: { reject: true } });
+
+    await manager.updateRule(second.id, { order: -1 });
+
+    expect(engine.getRules().map(r => r.id)).toEqual([second.id, first.id]);
+  });
+
+  it('should remove rules from the store and engine', async () => {
+    const created = await manager.createRule({ name: 'reject', action: { reject: true } });
+
+    expect(await manager.removeRule(created.id)).toBe(true);
+    expect(await manager.removeRule(created.id)).toBe(false);
+    expect(store.entries.size).toBe(0);
+    expect(engine.getRules()).toEqual([]);
+  });
+
+  it('should load stored rules on initialize', async () => {
+    const created = await manager.createRule({ name: 'reject', action: { reject: true } });
+
+    const restoredEngine = new RoutingEngine();
+    const restored = new RoutingRuleManager(store, restoredEngine);
+
+    expect(await restored.initialize()).toBe(1);
+    expect(restoredEngine.getRules()).toEqual([created]);
+  });
+
+  it('should refuse invalid rules', async () => {
+    await expect(manager.createRule({ name: 'empty', action: {} })).rejects.toThrow('action must');
+    expect(store.entries.size).toBe(0);
+  });
+});
+
+describe('ExtendedCoordinator with routing rules', () => {
+  let coordinator: ExtendedCoordinator;
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  const submit = (submittedBy?: string) =>
+    coordinator.submitClassifiedWork({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      submittedBy,
+    });
+
+  it('should refuse work a rule rejects', async () => {
+    coordinator.getRoutingEngine().setRules([rule({ submittedBy: ['bot'] }, { reject: true })]);
+
+    await expect(submit('bot')).rejects.toBeInstanceOf(WorkRejectedError);
+    expect(coordinator.getAssignments()).toHaveLength(0);
+    await expect(submit('team-a')).resolves.toMatchObject({ spinUpTriggered: true });
+  });
+
+  it('should skip spin-up when a rule forbids it and pass on target tags otherwise', async () => {
+    const spinUps: SpinUpTriggerEvent[] = [];
+    coordinator.on('spin-up-trigger', (event: SpinUpTriggerEvent) => {
+      if (event.workItemId) spinUps.push(event);
+    });
+    coordinator.getRoutingEngine().setRules([
+      rule({ submittedBy: ['bot'] }, { forbidSpinUp: true }, { id: 'bots' }),
+      rule({}, { targetTags: ['gpu'] }, { id: 'gpu', order: 1 }),
+    ]);
+
+    expect((await submit('bot')).spinUpTriggered).toBe(false);
+    expect((await submit('team-a')).spinUpTriggered).toBe(true);
+    expect(spinUps.map(e => e.targetTags)).toEqual([['gpu']]);
+  });
+
+  it('should only let the agent types a rule requires take the work', async () => {
+    const entry = (guid: string, agentType: AgentType): RegistryEntry => {
+      const now = new Date().toISOString();
+      return {
+        guid,
+        handle: guid,
+        hostname: 'localhost',
+        projectId: 'test',
+        capabilities: ['typescript'],
+        visibility: 'project-only',
+        status: 'online',
+        currentTaskCount: 0,
+        maxConcurrentTasks: 1,
+        spindownAfterIdleMs: 0,
+        lastHeartbeat: now,
+        lastActivity: now,
+        registeredAt: now,
+        metadata: { agentType, boundaries: ['personal'] },
+      };
+    };
+    registry.set('claude', entry('claude', 'claude-code'));
+    registry.set('copilot', entry('copilot', 'copilot-cli'));
+    coordinator.getRoutingEngine().setRules([rule({}, { requireAgentTypes: ['claude-code'] })]);
+
+    const { workItemId } = await submit();
+
+    expect(coordinator.getAssignment(workItemId)?.permittedAgentTypes).toEqual(['claude-code']);
+    await expect(coordinator.validateClaim(workItemId, 'copilot')).resolves.toEqual({
+      eligible: false,
+      reason: "Routing rule only permits agent types 'claude-code'",
+    });
+    expect(coordinator.nextWorkFor(toRegisteredAgent(registry.get('copilot') as RegistryEntry))).toBeUndefined();
+    await expect(coordinator.validateClaim(workItemId, 'claude')).resolves.toMatchObject({ eligible: true });
+    expect(coordinator.nextWorkFor(toRegisteredAgent(registry.get('claude') as RegistryEntry))?.id).toBe(workItemId);
+    registry.clear();
+  });
+});
+
+describe('ExtendedCoordinator routing explanations', () => {
+  let coordinator: ExtendedCoordinator;
+
+  beforeEach(() => {
+    coordinator = new ExtendedCoordinator({ coordinatorGuid: 'coordinator', projectId: 'test' });
+  });
+
+  afterEach(() => {
+    coordinator.shutdown();
+  });
+
+  const explain = (submittedBy?: string) =>
+    coordinator.explainRouting({
+      taskId: 'task-1',
+      description: 'Test',
+      capability: 'typescript',
+      boundary: 'personal',
+      submittedBy,
+    });
+
+  it('should report a spin-up without submitting the work', async () => {
+    const spinUps: SpinUpTriggerEvent[] = [];
+    coordinator.on('spin-up-trigger', (event: SpinUpTriggerEvent) => spinUps.push(event));
+
+    const explanation = await explain();
+
+    expect(explanation.decision.rejected).toBeFalsy();
+    expect(explanation.candidates).toEqual([]);
+    expect(explanation.spinUp).toMatchObject({ triggered: true });
+    expect(coordinator.getAssignments()).toHaveLength(0);
+    expect(spinUps).toHaveLength(0);
+  });
+
+  it('should name the rule that rejects work or forbids spin-up', async () => {
+    coordinator.getRoutingEngine().setRules([
+      rule({ submittedBy: ['bot'] }, { reject: true }, { id: 'bots', name: 'no bots' }),
+      rule({ submittedBy: ['team-a'] }, { forbidSpinUp: true }, { id: 'team-a', name: 'team a', order: 1 }),
+    ]);
+
+    const rejected = await explain('bot');
+    expect(rejected.decision).toMatchObject({ rejected: true, ruleId: 'bots' });
+    expect(rejected.spinUp).toEqual({ triggered: false, reason: 'Work is rejected' });
+
+    const forbidden = await explain('team-a');
+    expect(forbidden.spinUp).toEqual({ triggered: false, reason: "Routing rule 'team a' forbids spin-up" });
+  });
+
+  it('should refuse unknown dependencies', async () => {
+    await expect(
+      coordinator.explainRouting({
+        taskId: 'task-2',
+        description: 'Test',
+        capability: 'typescript',
+        boundary: 'personal',
+        dependsOn: ['missing'],
+      })
+    ).rejects.toThrow('Unknown dependency: missing');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Agent Scoring Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { RegisteredAgent } from '@loom/shared';
+import { LoadAwareScorer, rankAgents, type AgentScorer } from '../scoring.js';
+import { RoutingEngine } from '../engine.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z').getTime();
+
+function agent(guid: string, overrides: Partial<RegisteredAgent> = {}): RegisteredAgent {
+  const at = new Date(NOW).toISOString();
+  return {
+    guid,
+    handle: guid,
+    agentType: 'claude-code',
+    status: 'online',
+    capabilities: ['typescript'],
+    boundaries: ['personal'],
+    hostname: 'localhost',
+    projectId: 'test',
+    visibility: 'project-only',
+    currentTaskCount: 0,
+    maxConcurrentTasks: 2,
+    spindownAfterIdleMs: 0,
+    lastHeartbeat: at,
+    lastActivity: at,
+    registeredAt: at,
+    ...overrides,
+  };
+}
+
+describe('LoadAwareScorer', () => {
+  it('should exclude saturated agents', () => {
+    const scorer = new LoadAwareScorer();
+
+    expect(scorer.score(agent('full', { currentTaskCount: 2 }), NOW)).toBeUndefined();
+    expect(scorer.score(agent('over', { currentTaskCount: 3 }), NOW)).toBeUndefined();
+  });
+
+  it('should report the factors behind a score', () => {
+    const scorer = new LoadAwareScorer();
+    scorer.recordOutcome('agent-1', true, NOW - 1000);
+    scorer.recordOutcome('agent-1', false, NOW - 1000);
+
+    const score = scorer.score(agent('agent-1', {
+      currentTaskCount: 1,
+      lastActivity: new Date(NOW - 60000).toISOString(),
+    }), NOW);
+
+    expect(score).toMatchObject({ agentGuid: 'agent-1', spareCapacity: 0.5, failureRate: 0.5, idleMs: 60000 });
+    expect(score?.score).toBeCloseTo(0.6 * 0.5 + 0.3 * 0.5 + 0.1 * 0.2);
+  });
+
+  it('should forget outcomes outside the failure window', () => {
+    const scorer = new LoadAwareScorer({ failureWindowMs: 60000 });
+    scorer.recordOutcome('agent-1', false, NOW - 120000);
+
+    expect(scorer.score(agent('agent-1'), NOW)?.failureRate).toBe(0);
+  });
+});
+
+describe('rankAgents', () => {
+  it('should weigh spare capacity above failure rate above idle time', () => {
+    const scorer = new LoadAwareScorer();
+    scorer.recordOutcome('flaky', true, NOW);
+    scorer.recordOutcome('flaky', false, NOW);
+
+    const ranked = rankAgents(scorer, [
+      agent('busy', { currentTaskCount: 1 }),
+      agent('flaky'),
+      agent('recent'),
+      agent('idle', { lastActivity: new Date(NOW - 600000).toISOString() }),
+      agent('full', { currentTaskCount: 2 }),
+    ], NOW);
+
+    expect(ranked.map(s => s.agentGuid)).toEqual(['idle', 'recent', 'flaky', 'busy']);
+  });
+
+  it('should accept a custom scorer', () => {
+    const byHandle: AgentScorer = {
+      score: (a) => ({ agentGuid: a.guid, score: a.handle.length, spareCapacity: 1, failureRate: 0, idleMs: 0 }),
+    };
+
+    const ranked = rankAgents(byHandle, [agent('a'), agent('ccc'), agent('bb')], NOW);
+
+    expect(ranked.map(s => s.agentGuid)).toEqual(['ccc', 'bb', 'a']);
+  });
+});
+
+describe('RoutingEngine ranking', () => {
+  it('should lower the rank of agents whose work fails', () => {
+    const engine = new RoutingEngine();
+    const agents = [agent('agent-1'), agent('agent-2')];
+
+    engine.recordOutcome('agent-1', false);
+
+    expect(engine.rankAgents(agents).map(s => s.agentGuid)).toEqual(['agent-2', 'agent-1']);
+  });
+});
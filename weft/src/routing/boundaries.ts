@@ -0,0 +1,253 @@
+/**
+ * Boundary configuration
+ *
+ * Per-boundary routing preferences (preferred and fallback agent types,
+ * whether to spin up when no agent is available). Boundaries may be
+ * configured with the coordinator; changes made through the API are kept in
+ * the project config store under `boundaries.{name}` and override those.
+ *
+ * Every Weft instance watches the store, so a change made through any of
+ * them reaches each project's routing engine without a restart.
+ */
+
+import type { AgentType, Boundary, BoundaryConfig, BoundaryConfigUpdateRequest } from '@loom/shared';
+import type { ConfigStore } from '../config/index.js';
+import type { AgentTypeRegistry } from '../agent-types/index.js';
+import type { RoutingEngine } from './engine.js';
+
+/** Config store key prefix for boundary configurations */
+const BOUNDARY_PREFIX = 'boundaries';
+
+/** Boundary names usable as config store keys */
+const BOUNDARY_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Storage used by the boundary configuration manager
+ */
+export type BoundaryConfigStore = Pick<ConfigStore, 'put' | 'delete' | 'list' | 'watch'>;
+
+/**
+ * Check a boundary configuration
+ *
+ * @param isKnownAgentType Whether an agent type is defined (default: any type is)
+ * @throws Error describing the first problem found
+ */
+export function validateBoundaryConfig(
+  config: Partial<BoundaryConfig>,
+  isKnownAgentType: (agentType: AgentType) => boolean = () => true
+): void {
+  if (typeof config.name !== 'string' || !BOUNDARY_NAME.test(config.name)) {
+    throw new Error('name must consist of letters, digits, hyphens and underscores');
+  }
+  if (config.description !== undefined && typeof config.description !== 'string') {
+    throw new Error('description must be a string');
+  }
+  for (const field of ['preferredAgentType', 'fallbackAgentType'] as const) {
+    const agentType = config[field];
+    if (agentType !== undefined && (typeof agentType !== 'string' || !isKnownAgentType(agentType))) {
+      throw new Error(`Unknown ${field}: ${String(agentType)}`);
+    }
+  }
+  if (config.triggerSpinUpOnEmpty !== undefined && typeof config.triggerSpinUpOnEmpty !== 'boolean') {
+    throw new Error('triggerSpinUpOnEmpty must be a boolean');
+  }
+}
+
+/**
+ * Apply an update request to a boundary configuration
+ *
+ * Fields given replace the current ones; null removes an optional field.
+ */
+export function applyBoundaryUpdates(existing: BoundaryConfig, updates: BoundaryConfigUpdateRequest): BoundaryConfig {
+  const config: BoundaryConfig = { ...existing };
+  for (const field of ['description', 'preferredAgentType', 'fallbackAgentType'] as const) {
+    if (!(field in updates)) {
+      continue;
+    }
+    const value = updates[field];
+    if (value === null) {
+      delete config[field];
+    } else if (value !== undefined) {
+      config[field] = value;
+    }
+  }
+  if (updates.triggerSpinUpOnEmpty !== undefined) {
+    config.triggerSpinUpOnEmpty = updates.triggerSpinUpOnEmpty;
+  }
+  return config;
+}
+
+/**
+ * Manages a project's boundary configurations and keeps its routing engine in step
+ */
+export class BoundaryConfigManager {
+  private configured: Map<Boundary, BoundaryConfig>;
+  private stored: Map<Boundary, BoundaryConfig> = new Map();
+  private stopWatching?: () => void;
+
+  /**
+   * @param store Storage for boundary configurations changed through the API
+   * @param engine Routing engine to apply configurations to
+   * @param configured Boundary configurations from the coordinator configuration
+   * @param agentTypes Registry agent types are checked against
+   */
+  constructor(
+    private store: BoundaryConfigStore,
+    private engine: RoutingEngine,
+    configured: BoundaryConfig[] = [],
+    private agentTypes?: Pick<AgentTypeRegistry, 'has'>
+  ) {
+    this.configured = new Map(configured.map(config => [config.name, config]));
+  }
+
+  /**
+   * Load stored configurations into the routing engine and start watching for changes
+   * @returns Number of stored configurations loaded
+   */
+  async initialize(): Promise<number> {
+    const stored = await this.store.list<BoundaryConfig>(BOUNDARY_PREFIX);
+    for (const config of stored) {
+      this.stored.set(config.name, config);
+      this.apply(config.name);
+    }
+
+    this.stopWatching = await this.store.watch<BoundaryConfig>(BOUNDARY_PREFIX, (key, value) =>
+      this.onStoreChange(key.slice(BOUNDARY_PREFIX.length + 1), value)
+    );
+
+    return stored.length;
+  }
+
+  /**
+   * List the boundary configurations in effect
+   */
+  listConfigs(): BoundaryConfig[] {
+    return this.engine.getAllBoundaryConfigs().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get the configuration in effect for a boundary
+   */
+  getConfig(name: Boundary): BoundaryConfig | null {
+    return this.engine.getBoundaryConfig(name) ?? null;
+  }
+
+  /**
+   * Configure a boundary that has no configuration yet
+   */
+  async createConfig(request: BoundaryConfig): Promise<BoundaryConfig> {
+    validateBoundaryConfig(request, this.isKnownAgentType);
+    if (this.getConfig(request.name)) {
+      throw new Error(`Boundary '${request.name}' is already configured`);
+    }
+
+    return this.save({
+      name: request.name,
+      description: request.description,
+      preferredAgentType: request.preferredAgentType,
+      fallbackAgentType: request.fallbackAgentType,
+      triggerSpinUpOnEmpty: request.triggerSpinUpOnEmpty ?? true,
+    });
+  }
+
+  /**
+   * Change a boundary's configuration (a configured boundary gets a stored override)
+   *
+   * Fields given replace the current ones; null removes an optional field.
+   */
+  async updateConfig(name: Boundary, updates: BoundaryConfigUpdateRequest): Promise<BoundaryConfig> {
+    const existing = this.getConfig(name);
+    if (!existing) {
+      throw new Error(`Boundary not configured: ${name}`);
+    }
+
+    const config = applyBoundaryUpdates(existing, updates);
+    validateBoundaryConfig(config, this.isKnownAgentType);
+
+    return this.save(config);
+  }
+
+  /**
+   * Remove a boundary's stored configuration (a configured boundary returns to its configuration)
+   * @returns true if the boundary had a stored configuration
+   */
+  async removeConfig(name: Boundary): Promise<boolean> {
+    if (!this.stored.has(name)) {
+      return false;
+    }
+
+    // Change the store first, so a failed write leaves every instance as it was
+    await this.store.delete(`${BOUNDARY_PREFIX}.${name}`);
+    this.stored.delete(name);
+    this.apply(name);
+
+    return true;
+  }
+
+  /**
+   * Check whether a boundary's configuration was changed through the API
+   */
+  isStored(name: Boundary): boolean {
+    return this.stored.has(name);
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  shutdown(): void {
+    this.stopWatching?.();
+    this.stopWatching = undefined;
+  }
+
+  /**
+   * Store a configuration and apply it
+   */
+  private async save(config: BoundaryConfig): Promise<BoundaryConfig> {
+    const saved = { ...config, updatedAt: new Date().toISOString() };
+
+    // Change the store first, so a failed write leaves every instance as it was
+    await this.store.put(`${BOUNDARY_PREFIX}.${saved.name}`, saved);
+    this.stored.set(saved.name, saved);
+    this.apply(saved.name);
+
+    return saved;
+  }
+
+  /**
+   * Apply a change seen in the store (made here or by another instance)
+   *
+   * Invalid entries are skipped. Agent types were checked by the instance
+   * that stored the configuration; this one may not know a new type yet.
+   */
+  private onStoreChange(name: Boundary, config: BoundaryConfig | null): void {
+    if (config) {
+      try {
+        validateBoundaryConfig({ ...config, name });
+      } catch (error) {
+        console.warn(`Skipping invalid configuration for boundary ${name}:`, (error as Error).message);
+        return;
+      }
+      this.stored.set(name, { ...config, name });
+    } else {
+      this.stored.delete(name);
+    }
+    this.apply(name);
+  }
+
+  /**
+   * Hand a boundary's configuration in effect to the routing engine
+   */
+  private apply(name: Boundary): void {
+    const config = this.stored.get(name) ?? this.configured.get(name);
+    if (config) {
+      this.engine.updateBoundaryConfig(config);
+    } else {
+      this.engine.removeBoundaryConfig(name);
+    }
+  }
+
+  /**
+   * Check whether an agent type is defined (any type is without a registry)
+   */
+  private isKnownAgentType = (agentType: AgentType): boolean => this.agentTypes?.has(agentType) ?? true;
+}
@@ -0,0 +1,239 @@
+/**
+ * Capability matching
+ *
+ * Agents and spin-up targets advertise capabilities as colon-separated
+ * paths with an optional version (`lang:typescript@5.4`). Work requires
+ * capabilities by path, where `*` stands for any one segment (or, last,
+ * for any remaining segments) and a version constraint may follow
+ * (`typescript>=5`, `lang:*`).
+ *
+ * A requirement is satisfied by an advertised capability that has the same
+ * path or lies beneath it, so `lang` is met by `lang:typescript`. A version
+ * constraint needs an advertised version: `>=`, `>`, `<=` and `<` compare
+ * numerically segment by segment, and `=` matches every version starting
+ * with the given segments (`=5` accepts `5.4`).
+ */
+
+/** Version comparison operators usable in requirements */
+export type VersionOperator = '>=' | '<=' | '>' | '<' | '=';
+
+/**
+ * A capability requirement or advertised capability, split into parts
+ */
+export interface ParsedCapability {
+  /** Path segments (`*` only in requirements) */
+  path: string[];
+
+  /** Version constraint operator (requirements only) */
+  operator?: VersionOperator;
+
+  /** Version numbers */
+  version?: number[];
+}
+
+/**
+ * The capabilities a piece of work asks for
+ */
+export interface CapabilityRequirements {
+  /** Primary capability (also the work's queue) */
+  capability?: string;
+
+  /** Further capabilities an agent must have */
+  requiredCapabilities?: string[];
+
+  /** Capabilities that rank an agent or target ahead of others */
+  preferredCapabilities?: string[];
+}
+
+const SEGMENT = '[A-Za-z0-9_.+#-]+';
+const VERSION = '\\d+(?:\\.\\d+)*';
+const REQUIREMENT = new RegExp(`^((?:${SEGMENT}|\\*)(?::(?:${SEGMENT}|\\*))*)(?:(>=|<=|>|<|=)(${VERSION}))?$`);
+const ADVERTISED = new RegExp(`^(${SEGMENT}(?::${SEGMENT})*)(?:@(${VERSION}))?$`);
+
+/**
+ * Parse a capability requirement
+ * @returns The parsed requirement, or null if it isn't valid
+ */
+export function parseRequirement(text: string): ParsedCapability | null {
+  const match = REQUIREMENT.exec(text);
+  if (!match) {
+    return null;
+  }
+  return {
+    path: match[1]!.split(':'),
+    operator: match[2] as VersionOperator | undefined,
+    version: match[3]?.split('.').map(Number),
+  };
+}
+
+/**
+ * Parse an advertised capability
+ * @returns The parsed capability, or null if it isn't valid
+ */
+export function parseAdvertised(text: string): ParsedCapability | null {
+  const match = ADVERTISED.exec(text);
+  if (!match) {
+    return null;
+  }
+  return {
+    path: match[1]!.split(':'),
+    version: match[2]?.split('.').map(Number),
+  };
+}
+
+/**
+ * Check that a capability has no wildcard or version (as a queue name must)
+ */
+export function isPlainCapability(text: string): boolean {
+  return !/[*<>=@]/.test(text);
+}
+
+/**
+ * Compare two versions segment by segment (missing segments count as 0)
+ */
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check a version against a requirement's constraint
+ */
+function versionSatisfies(version: number[], operator: VersionOperator, required: number[]): boolean {
+  switch (operator) {
+    case '=':
+      return required.every((part, i) => version[i] === part);
+    case '>=':
+      return compareVersions(version, required) >= 0;
+    case '>':
+      return compareVersions(version, required) > 0;
+    case '<=':
+      return compareVersions(version, required) <= 0;
+    case '<':
+      return compareVersions(version, required) < 0;
+  }
+}
+
+/**
+ * Check whether one advertised capability satisfies a requirement
+ *
+ * Capabilities that don't parse only match identical requirements.
+ */
+export function capabilitySatisfies(advertised: string, requirement: string): boolean {
+  const have = parseAdvertised(advertised);
+  const want = parseRequirement(requirement);
+  if (!have || !want) {
+    return advertised === requirement;
+  }
+
+  for (const [i, segment] of want.path.entries()) {
+    if (segment === '*') {
+      if (have.path.length <= i) {
+        return false;
+      }
+      // A trailing wildcard covers every remaining segment
+      if (i === want.path.length - 1) {
+        break;
+      }
+    } else if (have.path[i] !== segment) {
+      return false;
+    }
+  }
+
+  if (want.operator && want.version) {
+    return have.version !== undefined && versionSatisfies(have.version, want.operator, want.version);
+  }
+  return true;
+}
+
+/**
+ * Check whether any advertised capability satisfies a requirement
+ */
+export function hasCapability(advertised: string[], requirement: string): boolean {
+  return advertised.some(capability => capabilitySatisfies(capability, requirement));
+}
+
+/**
+ * Every capability that work requires: its primary capability and any others
+ */
+export function requiredCapabilities(requirements: CapabilityRequirements): string[] {
+  return [
+    ...(requirements.capability ? [requirements.capability] : []),
+    ...(requirements.requiredCapabilities ?? []),
+  ];
+}
+
+/**
+ * Find the first required capability the advertised capabilities lack
+ */
+export function missingCapability(advertised: string[], requirements: CapabilityRequirements): string | undefined {
+  return requiredCapabilities(requirements).find(requirement => !hasCapability(advertised, requirement));
+}
+
+/**
+ * Check whether advertised capabilities meet every requirement
+ */
+export function meetsRequirements(advertised: string[], requirements: CapabilityRequirements): boolean {
+  return missingCapability(advertised, requirements) === undefined;
+}
+
+/**
+ * Count the preferred capabilities an agent or target has
+ */
+export function preferenceScore(advertised: string[], requirements: CapabilityRequirements): number {
+  return (requirements.preferredCapabilities ?? []).filter(requirement => hasCapability(advertised, requirement))
+    .length;
+}
+
+/**
+ * Sort agents or targets by how many preferred capabilities they have (stable)
+ */
+export function sortByPreference<T extends { capabilities: string[] }>(
+  candidates: T[],
+  requirements: CapabilityRequirements
+): T[] {
+  if (!requirements.preferredCapabilities?.length) {
+    return candidates;
+  }
+  return candidates
+    .map(candidate => ({ candidate, score: preferenceScore(candidate.capabilities, requirements) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Check the capabilities a submission asks for
+ * @throws Error describing the first invalid capability
+ */
+export function validateCapabilityRequirements(requirements: CapabilityRequirements): void {
+  if (requirements.capability !== undefined && !isPlainCapability(requirements.capability)) {
+    throw new Error(
+      `capability must be a plain capability name: ${requirements.capability} (put wildcards and versions in requiredCapabilities)`
+    );
+  }
+  for (const field of ['requiredCapabilities', 'preferredCapabilities'] as const) {
+    const list = requirements[field];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      throw new Error(`${field} must be an array of capabilities`);
+    }
+    const invalid = list.find(requirement => typeof requirement !== 'string' || !parseRequirement(requirement));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid capability in ${field}: ${String(invalid)}`);
+    }
+  }
+}
+
+/**
+ * A key identifying work with the same capability requirements (for sharing lookups)
+ */
+export function requirementsKey(requirements: CapabilityRequirements): string {
+  return `${requiredCapabilities(requirements).join(',')}|${(requirements.preferredCapabilities ?? []).join(',')}`;
+}
@@ -4,6 +4,8 @@
  * Implements boundary-aware routing logic for work items.
  * With user-defined boundaries, routing is straightforward:
  * work with boundary X is routed to agents that include X in their boundaries.
+ * Routing rules (see policy.ts) can narrow or override the boundary's
+ * agent type preferences for the work they match.
  */
 
 import type {
@@ -13,11 +15,22 @@ import type {
   BoundaryConfig,
   AgentType,
   RegisteredAgent,
+  AgentScore,
+  RoutingRule,
 } from '@loom/shared';
+import { DEFAULT_AGENT_TYPE } from '@loom/shared';
+import { LoadAwareScorer, rankAgents, type AgentScorer } from './scoring.js';
+import { findMatchingRule, sortRules, type RoutedWork } from './policy.js';
 
 export interface RoutingEngineConfig {
   /** Optional boundary-specific configurations */
   boundaryConfigs?: BoundaryConfig[];
+
+  /** Agent scorer used to rank eligible agents (default: LoadAwareScorer) */
+  scorer?: AgentScorer;
+
+  /** Routing rules (evaluated in ascending order) */
+  rules?: RoutingRule[];
 }
 
 /**
@@ -25,21 +38,137 @@ export interface RoutingEngineConfig {
  */
 export class RoutingEngine {
   private boundaryConfigs: Map<Boundary, BoundaryConfig>;
+  private scorer: AgentScorer;
+  private rules: RoutingRule[];
 
   constructor(config?: RoutingEngineConfig) {
     this.boundaryConfigs = new Map(
       (config?.boundaryConfigs ?? []).map(bc => [bc.name, bc])
     );
+    this.scorer = config?.scorer ?? new LoadAwareScorer();
+    this.rules = sortRules(config?.rules ?? []);
   }
 
   /**
    * Resolve which agent type should handle work in a boundary
    *
+   * Without work details, only the boundary configuration is consulted.
+   * With them, the first matching routing rule may reject the work, limit
+   * it to some agent types or put others first, and a required agent type
+   * overrides the rest unless the rule forbids it.
+   *
    * @param boundary The workload boundary
    * @param availableTypes Agent types currently available (optional)
+   * @param work The work being routed (optional)
    * @returns Routing decision
    */
   resolveAgentType(
+    boundary: Boundary,
+    availableTypes?: AgentType[],
+    work?: RoutedWork
+  ): RoutingDecision {
+    const rule = work ? this.matchRule(boundary, work) : undefined;
+    const required = work?.requiredAgentType;
+    let decision: RoutingDecision;
+
+    if (rule?.action.reject) {
+      decision = {
+        boundary,
+        targetAgentType: required ?? this.boundaryConfigs.get(boundary)?.preferredAgentType ?? DEFAULT_AGENT_TYPE,
+        isFallback: false,
+        consideredTypes: [],
+        reason: rule.action.rejectReason ?? `Rejected by routing rule '${rule.name}'`,
+        rejected: true,
+      };
+    } else if (required && rule && !this.permits(rule, required)) {
+      decision = {
+        boundary,
+        targetAgentType: required,
+        isFallback: false,
+        consideredTypes: [],
+        reason: `Routing rule '${rule.name}' does not allow agent type '${required}'`,
+        rejected: true,
+      };
+    } else if (required) {
+      decision = {
+        boundary,
+        targetAgentType: required,
+        isFallback: false,
+        consideredTypes: [required],
+        reason: 'Required agent type specified',
+      };
+    } else if (rule && (rule.action.requireAgentTypes?.length || rule.action.preferAgentTypes?.length)) {
+      decision = this.resolveWithRule(boundary, rule, availableTypes);
+    } else {
+      decision = this.resolveFromConfig(boundary, availableTypes);
+    }
+
+    if (rule) {
+      decision.ruleId = rule.id;
+      if (rule.action.targetTags?.length) {
+        decision.targetTags = rule.action.targetTags;
+      }
+      if (rule.action.requireAgentTypes?.length && !decision.rejected) {
+        decision.permittedAgentTypes = rule.action.requireAgentTypes;
+      }
+    }
+    return decision;
+  }
+
+  /**
+   * Resolve an agent type from the routing rule's agent types, then the boundary's
+   */
+  private resolveWithRule(
+    boundary: Boundary,
+    rule: RoutingRule,
+    availableTypes?: AgentType[]
+  ): RoutingDecision {
+    const config = this.boundaryConfigs.get(boundary);
+    const preferences = [
+      ...(rule.action.preferAgentTypes ?? []),
+      config?.preferredAgentType,
+      config?.fallbackAgentType,
+      ...(rule.action.requireAgentTypes ?? []),
+    ].filter((type, index, all): type is AgentType =>
+      type !== undefined && all.indexOf(type) === index && this.permits(rule, type)
+    );
+    const allowed = (availableTypes ?? []).filter(type => this.permits(rule, type));
+
+    const preferredIndex = preferences.findIndex(type => allowed.includes(type));
+    if (preferredIndex >= 0) {
+      return {
+        boundary,
+        targetAgentType: preferences[preferredIndex]!,
+        isFallback: preferredIndex > 0,
+        consideredTypes: preferences.slice(0, preferredIndex + 1),
+        reason: `Agent type chosen by routing rule '${rule.name}' is available`,
+      };
+    }
+
+    if (allowed.length > 0) {
+      return {
+        boundary,
+        targetAgentType: allowed[0]!,
+        isFallback: true,
+        consideredTypes: allowed,
+        reason: `Using first available agent type allowed by routing rule '${rule.name}'`,
+      };
+    }
+
+    const targetType = preferences[0] ?? DEFAULT_AGENT_TYPE;
+    return {
+      boundary,
+      targetAgentType: targetType,
+      isFallback: false,
+      consideredTypes: [targetType],
+      reason: `Agent type chosen by routing rule '${rule.name}' (none available)`,
+    };
+  }
+
+  /**
+   * Resolve an agent type from the boundary configuration alone
+   */
+  private resolveFromConfig(
     boundary: Boundary,
     availableTypes?: AgentType[]
   ): RoutingDecision {
@@ -47,7 +176,7 @@ export class RoutingEngine {
 
     // If no availability info, use preferred type from config or default to any
     if (!availableTypes || availableTypes.length === 0) {
-      const targetType = config?.preferredAgentType ?? 'claude-code';
+      const targetType = config?.preferredAgentType ?? DEFAULT_AGENT_TYPE;
       return {
         boundary,
         targetAgentType: targetType,
@@ -84,10 +213,10 @@ export class RoutingEngine {
     }
 
     // Use first available type
-    const targetType = availableTypes[0] ?? 'claude-code';
+    const targetType = availableTypes[0] ?? DEFAULT_AGENT_TYPE;
     return {
       boundary,
-      targetAgentType: targetType as AgentType,
+      targetAgentType: targetType,
       isFallback: !config?.preferredAgentType,
       consideredTypes: availableTypes,
       reason: 'Using first available agent type',
@@ -134,6 +263,23 @@ export class RoutingEngine {
     return agents.filter(agent => this.isEligible(agent, boundary).eligible);
   }
 
+  /**
+   * Rank eligible agents for new work
+   *
+   * @param agents Eligible agents (see filterEligible)
+   * @returns Scores of the agents the scorer didn't exclude, best first
+   */
+  rankAgents(agents: RegisteredAgent[]): AgentScore[] {
+    return rankAgents(this.scorer, agents);
+  }
+
+  /**
+   * Record whether work handled by an agent succeeded (feeds its failure rate)
+   */
+  recordOutcome(agentGuid: string, succeeded: boolean): void {
+    this.scorer.recordOutcome?.(agentGuid, succeeded, Date.now());
+  }
+
   /**
    * Get the boundary configuration
    */
@@ -143,12 +289,47 @@ export class RoutingEngine {
 
   /**
    * Check if spin-up should be triggered when no agents available
+   *
+   * A routing rule matching the work can forbid spin-up regardless of the
+   * boundary configuration.
    */
-  shouldTriggerSpinUp(boundary: Boundary): boolean {
+  shouldTriggerSpinUp(boundary: Boundary, work?: RoutedWork): boolean {
+    if (work && this.matchRule(boundary, work)?.action.forbidSpinUp) {
+      return false;
+    }
     const config = this.boundaryConfigs.get(boundary);
     return config?.triggerSpinUpOnEmpty ?? true;
   }
 
+  /**
+   * Find the routing rule that applies to work in a boundary
+   */
+  matchRule(boundary: Boundary, work: RoutedWork): RoutingRule | undefined {
+    return findMatchingRule(this.rules, boundary, work);
+  }
+
+  /**
+   * Get the routing rules in evaluation order
+   */
+  getRules(): RoutingRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Replace the routing rules
+   */
+  setRules(rules: RoutingRule[]): void {
+    this.rules = sortRules(rules);
+  }
+
+  /**
+   * Check whether a rule lets work go to an agent type
+   */
+  private permits(rule: RoutingRule, agentType: AgentType): boolean {
+    const required = rule.action.requireAgentTypes;
+    return !required?.length || required.includes(agentType);
+  }
+
   /**
    * Get all boundary configurations
    */
@@ -162,4 +343,11 @@ export class RoutingEngine {
   updateBoundaryConfig(config: BoundaryConfig): void {
     this.boundaryConfigs.set(config.name, config);
   }
+
+  /**
+   * Remove a boundary configuration (the boundary falls back to the defaults)
+   */
+  removeBoundaryConfig(boundary: Boundary): void {
+    this.boundaryConfigs.delete(boundary);
+  }
 }
@@ -5,4 +5,26 @@
 
 export { RoutingEngine } from './engine.js';
 export type { RoutingEngineConfig } from './engine.js';
+export { LoadAwareScorer, rankAgents } from './scoring.js';
+export type { AgentScorer, LoadAwareScorerConfig } from './scoring.js';
 export { createBoundaryConfig, mergeBoundaryConfigs } from './rules.js';
+export {
+  RoutingRuleManager,
+  ruleMatches,
+  findMatchingRule,
+  sortRules,
+  validateRoutingRule,
+} from './policy.js';
+export type { RoutedWork, RoutingRuleStore } from './policy.js';
+export { BoundaryConfigManager, applyBoundaryUpdates, validateBoundaryConfig } from './boundaries.js';
+export type { BoundaryConfigStore } from './boundaries.js';
+export {
+  capabilitySatisfies,
+  hasCapability,
+  meetsRequirements,
+  missingCapability,
+  preferenceScore,
+  sortByPreference,
+  validateCapabilityRequirements,
+} from './capabilities.js';
+export type { CapabilityRequirements } from './capabilities.js';
@@ -0,0 +1,324 @@
+/**
+ * Routing policy
+ *
+ * Declarative routing rules that go beyond per-boundary preferences. Rules
+ * match work on capability, boundary, priority, contextData fields and
+ * submitter, and can require or prefer agent types, pin spin-ups to tagged
+ * targets, forbid spin-up or reject the work. They are evaluated in
+ * ascending `order`; the first enabled rule that matches applies.
+ *
+ * Rules are kept in the project config store under `routing-rules.{id}`.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AgentType,
+  Boundary,
+  Priority,
+  RoutingRule,
+  RoutingRuleCreateRequest,
+  RoutingRuleUpdateRequest,
+} from '@loom/shared';
+import type { ConfigStore } from '../config/index.js';
+import type { AgentTypeRegistry } from '../agent-types/index.js';
+import type { RoutingEngine } from './engine.js';
+
+/** Config store key prefix for routing rules */
+const RULE_PREFIX = 'routing-rules';
+
+/**
+ * The parts of a work submission routing rules match on
+ */
+export interface RoutedWork {
+  capability: string;
+  priority?: Priority;
+  contextData?: Record<string, unknown>;
+  submittedBy?: string;
+  /** Agent type the submitter requires (overrides routing unless a rule forbids it) */
+  requiredAgentType?: AgentType;
+}
+
+/**
+ * Storage used by the routing rule manager
+ */
+export type RoutingRuleStore = Pick<ConfigStore, 'put' | 'delete' | 'list'>;
+
+/**
+ * Read a dot-separated path from context data
+ */
+function readPath(data: Record<string, unknown> | undefined, path: string): unknown {
+  let value: unknown = data;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Check whether a rule's conditions hold for work in a boundary
+ */
+export function ruleMatches(rule: RoutingRule, boundary: Boundary, work: RoutedWork): boolean {
+  const { match } = rule;
+  const priority = work.priority ?? 5;
+
+  if (match.capabilities?.length && !match.capabilities.includes(work.capability)) {
+    return false;
+  }
+  if (match.boundaries?.length && !match.boundaries.includes(boundary)) {
+    return false;
+  }
+  if (match.minPriority !== undefined && priority < match.minPriority) {
+    return false;
+  }
+  if (match.maxPriority !== undefined && priority > match.maxPriority) {
+    return false;
+  }
+  if (match.submittedBy?.length && !match.submittedBy.includes(work.submittedBy ?? 'coordinator')) {
+    return false;
+  }
+  for (const [path, expected] of Object.entries(match.contextData ?? {})) {
+    if (JSON.stringify(readPath(work.contextData, path)) !== JSON.stringify(expected)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Find the rule that applies to work: the first enabled match in order
+ */
+export function findMatchingRule(
+  rules: RoutingRule[],
+  boundary: Boundary,
+  work: RoutedWork
+): RoutingRule | undefined {
+  return rules.find(rule => rule.enabled && ruleMatches(rule, boundary, work));
+}
+
+/**
+ * Sort rules into evaluation order (by `order`, then oldest first)
+ */
+export function sortRules(rules: RoutingRule[]): RoutingRule[] {
+  return [...rules].sort((a, b) => a.order - b.order || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Check that a value is an array of non-empty strings
+ */
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+}
+
+/**
+ * Check that a value is an integer priority (1-10)
+ */
+function isPriority(value: unknown): value is Priority {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 10;
+}
+
+/**
+ * Check a routing rule's conditions and action
+ *
+ * @param isKnownAgentType Whether an agent type is defined (default: any type is)
+ * @throws Error describing the first problem found
+ */
+export function validateRoutingRule(
+  rule: Pick<RoutingRule, 'name' | 'order' | 'enabled' | 'match' | 'action'>,
+  isKnownAgentType: (agentType: AgentType) => boolean = () => true
+): void {
+  if (!rule.name || typeof rule.name !== 'string') {
+    throw new Error('name is required');
+  }
+  if (typeof rule.order !== 'number' || !Number.isFinite(rule.order)) {
+    throw new Error('order must be a number');
+  }
+  if (typeof rule.enabled !== 'boolean') {
+    throw new Error('enabled must be a boolean');
+  }
+
+  const { match, action } = rule;
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    throw new Error('match must be an object');
+  }
+  for (const field of ['capabilities', 'boundaries', 'submittedBy'] as const) {
+    if (match[field] !== undefined && !isStringList(match[field])) {
+      throw new Error(`match.${field} must be an array of non-empty strings`);
+    }
+  }
+  for (const field of ['minPriority', 'maxPriority'] as const) {
+    if (match[field] !== undefined && !isPriority(match[field])) {
+      throw new Error(`match.${field} must be an integer between 1 and 10`);
+    }
+  }
+  if (match.minPriority !== undefined && match.maxPriority !== undefined && match.minPriority > match.maxPriority) {
+    throw new Error('match.minPriority cannot exceed match.maxPriority');
+  }
+  if (
+    match.contextData !== undefined &&
+    (typeof match.contextData !== 'object' || match.contextData === null || Array.isArray(match.contextData))
+  ) {
+    throw new Error('match.contextData must be an object');
+  }
+
+  if (!action || typeof action !== 'object' || Array.isArray(action)) {
+    throw new Error('action is required');
+  }
+  for (const field of ['requireAgentTypes', 'preferAgentTypes'] as const) {
+    const types = action[field];
+    if (types === undefined) {
+      continue;
+    }
+    if (!isStringList(types)) {
+      throw new Error(`action.${field} must be an array of agent types`);
+    }
+    const unknown = types.find(type => !isKnownAgentType(type));
+    if (unknown) {
+      throw new Error(`Unknown agent type in action.${field}: ${unknown}`);
+    }
+  }
+  if (action.targetTags !== undefined && !isStringList(action.targetTags)) {
+    throw new Error('action.targetTags must be an array of non-empty strings');
+  }
+  for (const field of ['forbidSpinUp', 'reject'] as const) {
+    if (action[field] !== undefined && typeof action[field] !== 'boolean') {
+      throw new Error(`action.${field} must be a boolean`);
+    }
+  }
+  if (action.rejectReason !== undefined && typeof action.rejectReason !== 'string') {
+    throw new Error('action.rejectReason must be a string');
+  }
+  if (
+    !action.requireAgentTypes?.length &&
+    !action.preferAgentTypes?.length &&
+    !action.targetTags?.length &&
+    !action.forbidSpinUp &&
+    !action.reject
+  ) {
+    throw new Error('action must require or prefer agent types, set target tags, forbid spin-up or reject');
+  }
+}
+
+/**
+ * Manages a project's routing rules and keeps its routing engine in step
+ */
+export class RoutingRuleManager {
+  private rules: Map<string, RoutingRule> = new Map();
+
+  constructor(
+    private store: RoutingRuleStore,
+    private engine: RoutingEngine,
+    private agentTypes?: Pick<AgentTypeRegistry, 'has'>
+  ) {}
+
+  /**
+   * Load stored rules into the routing engine
+   * @returns Number of rules loaded
+   */
+  async initialize(): Promise<number> {
+    const rules = await this.store.list<RoutingRule>(RULE_PREFIX);
+    for (const rule of rules) {
+      this.rules.set(rule.id, rule);
+    }
+    this.apply();
+    return rules.length;
+  }
+
+  /**
+   * List all rules in evaluation order
+   */
+  listRules(): RoutingRule[] {
+    return sortRules(Array.from(this.rules.values()));
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  getRule(id: string): RoutingRule | null {
+    return this.rules.get(id) ?? null;
+  }
+
+  /**
+   * Create a rule (evaluated after every existing rule unless `order` is given)
+   */
+  async createRule(request: RoutingRuleCreateRequest): Promise<RoutingRule> {
+    const now = new Date().toISOString();
+    const lastOrder = Math.max(-1, ...Array.from(this.rules.values(), rule => rule.order));
+    const rule: RoutingRule = {
+      id: uuidv4(),
+      name: request.name,
+      description: request.description,
+      order: request.order ?? lastOrder + 1,
+      enabled: request.enabled ?? true,
+      match: request.match ?? {},
+      action: request.action,
+      createdAt: now,
+      updatedAt: now,
+    };
+    validateRoutingRule(rule, this.isKnownAgentType);
+
+    this.rules.set(rule.id, rule);
+    this.apply();
+    await this.store.put(`${RULE_PREFIX}.${rule.id}`, rule);
+
+    return rule;
+  }
+
+  /**
+   * Update a rule (`match` and `action` are replaced as a whole)
+   */
+  async updateRule(id: string, updates: RoutingRuleUpdateRequest): Promise<RoutingRule> {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      throw new Error(`Routing rule not found: ${id}`);
+    }
+
+    const rule: RoutingRule = {
+      ...existing,
+      name: updates.name ?? existing.name,
+      description: updates.description ?? existing.description,
+      order: updates.order ?? existing.order,
+      enabled: updates.enabled ?? existing.enabled,
+      match: updates.match ?? existing.match,
+      action: updates.action ?? existing.action,
+      updatedAt: new Date().toISOString(),
+    };
+    validateRoutingRule(rule, this.isKnownAgentType);
+
+    this.rules.set(id, rule);
+    this.apply();
+    await this.store.put(`${RULE_PREFIX}.${id}`, rule);
+
+    return rule;
+  }
+
+  /**
+   * Remove a rule
+   * @returns true if the rule existed
+   */
+  async removeRule(id: string): Promise<boolean> {
+    if (!this.rules.has(id)) {
+      return false;
+    }
+
+    this.rules.delete(id);
+    this.apply();
+    await this.store.delete(`${RULE_PREFIX}.${id}`);
+
+    return true;
+  }
+
+  /**
+   * Check whether an agent type is defined (any type is without a registry)
+   */
+  private isKnownAgentType = (agentType: AgentType): boolean => this.agentTypes?.has(agentType) ?? true;
+
+  /**
+   * Hand the current rules to the routing engine
+   */
+  private apply(): void {
+    this.engine.setRules(this.listRules());
+  }
+}
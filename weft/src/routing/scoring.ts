@@ -0,0 +1,123 @@
+/**
+ * Agent scoring
+ *
+ * Ranks eligible agents for new work. The default scorer excludes agents
+ * with no free task slots and prefers agents with spare capacity, a low
+ * recent failure rate, and no recent activity.
+ */
+
+import type { AgentScore, RegisteredAgent } from '@loom/shared';
+
+/**
+ * Scores agents for work assignment
+ */
+export interface AgentScorer {
+  /**
+   * Score an agent
+   * @returns The agent's score, or undefined to exclude the agent
+   */
+  score(agent: RegisteredAgent, now: number): AgentScore | undefined;
+
+  /**
+   * Record whether work handled by an agent succeeded
+   */
+  recordOutcome?(agentGuid: string, succeeded: boolean, now: number): void;
+}
+
+export interface LoadAwareScorerConfig {
+  /** Relative weight of spare capacity (default: 0.6) */
+  capacityWeight?: number;
+
+  /** Relative weight of recent reliability (default: 0.3) */
+  reliabilityWeight?: number;
+
+  /** Relative weight of idle time (default: 0.1) */
+  idleWeight?: number;
+
+  /** How far back outcomes count towards the failure rate in milliseconds (default: 3600000 = 1 hour) */
+  failureWindowMs?: number;
+
+  /** Idle time that earns the full idle weight in milliseconds (default: 300000 = 5 minutes) */
+  idleSaturationMs?: number;
+}
+
+interface Outcome {
+  at: number;
+  succeeded: boolean;
+}
+
+/**
+ * Default scorer: spare capacity, recent failure rate and last activity
+ */
+export class LoadAwareScorer implements AgentScorer {
+  private capacityWeight: number;
+  private reliabilityWeight: number;
+  private idleWeight: number;
+  private failureWindowMs: number;
+  private idleSaturationMs: number;
+  private outcomes: Map<string, Outcome[]> = new Map();
+
+  constructor(config: LoadAwareScorerConfig = {}) {
+    this.capacityWeight = config.capacityWeight ?? 0.6;
+    this.reliabilityWeight = config.reliabilityWeight ?? 0.3;
+    this.idleWeight = config.idleWeight ?? 0.1;
+    this.failureWindowMs = config.failureWindowMs ?? 3600000;
+    this.idleSaturationMs = config.idleSaturationMs ?? 300000;
+  }
+
+  score(agent: RegisteredAgent, now: number): AgentScore | undefined {
+    const slots = Math.max(agent.maxConcurrentTasks, 1);
+    if (agent.currentTaskCount >= slots) {
+      return undefined;
+    }
+
+    const spareCapacity = (slots - agent.currentTaskCount) / slots;
+    const failureRate = this.failureRate(agent.guid, now);
+    const lastActivity = new Date(agent.lastActivity).getTime();
+    const idleMs = Number.isNaN(lastActivity) ? 0 : Math.max(0, now - lastActivity);
+    const idleFraction = this.idleSaturationMs > 0 ? Math.min(idleMs / this.idleSaturationMs, 1) : 1;
+
+    const totalWeight = this.capacityWeight + this.reliabilityWeight + this.idleWeight;
+    const score = totalWeight > 0
+      ? (this.capacityWeight * spareCapacity
+        + this.reliabilityWeight * (1 - failureRate)
+        + this.idleWeight * idleFraction) / totalWeight
+      : 0;
+
+    return { agentGuid: agent.guid, score, spareCapacity, failureRate, idleMs };
+  }
+
+  recordOutcome(agentGuid: string, succeeded: boolean, now: number): void {
+    const outcomes = this.recentOutcomes(agentGuid, now);
+    outcomes.push({ at: now, succeeded });
+    this.outcomes.set(agentGuid, outcomes);
+  }
+
+  /**
+   * Fraction of an agent's outcomes within the failure window that failed
+   */
+  private failureRate(agentGuid: string, now: number): number {
+    const outcomes = this.recentOutcomes(agentGuid, now);
+    if (outcomes.length === 0) {
+      this.outcomes.delete(agentGuid);
+      return 0;
+    }
+    this.outcomes.set(agentGuid, outcomes);
+    return outcomes.filter(o => !o.succeeded).length / outcomes.length;
+  }
+
+  private recentOutcomes(agentGuid: string, now: number): Outcome[] {
+    const since = now - this.failureWindowMs;
+    return (this.outcomes.get(agentGuid) ?? []).filter(o => o.at > since);
+  }
+}
+
+/**
+ * Score agents and order them best first, dropping excluded agents
+ */
+export function rankAgents(scorer: AgentScorer, agents: RegisteredAgent[], now: number = Date.now()): AgentScore[] {
+  return agents
+    .map(agent => scorer.score(agent, now))
+    .filter((score): score is AgentScore => score !== undefined)
+    .sort((a, b) => b.score - a.score);
+}
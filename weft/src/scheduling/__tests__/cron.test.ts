@@ -0,0 +1,80 @@
+/**
+ * Cron Expression Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronTime, isValidTimeZone } from '../cron.js';
+
+describe('parseCron', () => {
+  it('should parse wildcards, ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-17 1,15 * MON-FRI');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDayOfMonth).toBe(false);
+    expect(cron.anyDayOfWeek).toBe(false);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('out of range');
+    expect(() => parseCron('*/0 * * * *')).toThrow('step');
+    expect(() => parseCron('5-1 * * * *')).toThrow('range');
+    expect(() => parseCron('* * * FOO *')).toThrow('month');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('should find the next matching minute in UTC', () => {
+    const next = nextCronTime('*/15 * * * *', new Date('2025-01-01T10:07:30Z'));
+    expect(next.toISOString()).toBe('2025-01-01T10:15:00.000Z');
+  });
+
+  it('should be strictly after the given time', () => {
+    const next = nextCronTime('0 2 * * *', new Date('2025-01-01T02:00:00Z'));
+    expect(next.toISOString()).toBe('2025-01-02T02:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    const next = nextCronTime('0 0 1 JAN *', new Date('2025-03-10T00:00:00Z'));
+    expect(next.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2025-01-03 is a Friday; the 10th comes later than the next Monday
+    const next = nextCronTime('0 0 10 * MON', new Date('2025-01-03T12:00:00Z'));
+    expect(next.toISOString()).toBe('2025-01-06T00:00:00.000Z');
+  });
+
+  it('should evaluate in the given timezone', () => {
+    // 02:00 in New York is 07:00 UTC in winter and 06:00 UTC in summer
+    expect(nextCronTime('0 2 * * *', new Date('2025-01-15T12:00:00Z'), 'America/New_York').toISOString())
+      .toBe('2025-01-16T07:00:00.000Z');
+    expect(nextCronTime('0 2 * * *', new Date('2025-07-15T12:00:00Z'), 'America/New_York').toISOString())
+      .toBe('2025-07-16T06:00:00.000Z');
+  });
+
+  it('should skip wall-clock times that do not exist on DST days', () => {
+    // 2025-03-09 02:30 does not exist in New York
+    const next = nextCronTime('30 2 * * *', new Date('2025-03-08T12:00:00Z'), 'America/New_York');
+    expect(next.toISOString()).toBe('2025-03-10T06:30:00.000Z');
+  });
+
+  it('should throw for expressions that never match', () => {
+    expect(() => nextCronTime('0 0 31 2 *', new Date('2025-01-01T00:00:00Z'))).toThrow('no upcoming run');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA names and reject unknown ones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
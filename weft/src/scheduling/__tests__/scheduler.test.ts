@@ -0,0 +1,116 @@
+/**
+ * Work Scheduler Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { WorkSubmitRequest } from '@loom/shared';
+import { WorkScheduler, type ScheduleStore } from '../scheduler.js';
+
+function memoryStore(): ScheduleStore & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    async put(key: string, value: unknown) {
+      entries.set(key, value);
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list<T>(prefix: string) {
+      return Array.from(entries.entries())
+        .filter(([key]) => key.startsWith(`${prefix}.`))
+        .map(([, value]) => value as T);
+    },
+  };
+}
+
+const template = {
+  description: 'Nightly dependency audit',
+  capability: 'typescript',
+  boundary: 'personal',
+};
+
+describe('WorkScheduler', () => {
+  let store: ReturnType<typeof memoryStore>;
+  let submitted: WorkSubmitRequest[];
+  let scheduler: WorkScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T08:30:00Z'));
+    store = memoryStore();
+    submitted = [];
+    scheduler = new WorkScheduler(store, async (request) => {
+      submitted.push(request);
+      return { workItemId: `work-${submitted.length}`, targetAgentType: 'claude-code', spinUpTriggered: false };
+    });
+  });
+
+  afterEach(() => {
+    scheduler.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('should persist a schedule with its next run', async () => {
+    const schedule = await scheduler.createSchedule({ name: 'audit', cron: '0 9 * * *', template });
+
+    expect(schedule.nextRunAt).toBe('2026-03-02T09:00:00.000Z');
+    expect(store.entries.get(`schedules.${schedule.id}`)).toEqual(schedule);
+  });
+
+  it('should submit the template each time the schedule fires', async () => {
+    const schedule = await scheduler.createSchedule({ name: 'audit', cron: '*/15 * * * *', template });
+
+    await vi.advanceTimersByTimeAsync(30 * 60000);
+
+    expect(submitted).toHaveLength(2);
+    expect(submitted[0]?.taskId).toBe(`${schedule.id}-${Date.parse('2026-03-02T08:45:00Z')}`);
+    expect(scheduler.getSchedule(schedule.id)?.lastWorkItemId).toBe('work-2');
+    expect(scheduler.getSchedule(schedule.id)?.nextRunAt).toBe('2026-03-02T09:15:00.000Z');
+  });
+
+  it('should not fire disabled schedules', async () => {
+    const schedule = await scheduler.createSchedule({ name: 'audit', cron: '* * * * *', template });
+    await scheduler.updateSchedule(schedule.id, { enabled: false });
+
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+
+    expect(submitted).toHaveLength(0);
+    expect(scheduler.getSchedule(schedule.id)?.nextRunAt).toBeUndefined();
+  });
+
+  it('should reject invalid cron expressions and timezones', async () => {
+    await expect(scheduler.createSchedule({ name: 'audit', cron: '0 9 * *', template }))
+      .rejects.toThrow('5 fields');
+    await expect(scheduler.createSchedule({ name: 'audit', cron: '0 9 * * *', timezone: 'Mars/Olympus', template }))
+      .rejects.toThrow('Invalid timezone');
+  });
+
+  it('should restore stored schedules on initialize', async () => {
+    const schedule = await scheduler.createSchedule({ name: 'audit', cron: '0 9 * * *', template });
+    scheduler.shutdown();
+
+    const restored = new WorkScheduler(store, async (request) => {
+      submitted.push(request);
+      return { workItemId: 'restored', targetAgentType: 'claude-code', spinUpTriggered: false };
+    });
+    expect(await restored.initialize()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(30 * 60000);
+
+    expect(submitted).toHaveLength(1);
+    expect(restored.getSchedule(schedule.id)?.lastWorkItemId).toBe('restored');
+    restored.shutdown();
+  });
+
+  it('should remove schedules and their timers', async () => {
+    const schedule = await scheduler.createSchedule({ name: 'audit', cron: '* * * * *', template });
+
+    expect(await scheduler.removeSchedule(schedule.id)).toBe(true);
+    expect(await scheduler.removeSchedule(schedule.id)).toBe(false);
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+
+    expect(submitted).toHaveLength(0);
+    expect(store.entries.size).toBe(0);
+  });
+});
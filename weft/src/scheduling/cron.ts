@@ -0,0 +1,257 @@
+/**
+ * Cron expressions
+ *
+ * Parses standard five-field cron expressions
+ * (minute hour day-of-month month day-of-week) and computes the next
+ * matching time in an IANA timezone.
+ *
+ * Supported syntax per field: `*`, numbers, ranges (`1-5`), steps
+ * (`0-30/10`, `5/15`, or a star followed by `/15`), lists (`1,15`) and
+ * month/day names (`JAN`, `MON`). Day-of-week accepts 0-7, where 0 and 7 are Sunday.
+ * As in classic cron, when both day-of-month and day-of-week are
+ * restricted a day matches if either matches.
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  /** Original expression */
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was `*` */
+  anyDayOfMonth: boolean;
+  /** Whether day-of-week was `*` */
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+/** Give up searching after this many years without a match (e.g. `0 0 31 2 *`) */
+const MAX_SEARCH_YEARS = 5;
+
+const MINUTE_MS = 60000;
+
+/**
+ * Parse a single value, accepting names for month and day-of-week
+ */
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + spec.min;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value '${value}'`);
+  }
+
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} value ${number} out of range ${spec.min}-${spec.max}`);
+  }
+  return number;
+}
+
+/**
+ * Parse one cron field into the set of values it matches
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    if (!range || part.split('/').length > 2) {
+      throw new Error(`Invalid ${spec.name} field '${field}'`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new Error(`Invalid ${spec.name} step '${stepText}'`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [startText, endText] = range.split('-');
+      start = parseValue(startText ?? '', spec);
+      end = parseValue(endText ?? '', spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range '${range}'`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // `5/15` means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Check whether a timezone name is supported
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in a timezone, stored in the UTC fields of a Date
+ */
+function toWallClock(instant: Date, timezone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute')));
+}
+
+/**
+ * Convert a wall-clock time in a timezone back to an instant
+ * @returns The instant, or null if the wall-clock time doesn't exist (DST gap)
+ */
+function fromWallClock(wallClock: Date, timezone: string): Date | null {
+  // Guess with the offset at the wall-clock time, then correct once for DST changes
+  let instant = new Date(wallClock.getTime() * 2 - toWallClock(wallClock, timezone).getTime());
+  instant = new Date(instant.getTime() + wallClock.getTime() - toWallClock(instant, timezone).getTime());
+
+  return toWallClock(instant, timezone).getTime() === wallClock.getTime() ? instant : null;
+}
+
+function matchesDay(cron: CronExpression, wallClock: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(wallClock.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(wallClock.getUTCDay());
+
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Compute the next time a cron expression fires
+ *
+ * @param expression Cron expression (string or parsed)
+ * @param after Find the first match strictly after this instant
+ * @param timezone IANA timezone (default: UTC)
+ * @returns Next matching instant
+ * @throws Error if the expression never matches
+ */
+export function nextCronTime(
+  expression: CronExpression | string,
+  after: Date,
+  timezone = 'UTC'
+): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Walk wall-clock time, skipping whole months, days and hours that can't match
+  const candidate = toWallClock(new Date(after.getTime() + MINUTE_MS), timezone);
+  const limit = candidate.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (candidate.getUTCFullYear() <= limit) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = fromWallClock(candidate, timezone);
+    if (instant && instant.getTime() > after.getTime()) {
+      return instant;
+    }
+
+    // Wall-clock time skipped by a DST change
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new Error(`Cron expression '${cron.source}' has no upcoming run`);
+}
@@ -0,0 +1,9 @@
+/**
+ * Scheduling module
+ * Cron expressions and recurring work schedules
+ */
+
+export { WorkScheduler, validateSchedule } from './scheduler.js';
+export type { ScheduleStore, ScheduledWorkSubmitter } from './scheduler.js';
+export { parseCron, nextCronTime, isValidTimeZone } from './cron.js';
+export type { CronExpression } from './cron.js';
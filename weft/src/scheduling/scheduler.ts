@@ -0,0 +1,273 @@
+/**
+ * Work scheduler
+ *
+ * Keeps recurring work schedules in the project config store and submits
+ * each schedule's work template when its cron expression fires. Runs missed
+ * while the coordinator was down are skipped; the next run is computed from
+ * startup time.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  WorkSchedule,
+  ScheduleCreateRequest,
+  ScheduleUpdateRequest,
+  WorkSubmitRequest,
+  WorkSubmitResponse,
+} from '@loom/shared';
+import type { ConfigStore } from '../config/index.js';
+import { parseCron, nextCronTime, isValidTimeZone } from './cron.js';
+
+/** Config store key prefix for schedules */
+const SCHEDULE_PREFIX = 'schedules';
+
+/** Longest delay setTimeout supports (~24.8 days) */
+const MAX_TIMER_MS = 2147483647;
+
+/**
+ * Storage used by the scheduler
+ */
+export type ScheduleStore = Pick<ConfigStore, 'put' | 'delete' | 'list'>;
+
+/**
+ * Submits a schedule's work template
+ */
+export type ScheduledWorkSubmitter = (request: WorkSubmitRequest) => Promise<WorkSubmitResponse>;
+
+/**
+ * Check a schedule's cron expression, timezone and template
+ * @throws Error describing the first problem found
+ */
+export function validateSchedule(schedule: Pick<WorkSchedule, 'name' | 'cron' | 'timezone' | 'template'>): void {
+  if (!schedule.name || typeof schedule.name !== 'string') {
+    throw new Error('name is required');
+  }
+  if (!schedule.cron || typeof schedule.cron !== 'string') {
+    throw new Error('cron is required');
+  }
+  parseCron(schedule.cron);
+  if (!isValidTimeZone(schedule.timezone)) {
+    throw new Error(`Invalid timezone: ${schedule.timezone}`);
+  }
+  if (!schedule.template || typeof schedule.template !== 'object') {
+    throw new Error('template is required');
+  }
+  if (!schedule.template.boundary || !schedule.template.capability || !schedule.template.description) {
+    throw new Error('template requires boundary, capability and description');
+  }
+}
+
+/**
+ * Scheduler for recurring work
+ *
+ * Events:
+ * - 'schedule-fired': Emitted after a schedule submits work (schedule: WorkSchedule, response: WorkSubmitResponse)
+ * - 'schedule-error': Emitted when a schedule fails to submit work (schedule: WorkSchedule, error: Error)
+ */
+export class WorkScheduler extends EventEmitter {
+  private schedules: Map<string, WorkSchedule> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private store: ScheduleStore,
+    private submit: ScheduledWorkSubmitter
+  ) {
+    super();
+  }
+
+  /**
+   * Load stored schedules and arm their timers
+   * @returns Number of schedules loaded
+   */
+  async initialize(): Promise<number> {
+    const schedules = await this.store.list<WorkSchedule>(SCHEDULE_PREFIX);
+    const now = new Date();
+
+    for (const schedule of schedules) {
+      this.schedules.set(schedule.id, schedule);
+      try {
+        this.arm(schedule, now);
+      } catch (error) {
+        console.error(`Failed to arm schedule ${schedule.id}:`, error);
+      }
+    }
+
+    return schedules.length;
+  }
+
+  /**
+   * List all schedules
+   */
+  listSchedules(): WorkSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  getSchedule(id: string): WorkSchedule | null {
+    return this.schedules.get(id) ?? null;
+  }
+
+  /**
+   * Create a schedule
+   */
+  async createSchedule(request: ScheduleCreateRequest): Promise<WorkSchedule> {
+    const now = new Date();
+    const schedule: WorkSchedule = {
+      id: uuidv4(),
+      name: request.name,
+      cron: request.cron,
+      timezone: request.timezone ?? 'UTC',
+      template: request.template,
+      enabled: request.enabled ?? true,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    validateSchedule(schedule);
+
+    this.arm(schedule, now);
+    this.schedules.set(schedule.id, schedule);
+    await this.save(schedule);
+
+    return schedule;
+  }
+
+  /**
+   * Update a schedule
+   */
+  async updateSchedule(id: string, updates: ScheduleUpdateRequest): Promise<WorkSchedule> {
+    const existing = this.schedules.get(id);
+    if (!existing) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+
+    const now = new Date();
+    const schedule: WorkSchedule = {
+      ...existing,
+      name: updates.name ?? existing.name,
+      cron: updates.cron ?? existing.cron,
+      timezone: updates.timezone ?? existing.timezone,
+      template: updates.template ?? existing.template,
+      enabled: updates.enabled ?? existing.enabled,
+      updatedAt: now.toISOString(),
+    };
+    validateSchedule(schedule);
+
+    this.arm(schedule, now);
+    this.schedules.set(id, schedule);
+    await this.save(schedule);
+
+    return schedule;
+  }
+
+  /**
+   * Remove a schedule
+   * @returns true if the schedule existed
+   */
+  async removeSchedule(id: string): Promise<boolean> {
+    if (!this.schedules.has(id)) {
+      return false;
+    }
+
+    this.clearTimer(id);
+    this.schedules.delete(id);
+    await this.store.delete(`${SCHEDULE_PREFIX}.${id}`);
+
+    return true;
+  }
+
+  /**
+   * Compute the next run and set a timer for it
+   */
+  private arm(schedule: WorkSchedule, from: Date): void {
+    this.clearTimer(schedule.id);
+
+    if (!schedule.enabled) {
+      schedule.nextRunAt = undefined;
+      return;
+    }
+
+    const nextRun = nextCronTime(schedule.cron, from, schedule.timezone);
+    schedule.nextRunAt = nextRun.toISOString();
+    this.setTimer(schedule.id, nextRun);
+  }
+
+  /**
+   * Set a timer for a run, re-arming in steps for runs beyond setTimeout's range
+   */
+  private setTimer(id: string, runAt: Date): void {
+    const delayMs = Math.max(0, runAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      if (Date.now() < runAt.getTime()) {
+        this.setTimer(id, runAt);
+      } else {
+        void this.fire(id, runAt);
+      }
+    }, Math.min(delayMs, MAX_TIMER_MS));
+    this.timers.set(id, timer);
+  }
+
+  /**
+   * Submit a schedule's work and arm the next run
+   */
+  private async fire(id: string, runAt: Date): Promise<void> {
+    const schedule = this.schedules.get(id);
+    if (!schedule?.enabled) {
+      return;
+    }
+
+    const request: WorkSubmitRequest = {
+      ...schedule.template,
+      taskId: schedule.template.taskId ?? `${schedule.id}-${runAt.getTime()}`,
+    };
+
+    try {
+      const response = await this.submit(request);
+      schedule.lastWorkItemId = response.workItemId;
+      schedule.lastError = undefined;
+      this.emit('schedule-fired', schedule, response);
+    } catch (error) {
+      schedule.lastError = (error as Error).message;
+      this.emit('schedule-error', schedule, error);
+    }
+    schedule.lastRunAt = runAt.toISOString();
+
+    // The schedule may have been updated or removed while submitting
+    if (this.schedules.get(id) !== schedule) {
+      return;
+    }
+
+    try {
+      this.arm(schedule, runAt);
+      await this.save(schedule);
+    } catch (error) {
+      console.error(`Failed to re-arm schedule ${id}:`, error);
+    }
+  }
+
+  private async save(schedule: WorkSchedule): Promise<void> {
+    await this.store.put(`${SCHEDULE_PREFIX}.${schedule.id}`, schedule);
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  shutdown(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.removeAllListeners();
+  }
+}
@@ -21,12 +21,20 @@ import { connect as connectWs } from 'nats.ws';
 import ws from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import type { Server } from 'http';
-import type { CoordinatorConfiguration } from '@loom/shared';
+import type { AgentTypeCreateRequest, BoundaryConfig, CoordinatorConfiguration, CoordinatedWorkItem, Priority, RoutingExplanation, WorkArtifact, WorkUpdateRequest } from '@loom/shared';
 import { DEFAULT_COORDINATOR_CONFIG, parseNatsUrl } from '@loom/shared';
 
 // Component imports
 import { ProjectManager, type ProjectContext } from './projects/index.js';
-import { createExpressApp, startServer, type CoordinatorServiceLayer } from './api/index.js';
+import {
+  createExpressApp,
+  startServer,
+  validateScheduleFields,
+  validateWorkSubmitRequest,
+  validateWorkUpdateRequest,
+  type CoordinatorServiceLayer,
+} from './api/index.js';
+import type { ClassifiedWorkRequest } from './coordinator/index.js';
 
 /**
  * Service state
@@ -41,6 +49,21 @@ interface ServiceState {
 
 let state: ServiceState | null = null;
 
+/**
+ * Parse `name=weight` pairs separated by commas (e.g. `production=3,staging=1`)
+ */
+function parseWeights(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [name, weight] = pair.split('=').map(part => part.trim());
+    const parsed = Number(weight);
+    if (name && parsed > 0) {
+      weights[name] = parsed;
+    }
+  }
+  return weights;
+}
+
 /**
  * Load configuration from environment and files
  */
@@ -77,6 +100,67 @@ function loadConfig(): CoordinatorConfiguration {
     config.idle.defaultTimeoutMs = parseInt(process.env.IDLE_TIMEOUT_MS, 10);
   }
 
+  if (process.env.WORK_MAX_ATTEMPTS) {
+    config.work.retry.maxAttempts = parseInt(process.env.WORK_MAX_ATTEMPTS, 10);
+  }
+
+  if (process.env.WORK_RETRY_DELAY_MS) {
+    config.work.retry.initialDelayMs = parseInt(process.env.WORK_RETRY_DELAY_MS, 10);
+  }
+
+  if (process.env.WORK_LEASE_MS) {
+    config.work.leases.durationMs = parseInt(process.env.WORK_LEASE_MS, 10);
+  }
+
+  if (process.env.WORK_DISPATCH_MODE) {
+    config.work.dispatch.mode = process.env.WORK_DISPATCH_MODE as CoordinatorConfiguration['work']['dispatch']['mode'];
+  }
+
+  if (process.env.WORK_OFFER_TIMEOUT_MS) {
+    config.work.dispatch.offerTimeoutMs = parseInt(process.env.WORK_OFFER_TIMEOUT_MS, 10);
+  }
+
+  if (process.env.WORK_DISPATCH_WINDOW) {
+    config.work.dispatch.window = parseInt(process.env.WORK_DISPATCH_WINDOW, 10);
+  }
+
+  if (process.env.WORK_IDEMPOTENCY_WINDOW_MS) {
+    config.work.idempotency.windowMs = parseInt(process.env.WORK_IDEMPOTENCY_WINDOW_MS, 10);
+  }
+
+  if (process.env.WORK_IDEMPOTENT_TASK_ID) {
+    config.work.idempotency.keyOnTaskId = process.env.WORK_IDEMPOTENT_TASK_ID === 'true';
+  }
+
+  if (process.env.WORK_FAIR_SHARE_BOUNDARY_WEIGHTS) {
+    config.work.fairShare.boundaryWeights = parseWeights(process.env.WORK_FAIR_SHARE_BOUNDARY_WEIGHTS);
+  }
+
+  if (process.env.WORK_FAIR_SHARE_SUBMITTER_WEIGHTS) {
+    config.work.fairShare.submitterWeights = parseWeights(process.env.WORK_FAIR_SHARE_SUBMITTER_WEIGHTS);
+  }
+
+  if (process.env.WORK_FAIR_SHARE_HALF_LIFE_MS) {
+    config.work.fairShare.halfLifeMs = parseInt(process.env.WORK_FAIR_SHARE_HALF_LIFE_MS, 10);
+  }
+
+  if (process.env.BOUNDARY_CONFIGS) {
+    config.boundaryConfigs = JSON.parse(process.env.BOUNDARY_CONFIGS) as BoundaryConfig[];
+  }
+
+  if (process.env.AGENT_TYPES) {
+    config.agentTypes = JSON.parse(process.env.AGENT_TYPES) as AgentTypeCreateRequest[];
+  }
+
+  if (process.env.WORK_AGING_INTERVAL_MS) {
+    config.work.aging = {
+      intervalMs: parseInt(process.env.WORK_AGING_INTERVAL_MS, 10),
+      maxPriority: process.env.WORK_AGING_MAX_PRIORITY
+        ? (parseInt(process.env.WORK_AGING_MAX_PRIORITY, 10) as Priority)
+        : 8,
+    };
+  }
+
   return config;
 }
 
@@ -170,6 +254,93 @@ async function readMessagesFromStream(
   return messages;
 }
 
+/**
+ * Replay a dead-lettered work item and drop its dead-letter entry
+ * @returns The replayed work item, or null if there is no entry or the item is no longer failed
+ */
+async function replayDeadLetter(
+  context: ProjectContext,
+  workItemId: string
+): Promise<CoordinatedWorkItem | null> {
+  const entry = await context.deadLetterQueue.get(workItemId);
+  if (!entry) {
+    return null;
+  }
+
+  const workItem = context.coordinator.replayWork(entry.workItem);
+  if (!workItem) {
+    return null;
+  }
+
+  await context.deadLetterQueue.remove(workItemId);
+  return workItem;
+}
+
+/**
+ * Upload an artifact and record it on its work item
+ */
+async function storeArtifact(
+  context: ProjectContext,
+  workItemId: string,
+  name: string,
+  data: Uint8Array,
+  contentType?: string
+): Promise<WorkArtifact> {
+  const artifact = await context.artifactStore.put(workItemId, name, data, contentType);
+  context.coordinator.recordArtifact(workItemId, artifact);
+  return artifact;
+}
+
+/**
+ * Explain how a submission would be routed, including the spin-up target that would be chosen
+ */
+async function explainRouting(context: ProjectContext, request: ClassifiedWorkRequest): Promise<RoutingExplanation> {
+  const explanation = await context.coordinator.explainRouting(request);
+
+  if (explanation.spinUp.triggered) {
+    const target = await context.targetRegistry.selectTarget({
+      agentType: explanation.decision.targetAgentType,
+      capability: request.capability,
+      requiredCapabilities: request.requiredCapabilities,
+      preferredCapabilities: request.preferredCapabilities,
+      boundary: request.boundary,
+      tags: explanation.decision.targetTags,
+    });
+    if (target) {
+      explanation.spinUp.target = target;
+    } else {
+      explanation.spinUp.reason += '; no suitable target is available';
+    }
+  }
+
+  return explanation;
+}
+
+/**
+ * Map a work submission onto a classified work request
+ */
+function toClassifiedWorkRequest(request: any): ClassifiedWorkRequest {
+  return {
+    taskId: request.taskId || uuidv4(),
+    description: request.description,
+    capability: request.capability,
+    requiredCapabilities: request.requiredCapabilities,
+    preferredCapabilities: request.preferredCapabilities,
+    boundary: request.boundary,
+    priority: request.priority,
+    preferredAgentType: request.preferredAgentType,
+    requiredAgentType: request.requiredAgentType,
+    deadline: request.deadline,
+    notBefore: request.notBefore,
+    contextData: request.contextData,
+    retry: request.retry,
+    dependsOn: request.dependsOn,
+    dependencyFailurePolicy: request.dependencyFailurePolicy,
+    idempotencyKey: request.idempotencyKey,
+    submittedBy: request.submittedBy,
+  };
+}
+
 /**
  * Create a service layer for a specific project
  */
@@ -203,33 +374,185 @@ function createProjectServiceLayer(
       nc.publish(`loom.${projectId}.agents.${guid}.shutdown`, JSON.stringify({ graceful }));
     },
 
+    // Agent type operations
+    async listAgentTypes() {
+      return context.agentTypes.listTypes();
+    },
+
+    async getAgentType(name) {
+      return context.agentTypes.getType(name);
+    },
+
+    async createAgentType(request: any) {
+      return context.agentTypes.createType(request);
+    },
+
+    async updateAgentType(name, updates: any) {
+      return context.agentTypes.updateType(name, updates);
+    },
+
+    async removeAgentType(name) {
+      await context.agentTypes.removeType(name);
+    },
+
+    // Boundary configuration operations
+    async listBoundaryConfigs() {
+      return context.boundaries.listConfigs();
+    },
+
+    async getBoundaryConfig(name) {
+      return context.boundaries.getConfig(name);
+    },
+
+    async createBoundaryConfig(request: any) {
+      return context.boundaries.createConfig(request);
+    },
+
+    async updateBoundaryConfig(name, updates: any) {
+      return context.boundaries.updateConfig(name, updates);
+    },
+
+    async removeBoundaryConfig(name) {
+      return context.boundaries.removeConfig(name);
+    },
+
     // Work operations
-    async listWork(filter) {
-      return coordinator.getAssignments(filter as any);
+    async listWork(query) {
+      return coordinator.queryWork(query);
     },
 
     async submitWork(request: any) {
-      return coordinator.submitClassifiedWork({
-        taskId: request.taskId || uuidv4(),
-        description: request.description,
-        capability: request.capability,
-        boundary: request.boundary,
-        priority: request.priority,
-        preferredAgentType: request.preferredAgentType,
-        requiredAgentType: request.requiredAgentType,
-        deadline: request.deadline,
-        contextData: request.contextData,
-      });
+      return coordinator.submitClassifiedWork(toClassifiedWorkRequest(request));
+    },
+
+    async submitWorkBatch(request: any) {
+      return coordinator.submitBatch(request.items.map(toClassifiedWorkRequest));
+    },
+
+    async getWorkBatch(batchId) {
+      return coordinator.getBatchStatus(batchId) ?? null;
+    },
+
+    async cancelWorkBatch(batchId) {
+      const cancelled = coordinator.cancelBatch(batchId, 'Batch cancelled');
+      return cancelled ? { batchId, cancelled } : null;
     },
 
     async getWorkItem(id) {
       return coordinator.getAssignment(id);
     },
 
+    async getWorkGraph(id) {
+      return coordinator.getWorkGraph(id) ?? null;
+    },
+
+    async getWorkHistory(id) {
+      return coordinator.getWorkHistory(id) ?? null;
+    },
+
+    async listArtifacts(id) {
+      const workItem = coordinator.getAssignment(id);
+      return workItem ? workItem.storedArtifacts ?? [] : null;
+    },
+
+    async getArtifact(id, name) {
+      const artifact = coordinator.getAssignment(id)?.storedArtifacts?.find(a => a.name === name);
+      if (!artifact) {
+        return null;
+      }
+
+      const data = await context.artifactStore.get(id, name);
+      return data ? { contentType: artifact.contentType, data } : null;
+    },
+
+    async uploadArtifact(id, name, data, contentType) {
+      return storeArtifact(context, id, name, data, contentType);
+    },
+
     async cancelWorkItem(id) {
       coordinator.cancelWork(id);
     },
 
+    async updateWorkItem(id, updates) {
+      return coordinator.updateWork(id, updates as WorkUpdateRequest) ? coordinator.getAssignment(id) ?? null : null;
+    },
+
+    async pauseWorkItem(id, reason) {
+      return coordinator.pauseWork(id, reason) ? coordinator.getAssignment(id) ?? null : null;
+    },
+
+    async resumeWorkItem(id) {
+      return coordinator.resumeWork(id) ? coordinator.getAssignment(id) ?? null : null;
+    },
+
+    // Dead-letter queue operations
+    async listDeadLetters() {
+      return context.deadLetterQueue.list();
+    },
+
+    async getDeadLetter(workItemId) {
+      return context.deadLetterQueue.get(workItemId);
+    },
+
+    async replayDeadLetter(workItemId) {
+      return replayDeadLetter(context, workItemId);
+    },
+
+    async removeDeadLetter(workItemId) {
+      await context.deadLetterQueue.remove(workItemId);
+    },
+
+    async purgeDeadLetters() {
+      const purged = await context.deadLetterQueue.purge();
+      return { purged };
+    },
+
+    // Schedule operations
+    async listSchedules() {
+      return context.scheduler.listSchedules();
+    },
+
+    async getSchedule(id) {
+      return context.scheduler.getSchedule(id);
+    },
+
+    async createSchedule(request: any) {
+      return context.scheduler.createSchedule(request);
+    },
+
+    async updateSchedule(id, updates: any) {
+      return context.scheduler.updateSchedule(id, updates);
+    },
+
+    async removeSchedule(id) {
+      await context.scheduler.removeSchedule(id);
+    },
+
+    // Routing rule operations
+    async listRoutingRules() {
+      return context.routingRules.listRules();
+    },
+
+    async getRoutingRule(id) {
+      return context.routingRules.getRule(id);
+    },
+
+    async createRoutingRule(request: any) {
+      return context.routingRules.createRule(request);
+    },
+
+    async updateRoutingRule(id, updates: any) {
+      return context.routingRules.updateRule(id, updates);
+    },
+
+    async removeRoutingRule(id) {
+      await context.routingRules.removeRule(id);
+    },
+
+    async explainRouting(request: any) {
+      return explainRouting(context, toClassifiedWorkRequest(request));
+    },
+
     // Stats operations
     async getStats() {
       const coordStats = coordinator.getStats();
@@ -258,11 +581,15 @@ function createProjectServiceLayer(
           byStatus,
         },
         work: {
+          blocked: coordStats.blocked,
           pending: coordStats.pending,
+          paused: coordStats.paused,
           active: coordStats.active,
           completed: coordStats.completed,
           failed: coordStats.failed,
+          expired: coordStats.expired,
         },
+        fairShare: coordinator.getFairShareStats(),
         targets: targetStats,
       };
     },
@@ -351,85 +678,408 @@ function createProjectServiceLayer(
   };
 }
 
-/**
- * Create a multi-tenant service layer that routes to project contexts
- */
-function createMultiTenantServiceLayer(
-  projectManager: ProjectManager,
-  nc: NatsConnection,
-  defaultProjectId: string
-): CoordinatorServiceLayer & { getGlobalStats: () => Promise<any>; listProjects: () => string[] } {
-  // Helper to get project context (uses default if not specified)
-  const getContext = async (projectId?: string): Promise<ProjectContext> => {
-    const pid = projectId || defaultProjectId;
-    return projectManager.getOrCreateProject(pid);
-  };
+/**
+ * Create a multi-tenant service layer that routes to project contexts
+ */
+function createMultiTenantServiceLayer(
+  projectManager: ProjectManager,
+  nc: NatsConnection,
+  defaultProjectId: string
+): CoordinatorServiceLayer & { getGlobalStats: () => Promise<any>; listProjects: () => string[] } {
+  // Helper to get project context (uses default if not specified)
+  const getContext = async (projectId?: string): Promise<ProjectContext> => {
+    const pid = projectId || defaultProjectId;
+    return projectManager.getOrCreateProject(pid);
+  };
+
+  return {
+    // Agent operations
+    async listAgents(filter) {
+      const context = await getContext((filter as any)?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.listAgents(filter);
+    },
+
+    async getAgent(guid) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const agent = await layer.getAgent(guid);
+        if (agent) return agent;
+      }
+      return null;
+    },
+
+    async requestAgentShutdown(guid, graceful) {
+      // Find which project has this agent
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const agent = await layer.getAgent(guid);
+        if (agent) {
+          await layer.requestAgentShutdown(guid, graceful);
+          return;
+        }
+      }
+      throw new Error(`Agent not found: ${guid}`);
+    },
+
+    // Agent type operations
+    async listAgentTypes(filter) {
+      const context = await getContext(filter?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.listAgentTypes(filter);
+    },
+
+    async getAgentType(name, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.getAgentType(name);
+    },
+
+    async createAgentType(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.createAgentType(request);
+    },
+
+    async updateAgentType(name, updates: any, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.updateAgentType(name, updates);
+    },
+
+    async removeAgentType(name, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      await layer.removeAgentType(name);
+    },
+
+    // Boundary configuration operations
+    async listBoundaryConfigs(filter) {
+      const context = await getContext(filter?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.listBoundaryConfigs(filter);
+    },
+
+    async getBoundaryConfig(name, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.getBoundaryConfig(name);
+    },
+
+    async createBoundaryConfig(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.createBoundaryConfig(request);
+    },
+
+    async updateBoundaryConfig(name, updates: any, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.updateBoundaryConfig(name, updates);
+    },
+
+    async removeBoundaryConfig(name, projectId) {
+      const context = await getContext(projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.removeBoundaryConfig(name);
+    },
+
+    // Work operations
+    async listWork(query) {
+      const context = await getContext(query?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.listWork(query);
+    },
+
+    async submitWork(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.submitWork(request);
+    },
+
+    async submitWorkBatch(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.submitWorkBatch(request);
+    },
+
+    async getWorkBatch(batchId) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const status = await layer.getWorkBatch(batchId);
+        if (status) return status;
+      }
+      return null;
+    },
+
+    async cancelWorkBatch(batchId) {
+      // Find which project has this batch
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const result = await layer.cancelWorkBatch(batchId);
+        if (result) return result;
+      }
+      return null;
+    },
+
+    async listArtifacts(id) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const artifacts = await layer.listArtifacts(id);
+        if (artifacts) return artifacts;
+      }
+      return null;
+    },
+
+    async getArtifact(id, name) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const artifact = await layer.getArtifact(id, name);
+        if (artifact) return artifact;
+      }
+      return null;
+    },
+
+    async uploadArtifact(id, name, data, contentType) {
+      // Find which project has this work item
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const work = await layer.getWorkItem(id);
+        if (work) {
+          return layer.uploadArtifact(id, name, data, contentType);
+        }
+      }
+      throw new Error(`Work item not found: ${id}`);
+    },
+
+    async getWorkItem(id) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const work = await layer.getWorkItem(id);
+        if (work) return work;
+      }
+      return null;
+    },
+
+    async getWorkGraph(id) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const graph = await layer.getWorkGraph(id);
+        if (graph) return graph;
+      }
+      return null;
+    },
+
+    async getWorkHistory(id) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const history = await layer.getWorkHistory(id);
+        if (history) return history;
+      }
+      return null;
+    },
+
+    async cancelWorkItem(id) {
+      // Find which project has this work item
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const work = await layer.getWorkItem(id);
+        if (work) {
+          await layer.cancelWorkItem(id);
+          return;
+        }
+      }
+      throw new Error(`Work item not found: ${id}`);
+    },
+
+    async updateWorkItem(id, updates) {
+      // Find which project has this work item
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        if (await layer.getWorkItem(id)) {
+          return layer.updateWorkItem(id, updates);
+        }
+      }
+      return null;
+    },
+
+    async pauseWorkItem(id, reason) {
+      // Find which project has this work item
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        if (await layer.getWorkItem(id)) {
+          return layer.pauseWorkItem(id, reason);
+        }
+      }
+      return null;
+    },
+
+    async resumeWorkItem(id) {
+      // Find which project has this work item
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        if (await layer.getWorkItem(id)) {
+          return layer.resumeWorkItem(id);
+        }
+      }
+      return null;
+    },
+
+    // Dead-letter queue operations
+    async listDeadLetters(filter) {
+      const context = await getContext(filter?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.listDeadLetters(filter);
+    },
+
+    async getDeadLetter(workItemId) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const entry = await layer.getDeadLetter(workItemId);
+        if (entry) return entry;
+      }
+      return null;
+    },
+
+    async replayDeadLetter(workItemId) {
+      // Find which project has this entry
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const entry = await layer.getDeadLetter(workItemId);
+        if (entry) {
+          return layer.replayDeadLetter(workItemId);
+        }
+      }
+      throw new Error(`Dead-letter entry not found: ${workItemId}`);
+    },
+
+    async removeDeadLetter(workItemId) {
+      // Find which project has this entry
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const entry = await layer.getDeadLetter(workItemId);
+        if (entry) {
+          await layer.removeDeadLetter(workItemId);
+          return;
+        }
+      }
+      throw new Error(`Dead-letter entry not found: ${workItemId}`);
+    },
+
+    async purgeDeadLetters(filter) {
+      const context = await getContext(filter?.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.purgeDeadLetters(filter);
+    },
 
-  return {
-    // Agent operations
-    async listAgents(filter) {
-      const context = await getContext((filter as any)?.projectId);
+    // Schedule operations
+    async listSchedules(filter) {
+      const context = await getContext(filter?.projectId);
       const layer = createProjectServiceLayer(context, nc);
-      return layer.listAgents(filter);
+      return layer.listSchedules(filter);
     },
 
-    async getAgent(guid) {
+    async getSchedule(id) {
       // Search across all projects
       for (const context of projectManager.getAllProjects()) {
         const layer = createProjectServiceLayer(context, nc);
-        const agent = await layer.getAgent(guid);
-        if (agent) return agent;
+        const schedule = await layer.getSchedule(id);
+        if (schedule) return schedule;
       }
       return null;
     },
 
-    async requestAgentShutdown(guid, graceful) {
-      // Find which project has this agent
+    async createSchedule(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.createSchedule(request);
+    },
+
+    async updateSchedule(id, updates: any) {
+      // Find which project has this schedule
       for (const context of projectManager.getAllProjects()) {
         const layer = createProjectServiceLayer(context, nc);
-        const agent = await layer.getAgent(guid);
-        if (agent) {
-          await layer.requestAgentShutdown(guid, graceful);
+        const schedule = await layer.getSchedule(id);
+        if (schedule) {
+          return layer.updateSchedule(id, updates);
+        }
+      }
+      throw new Error(`Schedule not found: ${id}`);
+    },
+
+    async removeSchedule(id) {
+      // Find which project has this schedule
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const schedule = await layer.getSchedule(id);
+        if (schedule) {
+          await layer.removeSchedule(id);
           return;
         }
       }
-      throw new Error(`Agent not found: ${guid}`);
+      throw new Error(`Schedule not found: ${id}`);
     },
 
-    // Work operations
-    async listWork(filter) {
-      const context = await getContext((filter as any)?.projectId);
+    // Routing rule operations
+    async listRoutingRules(filter) {
+      const context = await getContext(filter?.projectId);
       const layer = createProjectServiceLayer(context, nc);
-      return layer.listWork(filter);
+      return layer.listRoutingRules(filter);
     },
 
-    async submitWork(request: any) {
+    async getRoutingRule(id) {
+      // Search across all projects
+      for (const context of projectManager.getAllProjects()) {
+        const layer = createProjectServiceLayer(context, nc);
+        const rule = await layer.getRoutingRule(id);
+        if (rule) return rule;
+      }
+      return null;
+    },
+
+    async createRoutingRule(request: any) {
       const context = await getContext(request.projectId);
       const layer = createProjectServiceLayer(context, nc);
-      return layer.submitWork(request);
+      return layer.createRoutingRule(request);
     },
 
-    async getWorkItem(id) {
-      // Search across all projects
+    async updateRoutingRule(id, updates: any) {
+      // Find which project has this rule
       for (const context of projectManager.getAllProjects()) {
         const layer = createProjectServiceLayer(context, nc);
-        const work = await layer.getWorkItem(id);
-        if (work) return work;
+        const rule = await layer.getRoutingRule(id);
+        if (rule) {
+          return layer.updateRoutingRule(id, updates);
+        }
       }
-      return null;
+      throw new Error(`Routing rule not found: ${id}`);
     },
 
-    async cancelWorkItem(id) {
-      // Find which project has this work item
+    async removeRoutingRule(id) {
+      // Find which project has this rule
       for (const context of projectManager.getAllProjects()) {
         const layer = createProjectServiceLayer(context, nc);
-        const work = await layer.getWorkItem(id);
-        if (work) {
-          await layer.cancelWorkItem(id);
+        const rule = await layer.getRoutingRule(id);
+        if (rule) {
+          await layer.removeRoutingRule(id);
           return;
         }
       }
-      throw new Error(`Work item not found: ${id}`);
+      throw new Error(`Routing rule not found: ${id}`);
+    },
+
+    async explainRouting(request: any) {
+      const context = await getContext(request.projectId);
+      const layer = createProjectServiceLayer(context, nc);
+      return layer.explainRouting(request);
     },
 
     // Stats operations (returns stats for default project)
@@ -561,8 +1211,10 @@ function createMultiTenantServiceLayer(
 
 /**
  * Setup NATS request handlers with wildcard subscriptions (multi-tenant)
+ *
+ * Exported for testing the handlers against a stub connection.
  */
-function setupNATSHandlers(
+export function setupNATSHandlers(
   nc: NatsConnection,
   projectManager: ProjectManager
 ): void {
@@ -598,6 +1250,20 @@ function setupNATSHandlers(
     };
   };
 
+  // Helper to reject reports from agents that don't own the work item
+  const requireAssignedAgent = (context: ProjectContext, id: string, agentGuid: string) => {
+    if (!id || !agentGuid) {
+      throw new Error('id and agentGuid are required');
+    }
+    const check = context.coordinator.checkAssignment(id, agentGuid);
+    if (!check.eligible) {
+      throw new Error(check.reason);
+    }
+  };
+
+  // Helper to list the agent types a project knows, for the REST validators
+  const agentTypeNames = (context: ProjectContext) => context.agentTypes.listTypes().map(type => type.name);
+
   // Stats endpoint
   nc.subscribe('coord.*.stats', {
     callback: handleWithProject(async (context) => {
@@ -646,13 +1312,45 @@ function setupNATSHandlers(
     }),
   });
 
+  // Work query (filtered, sorted and paged listing)
+  nc.subscribe('coord.*.work.query', {
+    callback: handleWithProject(async (context, query) => {
+      return context.coordinator.queryWork(query);
+    }),
+  });
+
   // Work submit
   nc.subscribe('coord.*.work.submit', {
     callback: handleWithProject(async (context, request) => {
-      return context.coordinator.submitClassifiedWork({
-        ...request,
-        taskId: request.taskId || uuidv4(),
-      });
+      validateWorkSubmitRequest(request, agentTypeNames(context));
+      return context.coordinator.submitClassifiedWork(toClassifiedWorkRequest(request));
+    }),
+  });
+
+  // Work batch submit
+  nc.subscribe('coord.*.work.submit-batch', {
+    callback: handleWithProject(async (context, { items }) => {
+      if (!Array.isArray(items)) {
+        throw new Error('items must be an array');
+      }
+      const agentTypes = agentTypeNames(context);
+      items.forEach(item => validateWorkSubmitRequest(item, agentTypes));
+      return context.coordinator.submitBatch(items.map(toClassifiedWorkRequest));
+    }),
+  });
+
+  // Work batch status
+  nc.subscribe('coord.*.work.batch-status', {
+    callback: handleWithProject(async (context, { batchId }) => {
+      return context.coordinator.getBatchStatus(batchId) ?? null;
+    }),
+  });
+
+  // Work batch cancel
+  nc.subscribe('coord.*.work.batch-cancel', {
+    callback: handleWithProject(async (context, { batchId }) => {
+      const cancelled = context.coordinator.cancelBatch(batchId, 'Batch cancelled');
+      return cancelled ? { batchId, cancelled } : null;
     }),
   });
 
@@ -663,6 +1361,20 @@ function setupNATSHandlers(
     }),
   });
 
+  // Work dependency graph
+  nc.subscribe('coord.*.work.graph', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.coordinator.getWorkGraph(id) ?? null;
+    }),
+  });
+
+  // Work status timeline
+  nc.subscribe('coord.*.work.history', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.coordinator.getWorkHistory(id) ?? null;
+    }),
+  });
+
   // Work status (for watching)
   nc.subscribe('coord.*.work.status.*', {
     callback: async (err, msg) => {
@@ -694,6 +1406,339 @@ function setupNATSHandlers(
     }),
   });
 
+  // Work update (priority, deadline or context data of unclaimed work)
+  nc.subscribe('coord.*.work.update', {
+    callback: handleWithProject(async (context, { id, ...updates }) => {
+      validateWorkUpdateRequest(updates);
+      const success = context.coordinator.updateWork(id, updates);
+      return { success };
+    }),
+  });
+
+  // Work pause (hold pending work)
+  nc.subscribe('coord.*.work.pause', {
+    callback: handleWithProject(async (context, { id, reason }) => {
+      const success = context.coordinator.pauseWork(id, reason);
+      return { success };
+    }),
+  });
+
+  // Work resume (release paused work)
+  nc.subscribe('coord.*.work.resume', {
+    callback: handleWithProject(async (context, { id }) => {
+      const success = context.coordinator.resumeWork(id);
+      return { success };
+    }),
+  });
+
+  // Work claim (agent takes ownership of a pending item)
+  nc.subscribe('coord.*.work.claim', {
+    callback: handleWithProject(async (context, { id, agentGuid }) => {
+      if (!id || !agentGuid) {
+        throw new Error('id and agentGuid are required');
+      }
+      const check = await context.coordinator.validateClaim(id, agentGuid);
+      if (!check.eligible) {
+        throw new Error(check.reason);
+      }
+      const success = await context.coordinator.recordClaim(id, agentGuid);
+      return { success, workItem: context.coordinator.getAssignment(id) };
+    }),
+  });
+
+  // Work next (claim the next fair-share item the agent can take)
+  nc.subscribe('coord.*.work.next', {
+    callback: handleWithProject(async (context, { agentGuid }) => {
+      if (!agentGuid) {
+        throw new Error('agentGuid is required');
+      }
+      const workItem = await context.coordinator.claimNextWork(agentGuid);
+      return { workItem: workItem ?? null };
+    }),
+  });
+
+  // Work start (assigned agent begins work)
+  nc.subscribe('coord.*.work.start', {
+    callback: handleWithProject(async (context, { id, agentGuid }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      const success = context.coordinator.startWork(id);
+      return { success, leaseExpiresAt: context.coordinator.getAssignment(id)?.leaseExpiresAt };
+    }),
+  });
+
+  // Work heartbeat (assigned agent renews its lease)
+  nc.subscribe('coord.*.work.heartbeat', {
+    callback: handleWithProject(async (context, { id, agentGuid }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      const leaseExpiresAt = context.coordinator.renewLease(id);
+      return { success: leaseExpiresAt !== undefined, leaseExpiresAt };
+    }),
+  });
+
+  // Work progress (assigned agent reports percentage)
+  nc.subscribe('coord.*.work.progress', {
+    callback: handleWithProject(async (context, { id, agentGuid, progress }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      if (typeof progress !== 'number') {
+        throw new Error('progress must be a number between 0 and 100');
+      }
+      const success = context.coordinator.updateProgress(id, progress);
+      return { success, leaseExpiresAt: context.coordinator.getAssignment(id)?.leaseExpiresAt };
+    }),
+  });
+
+  // Work complete (assigned agent reports success)
+  nc.subscribe('coord.*.work.complete', {
+    callback: handleWithProject(async (context, { id, agentGuid, result, summary }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      const success = context.coordinator.recordCompletion(id, result, summary);
+      if (!success) {
+        // e.g. cancelled while the agent was working on it
+        throw new Error(`Work item is ${context.coordinator.getAssignment(id)?.status}, not active`);
+      }
+      return { success };
+    }),
+  });
+
+  // Work artifact upload (assigned agent stores a result file, base64-encoded)
+  nc.subscribe('coord.*.work.artifacts.put', {
+    callback: handleWithProject(async (context, { id, agentGuid, name, contentType, data }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      if (!name || typeof data !== 'string') {
+        throw new Error('name and data are required');
+      }
+      return storeArtifact(context, id, name, Buffer.from(data, 'base64'), contentType);
+    }),
+  });
+
+  // Work artifact list
+  nc.subscribe('coord.*.work.artifacts.list', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.coordinator.getAssignment(id)?.storedArtifacts ?? [];
+    }),
+  });
+
+  // Work artifact download (base64-encoded)
+  nc.subscribe('coord.*.work.artifacts.get', {
+    callback: handleWithProject(async (context, { id, name }) => {
+      const artifact = context.coordinator.getAssignment(id)?.storedArtifacts?.find(a => a.name === name);
+      const data = artifact ? await context.artifactStore.get(id, name) : null;
+      return data ? { artifact, data: Buffer.from(data).toString('base64') } : null;
+    }),
+  });
+
+  // Work fail (assigned agent reports an error)
+  nc.subscribe('coord.*.work.fail', {
+    callback: handleWithProject(async (context, { id, agentGuid, error, recoverable = false, code }) => {
+      requireAssignedAgent(context, id, agentGuid);
+      if (!error) {
+        throw new Error('error is required');
+      }
+      if (code !== undefined && typeof code !== 'string') {
+        throw new Error('code must be a string');
+      }
+      const success = await context.coordinator.recordError(id, String(error), Boolean(recoverable), code);
+      if (!success) {
+        throw new Error(`Work item is ${context.coordinator.getAssignment(id)?.status}, not active`);
+      }
+      return { success };
+    }),
+  });
+
+  // Dead-letter list
+  nc.subscribe('coord.*.dlq.list', {
+    callback: handleWithProject(async (context) => {
+      return context.deadLetterQueue.list();
+    }),
+  });
+
+  // Dead-letter get
+  nc.subscribe('coord.*.dlq.get', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.deadLetterQueue.get(id);
+    }),
+  });
+
+  // Dead-letter replay (resubmit with attempts reset)
+  nc.subscribe('coord.*.dlq.replay', {
+    callback: handleWithProject(async (context, { id }) => {
+      const workItem = await replayDeadLetter(context, id);
+      if (!workItem) {
+        throw new Error(`No replayable dead-letter entry for work item ${id}`);
+      }
+      return { success: true, workItem };
+    }),
+  });
+
+  // Dead-letter remove
+  nc.subscribe('coord.*.dlq.remove', {
+    callback: handleWithProject(async (context, { id }) => {
+      const success = await context.deadLetterQueue.remove(id);
+      return { success };
+    }),
+  });
+
+  // Dead-letter purge
+  nc.subscribe('coord.*.dlq.purge', {
+    callback: handleWithProject(async (context) => {
+      const purged = await context.deadLetterQueue.purge();
+      return { success: true, purged };
+    }),
+  });
+
+  // Schedules list
+  nc.subscribe('coord.*.schedules.list', {
+    callback: handleWithProject(async (context) => {
+      return context.scheduler.listSchedules();
+    }),
+  });
+
+  // Schedules get
+  nc.subscribe('coord.*.schedules.get', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.scheduler.getSchedule(id);
+    }),
+  });
+
+  // Schedules create
+  nc.subscribe('coord.*.schedules.create', {
+    callback: handleWithProject(async (context, request) => {
+      validateScheduleFields(request, agentTypeNames(context));
+      return context.scheduler.createSchedule(request);
+    }),
+  });
+
+  // Schedules update
+  nc.subscribe('coord.*.schedules.update', {
+    callback: handleWithProject(async (context, { id, updates = {} }) => {
+      validateScheduleFields(updates, agentTypeNames(context));
+      return context.scheduler.updateSchedule(id, updates);
+    }),
+  });
+
+  // Schedules remove
+  nc.subscribe('coord.*.schedules.remove', {
+    callback: handleWithProject(async (context, { id }) => {
+      const success = await context.scheduler.removeSchedule(id);
+      return { success };
+    }),
+  });
+
+  // Agent types list
+  nc.subscribe('coord.*.agent-types.list', {
+    callback: handleWithProject(async (context) => {
+      return context.agentTypes.listTypes();
+    }),
+  });
+
+  // Agent types get
+  nc.subscribe('coord.*.agent-types.get', {
+    callback: handleWithProject(async (context, { name }) => {
+      return context.agentTypes.getType(name);
+    }),
+  });
+
+  // Agent types create
+  nc.subscribe('coord.*.agent-types.create', {
+    callback: handleWithProject(async (context, request) => {
+      return context.agentTypes.createType(request);
+    }),
+  });
+
+  // Agent types update
+  nc.subscribe('coord.*.agent-types.update', {
+    callback: handleWithProject(async (context, { name, updates }) => {
+      return context.agentTypes.updateType(name, updates ?? {});
+    }),
+  });
+
+  // Agent types remove
+  nc.subscribe('coord.*.agent-types.remove', {
+    callback: handleWithProject(async (context, { name }) => {
+      const success = await context.agentTypes.removeType(name);
+      return { success };
+    }),
+  });
+
+  // Boundaries list
+  nc.subscribe('coord.*.boundaries.list', {
+    callback: handleWithProject(async (context) => {
+      return context.boundaries.listConfigs();
+    }),
+  });
+
+  // Boundaries get
+  nc.subscribe('coord.*.boundaries.get', {
+    callback: handleWithProject(async (context, { name }) => {
+      return context.boundaries.getConfig(name);
+    }),
+  });
+
+  // Boundaries create
+  nc.subscribe('coord.*.boundaries.create', {
+    callback: handleWithProject(async (context, request) => {
+      return context.boundaries.createConfig(request);
+    }),
+  });
+
+  // Boundaries update
+  nc.subscribe('coord.*.boundaries.update', {
+    callback: handleWithProject(async (context, { name, updates }) => {
+      return context.boundaries.updateConfig(name, updates ?? {});
+    }),
+  });
+
+  // Boundaries remove
+  nc.subscribe('coord.*.boundaries.remove', {
+    callback: handleWithProject(async (context, { name }) => {
+      const success = await context.boundaries.removeConfig(name);
+      return { success };
+    }),
+  });
+
+  // Routing explain (how a submission would be routed, without submitting it)
+  nc.subscribe('coord.*.routing.explain', {
+    callback: handleWithProject(async (context, request) => {
+      return explainRouting(context, toClassifiedWorkRequest(request));
+    }),
+  });
+
+  // Routing rules list
+  nc.subscribe('coord.*.routing.rules.list', {
+    callback: handleWithProject(async (context) => {
+      return context.routingRules.listRules();
+    }),
+  });
+
+  // Routing rules get
+  nc.subscribe('coord.*.routing.rules.get', {
+    callback: handleWithProject(async (context, { id }) => {
+      return context.routingRules.getRule(id);
+    }),
+  });
+
+  // Routing rules create
+  nc.subscribe('coord.*.routing.rules.create', {
+    callback: handleWithProject(async (context, request) => {
+      return context.routingRules.createRule(request);
+    }),
+  });
+
+  // Routing rules update
+  nc.subscribe('coord.*.routing.rules.update', {
+    callback: handleWithProject(async (context, { id, updates }) => {
+      return context.routingRules.updateRule(id, updates ?? {});
+    }),
+  });
+
+  // Routing rules remove
+  nc.subscribe('coord.*.routing.rules.remove', {
+    callback: handleWithProject(async (context, { id }) => {
+      const success = await context.routingRules.removeRule(id);
+      return { success };
+    }),
+  });
+
   // Targets list
   nc.subscribe('coord.*.targets.list', {
     callback: handleWithProject(async (context, filter) => {
@@ -704,7 +1749,11 @@ function setupNATSHandlers(
   // Targets register
   nc.subscribe('coord.*.targets.register', {
     callback: handleWithProject(async (context, request) => {
-      return context.targetRegistry.registerTarget(request);
+      context.agentTypes.assertKnown(request.agentType);
+      return context.targetRegistry.registerTarget({
+        ...request,
+        capabilities: request.capabilities ?? context.agentTypes.getType(request.agentType)!.defaultCapabilities,
+      });
     }),
   });
 
@@ -718,6 +1767,9 @@ function setupNATSHandlers(
   // Targets update
   nc.subscribe('coord.*.targets.update', {
     callback: handleWithProject(async (context, request) => {
+      if (request.updates?.agentType !== undefined) {
+        context.agentTypes.assertKnown(request.updates.agentType);
+      }
       return context.targetRegistry.updateTarget(request);
     }),
   });
@@ -891,6 +1943,10 @@ export async function startService(): Promise<void> {
       await projectManager.getOrCreateProject(config.projectId);
     }
 
+    // Resume projects with work or schedules stored by an earlier run
+    const restoredProjects = await projectManager.restoreStoredProjects();
+    console.log(`  Restored ${restoredProjects.length} projects with stored work or configuration`);
+
     // Initialize state
     state = {
       config,
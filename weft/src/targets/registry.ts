@@ -9,6 +9,7 @@ import type {
   HealthStatus,
 } from '@loom/shared';
 import { KVBuckets, TargetSubjects } from '@loom/shared';
+import { meetsRequirements, sortByPreference } from '../routing/capabilities.js';
 
 /**
  * Dynamic target registry
@@ -231,6 +232,9 @@ export class TargetRegistry {
 
   /**
    * Query targets with filters
+   *
+   * Capabilities are matched the way work is matched to agents, and targets
+   * with more of the preferred capabilities come first.
    */
   async queryTargets(filter: TargetQueryFilter = {}): Promise<SpinUpTarget[]> {
     if (!this.kv) {
@@ -257,7 +261,7 @@ export class TargetRegistry {
         if (filter.agentType && target.agentType !== filter.agentType) {
           continue;
         }
-        if (filter.capability && !target.capabilities.includes(filter.capability)) {
+        if (!meetsRequirements(target.capabilities, filter)) {
           continue;
         }
         if (
@@ -286,7 +290,24 @@ export class TargetRegistry {
       }
     }
 
-    return results;
+    return sortByPreference(results, filter);
+  }
+
+  /**
+   * Choose the target to spin up for work: the best available target of the
+   * agent type that meets the work's capability requirements, accepts its
+   * boundary and carries every tag given
+   * @returns The target, or null if none is suitable
+   */
+  async selectTarget(
+    criteria: Pick<
+      TargetQueryFilter,
+      'agentType' | 'capability' | 'requiredCapabilities' | 'preferredCapabilities' | 'boundary'
+    > & { tags?: string[] }
+  ): Promise<SpinUpTarget | null> {
+    const { tags = [], ...filter } = criteria;
+    const targets = await this.queryTargets({ ...filter, status: 'available' });
+    return targets.find(target => tags.every(tag => target.tags?.includes(tag))) ?? null;
   }
 
   /**